@@ -1,10 +1,18 @@
 
 
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeDocument } from './services/geminiService';
-import { AnalysisResult, Language } from './types';
+import { getAIProvider } from './services/aiProvider';
+import { AnalysisValidationError } from './services/analysisValidator';
+import { ProxyError } from './services/proxyProvider';
+import { hashPages } from './services/hashService';
+import { cacheAnalysis, clearCachedAnalyses, getCachedAnalysis } from './services/analysisCacheService';
+import { HistoryEntry, getHistoryEntry, saveAnalysis, saveTranslation } from './services/historyService';
+import { loadProgress, saveProgress } from './services/progressService';
+import { AnalysisResult, Language, DocumentPage, ChatMessage } from './types';
 import AnalysisView from './components/AnalysisView';
-import { translations } from './locales';
+import HistoryView from './components/HistoryView';
+import GlossaryView from './components/GlossaryView';
+import { translations, interpolate, getInitialLanguage, saveLanguage, getLanguageInfo, LANGUAGES } from './locales';
 
 // Custom Logo Component to ensure it never breaks
 const PathFinderLogo = () => (
@@ -38,7 +46,10 @@ const PathFinderLogo = () => (
   </svg>
 );
 
-const processFile = (file: File): Promise<{ base64: string; mimeType: string }> => {
+// Upper bound for a single packet; every page is sent inline with each request
+const MAX_PAGES = 10;
+
+const processFile = (file: File): Promise<DocumentPage> => {
   return new Promise((resolve, reject) => {
     // 1. Handle PDF (Pass through)
     if (file.type === 'application/pdf') {
@@ -48,7 +59,8 @@ const processFile = (file: File): Promise<{ base64: string; mimeType: string }>
          // Remove Data URL prefix
          resolve({
            base64: result.split(',')[1],
-           mimeType: file.type
+           mimeType: file.type,
+           name: file.name
          });
        };
        reader.onerror = reject;
@@ -87,7 +99,8 @@ const processFile = (file: File): Promise<{ base64: string; mimeType: string }>
                 
                 resolve({
                     base64: dataUrl.split(',')[1],
-                    mimeType: 'image/jpeg'
+                    mimeType: 'image/jpeg',
+                    name: file.name
                 });
             };
             img.onerror = reject;
@@ -103,20 +116,37 @@ const processFile = (file: File): Promise<{ base64: string; mimeType: string }>
 };
 
 const App: React.FC = () => {
-  const [file, setFile] = useState<File | null>(null);
-  const [fileData, setFileData] = useState<{ base64: string; mimeType: string } | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileData, setFileData] = useState<DocumentPage[] | null>(null);
+  const [documentId, setDocumentId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  // The result came from the analysis cache rather than a fresh model call
+  const [isFromCache, setIsFromCache] = useState(false);
   const [loadingStep, setLoadingStep] = useState(0);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
-  const [language, setLanguage] = useState<Language>('en');
+  const [language, setLanguage] = useState<Language>(getInitialLanguage);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  // Transcript to continue when a saved document is reopened
+  const [restoredMessages, setRestoredMessages] = useState<ChatMessage[] | undefined>(undefined);
   
+  // Every language the current document has been shown in, so switching back is instant
+  const resultsRef = useRef<Partial<Record<Language, AnalysisResult>>>({});
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
   const t = translations[language];
 
+  // Screen readers and the browser's text direction follow the chosen language
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = getLanguageInfo(language).dir;
+  }, [language]);
+
   useEffect(() => {
     const userAgent = navigator.userAgent || navigator.vendor || (window as any).opera;
     if (/android/i.test(userAgent) || /iPad|iPhone|iPod/.test(userAgent)) {
@@ -153,21 +183,50 @@ const App: React.FC = () => {
         'image/tiff'
     ];
     if (!validTypes.includes(selectedFile.type)) {
-      setError(language === 'es' ? "Tipo de archivo no válido. Use PDF o Imagen." : "Invalid file type. Please use PDF or Image.");
-      setFile(null);
+      setError(t.errorInvalidFileType);
       return false;
     }
     return true;
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selected = e.target.files[0];
-      if (validateFile(selected)) {
-        setFile(selected);
-        setError(null);
-      }
+  // Append new pages to the end of the packet, keeping the current order
+  const addFiles = (incoming: FileList | null) => {
+    if (!incoming || incoming.length === 0) return;
+
+    const accepted = Array.from(incoming).filter(validateFile);
+    if (accepted.length === 0) return;
+
+    if (files.length + accepted.length > MAX_PAGES) {
+      setError(interpolate(t.errorTooManyPages, { max: MAX_PAGES }));
+      return;
     }
+
+    setFiles(prev => [...prev, ...accepted]);
+    setFileData(null);
+    if (accepted.length === incoming.length) setError(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    // Allow selecting the same file again after removing it
+    e.target.value = '';
+  };
+
+  const movePage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= files.length) return;
+    setFiles(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setFileData(null);
+  };
+
+  const removePage = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
+    setFileData(null);
+    setError(null);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -176,13 +235,7 @@ const App: React.FC = () => {
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-       const dropped = e.dataTransfer.files[0];
-       if (validateFile(dropped)) {
-         setFile(dropped);
-         setError(null);
-       }
-    }
+    addFiles(e.dataTransfer.files);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -192,11 +245,26 @@ const App: React.FC = () => {
     }
   };
 
-  const performAnalysis = async (data: {base64: string, mimeType: string}, lang: Language) => {
+  // `reanalyze` skips the cache and replaces whatever was saved for this document
+  const performAnalysis = async (data: DocumentPage[], lang: Language, docId: string, reanalyze = false) => {
     setIsAnalyzing(true);
     setError(null);
+    setIsFromCache(false);
     try {
-      const res = await analyzeDocument(data.base64, data.mimeType, lang);
+      const cached = reanalyze ? undefined : getCachedAnalysis(docId, lang);
+      if (cached) {
+        // The history entry may have been deleted while the cache kept the result
+        const saved = await getHistoryEntry(docId);
+        if (saved) await saveTranslation(docId, lang, cached);
+        else await saveAnalysis(docId, data, lang, cached);
+        resultsRef.current = { ...saved?.results, [lang]: cached };
+        setResult(cached);
+        setIsFromCache(true);
+        return;
+      }
+      if (reanalyze) clearCachedAnalyses(docId);
+
+      const res = await getAIProvider().analyzeDocument(data, lang);
       
       // Validation Check
       if (!res.isImmigrationDocument) {
@@ -205,50 +273,152 @@ const App: React.FC = () => {
         return;
       }
 
+      // Save before showing the result so the view's chat and checklist updates have an entry to land in
+      await saveAnalysis(docId, data, lang, res);
+      cacheAnalysis(docId, lang, res);
+      resultsRef.current = { [lang]: res };
       setResult(res);
     } catch (err) {
       console.error(err);
-      setError(t.errorGeneric);
+      if (err instanceof AnalysisValidationError) {
+        setError(t.errorInvalidResponse);
+      } else if (err instanceof ProxyError && err.code === 'rate_limited') {
+        setError(t.errorRateLimited);
+      } else if (err instanceof ProxyError && err.code === 'payload_too_large') {
+        setError(t.errorTooLarge);
+      } else {
+        setError(t.errorGeneric);
+      }
     } finally {
       setIsAnalyzing(false);
     }
   };
 
   const handleAnalyze = async () => {
-    if (!file) return;
+    if (files.length === 0) return;
     
     let currentFileData = fileData;
-    if (!currentFileData) {
+    let currentDocumentId = documentId;
+    if (!currentFileData || !currentDocumentId) {
         try {
-            currentFileData = await processFile(file);
+            currentFileData = await Promise.all(files.map(processFile));
+            currentDocumentId = await hashPages(currentFileData);
             setFileData(currentFileData);
+            setDocumentId(currentDocumentId);
         } catch (err) {
-            setError("Failed to process file. Please try again.");
+            setError(t.errorProcessFile);
             return;
         }
     }
+
+    // Uploading a document again picks up its earlier conversation
+    const saved = await getHistoryEntry(currentDocumentId);
+    setRestoredMessages(saved?.messages);
     
-    await performAnalysis(currentFileData, language);
+    await performAnalysis(currentFileData, language, currentDocumentId);
+  };
+
+  // Translate the text of an analysis we already have instead of reading the document again,
+  // so the checklist, dates and sentiment stay exactly the same
+  const translateResult = async (source: AnalysisResult, from: Language, to: Language, docId: string) => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translated = await getAIProvider().translateAnalysis(source, from, to);
+      await saveTranslation(docId, to, translated);
+      cacheAnalysis(docId, to, translated);
+      resultsRef.current = { ...resultsRef.current, [to]: translated };
+      setResult(translated);
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof ProxyError && err.code === 'rate_limited' ? t.errorRateLimited : t.errorTranslation);
+      return false;
+    } finally {
+      setIsTranslating(false);
+    }
   };
 
-  // Toggle Language and re-analyze if needed
-  const toggleLanguage = async () => {
-      const newLang = language === 'en' ? 'es' : 'en';
+  const handleReanalyze = () => {
+    if (fileData && documentId) performAnalysis(fileData, language, documentId, true);
+  };
+
+  // Switch language, showing the current document in the new language
+  const changeLanguage = async (newLang: Language) => {
+      if (newLang === language) return;
+      const previous = language;
       setLanguage(newLang);
-      
-      // If we already have a document analyzed, re-analyze it in the new language automatically
-      if (result && fileData) {
-          await performAnalysis(fileData, newLang);
+      saveLanguage(newLang);
+
+      if (result && documentId) {
+          const cached = resultsRef.current[newLang];
+          if (cached) {
+              setResult(cached);
+              return;
+          }
+          // Keep the page in one language if the translation fails
+          if (!(await translateResult(result, previous, newLang, documentId))) {
+              setLanguage(previous);
+              saveLanguage(previous);
+          }
       }
   };
 
+  const openHistoryEntry = async (entry: HistoryEntry) => {
+    setShowHistory(false);
+    setFiles([]);
+    setFileData(entry.pages);
+    setDocumentId(entry.id);
+    setRestoredMessages(entry.messages);
+    setError(null);
+    setIsFromCache(false);
+    // The checklist reads progress from local storage. The history copy fills it in after a cleared
+    // browser, but mustn't undo ticks made since it was saved (the history write can fail or lag behind).
+    // Entries saved before progress had a timestamp have none; treat them like local progress from then (0).
+    if ((entry.progress.updatedAt || 0) >= loadProgress(entry.id).updatedAt) saveProgress(entry.id, entry.progress);
+    resultsRef.current = entry.results;
+
+    const saved = entry.results[language];
+    const [otherLanguage, other] = (Object.entries(entry.results)[0] || []) as [Language?, AnalysisResult?];
+    if (saved) {
+      setResult(saved);
+    } else if (otherLanguage && other) {
+      // Show the saved version right away and swap in the translation when it arrives
+      setResult(other);
+      await translateResult(other, otherLanguage, language, entry.id);
+    } else {
+      setResult(null);
+      await performAnalysis(entry.pages, language, entry.id);
+    }
+  };
+
+  const openHistoryDocument = async (id: string) => {
+    const entry = await getHistoryEntry(id);
+    if (entry) await openHistoryEntry(entry);
+  };
+
   const handleReset = () => {
-    setFile(null);
+    setFiles([]);
     setFileData(null);
+    setDocumentId(null);
     setResult(null);
+    setIsFromCache(false);
+    resultsRef.current = {};
+    setRestoredMessages(undefined);
     setError(null);
   };
 
+  const handleShowHistory = () => {
+    handleReset();
+    setShowGlossary(false);
+    setShowHistory(true);
+  };
+
+  const handleShowGlossary = () => {
+    setShowGlossary(true);
+    window.scrollTo({ top: 0 });
+  };
+
   return (
     <div className="min-h-screen font-sans text-slate-800 selection:bg-calm-200">
       
@@ -260,21 +430,61 @@ const App: React.FC = () => {
             <span className="text-2xl font-serif font-bold text-slate-800 tracking-tight">{t.appTitle}</span>
           </div>
           
-          <button
-             onClick={toggleLanguage}
-             aria-label={language === 'en' ? "Switch to Spanish" : "Cambiar a Inglés"}
-             className="flex items-center gap-2 bg-white/80 border border-calm-200 hover:border-calm-400 text-slate-600 hover:text-calm-700 text-sm font-medium rounded-full px-4 py-2 shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-calm-500"
-           >
-             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
-             {language === 'en' ? 'Español' : 'English'}
-           </button>
+          <div className="flex items-center gap-2">
+            <button
+               onClick={handleShowGlossary}
+               aria-label={t.glossaryNav}
+               aria-pressed={showGlossary}
+               className="flex items-center gap-2 bg-white/80 border border-calm-200 hover:border-calm-400 text-slate-600 hover:text-calm-700 text-sm font-medium rounded-full px-4 py-2 shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-calm-500"
+             >
+               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+               <span className="hidden sm:inline">{t.glossaryNav}</span>
+             </button>
+            <button
+               onClick={handleShowHistory}
+               aria-label={t.historyTitle}
+               className="flex items-center gap-2 bg-white/80 border border-calm-200 hover:border-calm-400 text-slate-600 hover:text-calm-700 text-sm font-medium rounded-full px-4 py-2 shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-calm-500"
+             >
+               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+               <span className="hidden sm:inline">{t.historyTitle}</span>
+             </button>
+            <label className="flex items-center gap-2 bg-white/80 border border-calm-200 hover:border-calm-400 text-slate-600 hover:text-calm-700 text-sm font-medium rounded-full ps-4 pe-2 py-2 shadow-sm transition-all focus-within:ring-2 focus-within:ring-calm-500">
+               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+               <span className="sr-only">{t.languageLabel}</span>
+               <select
+                 value={language}
+                 onChange={(e) => changeLanguage(e.target.value as Language)}
+                 disabled={isAnalyzing || isTranslating}
+                 className="bg-transparent focus:outline-none cursor-pointer disabled:cursor-wait"
+               >
+                 {LANGUAGES.map(info => (
+                   <option key={info.code} value={info.code} lang={info.code}>{info.nativeName}</option>
+                 ))}
+               </select>
+             </label>
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8 md:py-12" role="main">
         
+        {/* Built-in glossary; the rest stays mounted underneath so an open analysis carries on, but a live call ends */}
+        {showGlossary && (
+          <GlossaryView language={language} onClose={() => setShowGlossary(false)} />
+        )}
+
+        <div hidden={showGlossary}>
+        {/* Saved documents */}
+        {showHistory && (
+          <HistoryView
+            language={language}
+            onOpen={openHistoryEntry}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+
         {/* Intro Text (Only show if no result) */}
-        {!result && (
+        {!result && !showHistory && (
           <div className="text-center mb-10 max-w-3xl mx-auto animate-fade-in bg-white/40 p-8 rounded-3xl backdrop-blur-sm shadow-sm border border-white/40">
             <span className="inline-block py-1 px-3 rounded-full bg-calm-100 text-calm-800 text-xs font-bold uppercase tracking-wider mb-4 shadow-sm">
               {t.subtitle}
@@ -289,17 +499,41 @@ const App: React.FC = () => {
         )}
 
         {/* Result View */}
-        {result && fileData && (
+        {result && (isTranslating || isAnalyzing || error) && (
+          <p
+            role="status"
+            className={`max-w-3xl mx-auto mb-6 text-sm font-medium text-center rounded-xl py-2 px-4 border ${error ? 'bg-red-50 text-red-600 border-red-100' : 'bg-calm-50 text-calm-800 border-calm-100 animate-pulse'}`}
+          >
+            {error || (isAnalyzing ? t.reanalyzing : t.translating)}
+          </p>
+        )}
+        {result && isFromCache && !isAnalyzing && !isTranslating && !error && (
+          <div className="max-w-3xl mx-auto mb-6 flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-sm text-slate-600 bg-white/70 border border-slate-100 rounded-xl py-2 px-4 shadow-sm">
+            <span>{t.cachedResultNotice}</span>
+            <button
+              onClick={handleReanalyze}
+              className="font-semibold text-calm-700 hover:text-calm-800 underline decoration-calm-200 underline-offset-2 focus:outline-none focus:ring-2 focus:ring-calm-500 rounded"
+            >
+              {t.reanalyze}
+            </button>
+          </div>
+        )}
+        {result && fileData && documentId && (
           <AnalysisView 
+            key={documentId}
             result={result} 
             onReset={handleReset} 
             fileData={fileData}
+            documentId={documentId}
             language={language}
+            initialMessages={restoredMessages}
+            onOpenDocument={openHistoryDocument}
+            isHidden={showGlossary}
           />
         )}
 
         {/* Upload View */}
-        {!result && (
+        {!result && !showHistory && (
           <div className="max-w-xl mx-auto animate-slide-up">
             <div 
               className={`
@@ -309,14 +543,14 @@ const App: React.FC = () => {
                   ? 'border-calm-300 bg-white/90 cursor-wait' 
                   : error 
                     ? 'border-red-300 bg-red-50/50 hover:bg-red-50/70' 
-                    : file 
+                    : files.length > 0 
                       ? 'border-green-400 bg-green-50/40 hover:bg-green-50/60 ring-4 ring-green-50' 
                       : 'border-calm-200 hover:border-calm-400 hover:bg-white/90 bg-white/70 backdrop-blur-md focus:border-calm-500 focus:ring-4 focus:ring-calm-200'
                 }
               `}
               role="button"
               tabIndex={0}
-              aria-label="Upload document area"
+              aria-label={t.uploadAreaLabel}
               onDragOver={handleDragOver}
               onDrop={handleDrop}
               onClick={() => !isAnalyzing && fileInputRef.current?.click()}
@@ -327,6 +561,7 @@ const App: React.FC = () => {
                 ref={fileInputRef} 
                 className="hidden" 
                 accept="application/pdf,image/png,image/jpeg,image/webp"
+                multiple
                 onChange={handleFileChange}
                 disabled={isAnalyzing}
                 tabIndex={-1}
@@ -357,59 +592,88 @@ const App: React.FC = () => {
                   </p>
                   <p className="text-calm-600 max-w-sm mx-auto leading-relaxed">{t.patientMessage}</p>
                 </div>
-              ) : file ? (
-                <div className="py-8 w-full">
-                  {/* File Icon with Status Badge */}
-                  <div className="relative inline-block mx-auto mb-4">
-                     <div className={`w-20 h-20 rounded-2xl flex items-center justify-center shadow-sm ${error ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`}>
-                        {file.type.includes('image') ? (
-                           <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-                        ) : (
-                           <svg className="w-10 h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
-                        )}
-                     </div>
-                     <div className={`absolute -top-2 -right-2 text-white rounded-full p-1 border-4 border-white shadow-md animate-fade-in ${error ? 'bg-red-500' : 'bg-green-500'}`}>
-                       {error ? (
-                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
-                       ) : (
-                         <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={3}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
-                       )}
-                     </div>
-                  </div>
-
-                  <p className="font-semibold text-lg text-slate-800 mb-1 truncate px-4 flex items-center justify-center gap-2">
-                    {file.name}
-                    <span className={error ? "text-red-600" : "text-green-600"} aria-label={error ? "Rejected" : "Accepted"}>
-                      {error ? (
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                      ) : (
-                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                      )}
-                    </span>
-                  </p>
-                  <p className="text-sm text-slate-500 mb-2">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+              ) : files.length > 0 ? (
+                <div className="py-6 w-full cursor-default" onClick={(e) => e.stopPropagation()}>
+                  <h3 className="text-xl font-bold text-slate-800 mb-1">
+                    {interpolate(t.packetTitle, { count: files.length })}
+                  </h3>
+                  <p className="text-sm text-slate-500 mb-5 px-4">{t.packetHint}</p>
+
+                  {/* Ordered page list */}
+                  <ol className="space-y-2 text-start max-w-md mx-auto">
+                    {files.map((page, idx) => (
+                      <li key={`${page.name}-${page.lastModified}-${idx}`} className="flex items-center gap-3 bg-white/80 border border-slate-200 rounded-xl px-3 py-2 shadow-sm animate-fade-in">
+                        <div className={`w-10 h-10 flex-shrink-0 rounded-lg flex items-center justify-center ${error ? 'bg-red-100 text-red-600' : 'bg-green-100 text-green-600'}`} aria-hidden="true">
+                          {page.type.includes('image') ? (
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                          ) : (
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-bold text-calm-700 uppercase tracking-wide">{interpolate(t.pageLabel, { n: idx + 1 })}</p>
+                          <p className="text-sm font-medium text-slate-800 truncate">{page.name}</p>
+                          <p className="text-xs text-slate-500">{(page.size / 1024 / 1024).toFixed(2)} MB</p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => movePage(idx, -1)}
+                            disabled={idx === 0}
+                            aria-label={t.movePageUp}
+                            title={t.movePageUp}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-calm-700 hover:bg-calm-50 disabled:opacity-30 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-calm-500"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" /></svg>
+                          </button>
+                          <button
+                            onClick={() => movePage(idx, 1)}
+                            disabled={idx === files.length - 1}
+                            aria-label={t.movePageDown}
+                            title={t.movePageDown}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-calm-700 hover:bg-calm-50 disabled:opacity-30 disabled:hover:bg-transparent focus:outline-none focus:ring-2 focus:ring-calm-500"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                          </button>
+                          <button
+                            onClick={() => removePage(idx)}
+                            aria-label={t.removePage}
+                            title={t.removePage}
+                            className="p-1.5 rounded-lg text-slate-500 hover:text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
 
                   {error && (
-                    <p className="text-red-600 font-bold text-sm mb-6 px-4 animate-fade-in bg-red-50 py-2 rounded-lg mx-4 border border-red-100">
+                    <p className="text-red-600 font-bold text-sm mt-4 px-4 animate-fade-in bg-red-50 py-2 rounded-lg mx-4 border border-red-100">
                       {error}
                     </p>
                   )}
                   
-                  <div className={`flex flex-col gap-3 max-w-xs mx-auto ${error ? 'mt-0' : 'mt-8'}`}>
+                  <div className="flex flex-col gap-3 max-w-xs mx-auto mt-6">
                     <button 
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleAnalyze();
-                      }}
+                      onClick={() => handleAnalyze()}
                       className="bg-calm-600 hover:bg-calm-700 text-white font-medium py-3.5 px-8 rounded-xl shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5 flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-calm-600"
                     >
                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.384-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" /></svg>
-                      {error ? "Try Again" : t.analyzeNow}
+                      {error ? t.tryAgain : t.analyzeNow}
                     </button>
+                    {files.length < MAX_PAGES && (
+                      <button
+                        onClick={() => (isMobile ? cameraInputRef : fileInputRef).current?.click()}
+                        className="bg-white border border-slate-200 hover:border-calm-400 hover:bg-calm-50 text-slate-700 font-medium py-3 px-6 rounded-xl transition-all shadow-sm flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-calm-500"
+                      >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+                        {t.addPage}
+                      </button>
+                    )}
                     <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setFile(null);
+                      onClick={() => {
+                        setFiles([]);
+                        setFileData(null);
                         setError(null);
                       }}
                       className="text-slate-500 hover:text-red-600 text-sm font-medium py-2 focus:outline-none focus:text-red-600"
@@ -431,7 +695,7 @@ const App: React.FC = () => {
                      )}
                   </div>
                   <h3 className={`text-xl font-bold mb-2 ${error ? 'text-red-700' : 'text-slate-800'}`}>
-                    {error ? "Oops!" : t.uploadTitle}
+                    {error ? t.errorTitle : t.uploadTitle}
                   </h3>
                   <p className={`${error ? 'text-red-600 font-medium' : 'text-slate-600'} mb-8`}>
                     {error ? error : t.uploadSubtitle}
@@ -463,7 +727,7 @@ const App: React.FC = () => {
         )}
 
         {/* Mission Statement */}
-        {!result && (
+        {!result && !showHistory && (
           <article className="mt-20 max-w-3xl mx-auto text-center px-6 py-12 bg-white/80 backdrop-blur-md rounded-3xl border border-white/50 shadow-sm relative overflow-hidden" aria-labelledby="mission-heading">
              <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-calm-300 to-sand-300" aria-hidden="true"></div>
              <h2 id="mission-heading" className="text-2xl font-bold text-slate-800 mb-6 tracking-tight">{t.missionTitle}</h2>
@@ -476,7 +740,7 @@ const App: React.FC = () => {
         )}
 
         {/* FAQ Section */}
-        {!result && (
+        {!result && !showHistory && (
           <section className="mt-16 max-w-4xl mx-auto px-4" aria-labelledby="faq-heading">
             <h2 id="faq-heading" className="text-2xl font-bold text-slate-800 mb-8 text-center">{t.faqTitle}</h2>
             <div className="grid gap-6 md:grid-cols-2">
@@ -507,6 +771,7 @@ const App: React.FC = () => {
             </div>
           </section>
         )}
+        </div>
 
         {/* Trust Footer */}
         <footer className="mt-20 border-t border-slate-900/10 pt-8 text-center text-slate-600 text-sm font-medium" role="contentinfo">
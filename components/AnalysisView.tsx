@@ -1,27 +1,60 @@
 
-import React, { useState, useEffect, useRef, useCallback, Suspense } from 'react';
-import { AnalysisResult, Sentiment, ChatMessage, Language } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo, Suspense } from 'react';
+import { AnalysisResult, Sentiment, ChatMessage, Language, DocumentPage, CallTranscript, CallAction } from '../types';
 import LiveAudioChat from './LiveAudioChat';
 import { FormattedMessage } from './FormattedMessage';
 import Tooltip from './Tooltip';
-import { createDocumentChat } from '../services/geminiService';
-import { Chat, GenerateContentResponse } from "@google/genai";
-import { translations } from '../locales';
+import CaseDetailsCard from './CaseDetailsCard';
+import CaseTimeline from './CaseTimeline';
+import ReadAloudButton, { SpokenText } from './ReadAloudButton';
+import CallTranscriptCard from './CallTranscriptCard';
+import GlossaryText from './GlossaryText';
+import { getAIProvider, ChatSource, DocumentChat, LiveToolCall, LiveToolResult } from '../services/aiProvider';
+import { sortDeadlines, daysUntil, getDeadlineStatus, parseDeadlineDate } from '../services/deadlineService';
+import { downloadCalendar, downloadDeadlineReminder, getExportableDeadlines } from '../services/calendarService';
+import { printSummary, downloadSummaryPdf } from '../services/summaryExportService';
+import { DocumentProgress, ProgressList, loadProgress, saveProgress, toggleIndex } from '../services/progressService';
+import { updateHistoryEntry, toChatHistory, listHistory } from '../services/historyService';
+import { buildCaseTimelines, getCaseKey, CaseTimeline as CaseTimelineData } from '../services/caseTimelineService';
+import { translations, interpolate } from '../locales';
+import { ReadAloudPosition, toSpeakableText } from '../services/readAloudService';
+import { addCallAction, addTranscriptText, createCallTranscript, endCall, markInterrupted } from '../services/callTranscriptService';
+import { VoiceAction, findFormNumber, getUscisFormUrl, parseVoiceAction } from '../services/voiceActionService';
+import { createGlossaryMatcher, mergeWithDictionary } from '../services/glossaryService';
+
+// Close a call's transcript; a call where nothing was said is dropped from the conversation
+const finishCall = (messages: ChatMessage[], callId: string): ChatMessage[] =>
+  messages.flatMap(msg => {
+    if (msg.call?.id !== callId) return [msg];
+    const call = endCall(msg.call);
+    return call.turns.length > 0 ? [{ ...msg, call }] : [];
+  });
+
+// How long something the voice assistant pointed at stays highlighted
+const SPOTLIGHT_MS = 4000;
 
 // Lazy load Confetti to improve initial render performance
 const Confetti = React.lazy(() => import('./Confetti'));
+// Only needed once the user opens the document
+const DocumentViewer = React.lazy(() => import('./DocumentViewer'));
+
+const isDesktopLayout = () => window.matchMedia('(min-width: 1024px)').matches;
 
 interface AnalysisViewProps {
   result: AnalysisResult;
   onReset: () => void;
-  fileData: {
-    base64: string;
-    mimeType: string;
-  };
+  fileData: DocumentPage[];
+  documentId: string;
   language: Language;
+  // Saved transcript when reopening a document from history
+  initialMessages?: ChatMessage[];
+  // Switch to another saved letter from the same case
+  onOpenDocument?: (documentId: string) => void;
+  // Another page covers the analysis, so a live call's controls are out of sight
+  isHidden?: boolean;
 }
 
-const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData, language }) => {
+const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData, documentId, language, initialMessages, onOpenDocument, isHidden }) => {
   const t = translations[language];
 
   // Case-insensitive check to be safe
@@ -29,30 +62,74 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
   const isNegative = result.sentiment?.toUpperCase().includes('NEGATIVE');
   
   // Chat State
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chatSession, setChatSession] = useState<DocumentChat | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages || []);
+  // Latest transcript for re-seeding a chat without re-running the init effect on every message
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
   const [input, setInput] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [isLiveMode, setIsLiveMode] = useState(false); 
+  // The call whose transcript live speech goes into
+  const activeCallIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Aborts the reply that is currently streaming in
+  const replyAbortRef = useRef<AbortController | null>(null);
+
+  // Summary export
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [exportError, setExportError] = useState(false);
+
+  // Other saved letters with the same receipt number
+  const [timeline, setTimeline] = useState<CaseTimelineData | null>(null);
+
+  // The section being read aloud and where in it, for highlighting
+  const [readingPosition, setReadingPosition] = useState<(ReadAloudPosition & { section: string }) | null>(null);
+
+  // Checklist State (persisted per document)
+  const [progress, setProgress] = useState<DocumentProgress>(() => loadProgress(documentId));
+
+  // The element the voice assistant last acted on; `at` lets the same one be pointed at twice
+  const [spotlight, setSpotlight] = useState<{ id: string; at: number } | null>(null);
+
+  // The uploaded document in place of the chat (desktop) or the summary (mobile); `documentFocus` asks it to jump to a page
+  const [showDocument, setShowDocument] = useState(false);
+  const [documentFocus, setDocumentFocus] = useState<{ page: number } | null>(null);
+  const documentPaneRef = useRef<HTMLElement>(null);
+  // Page badges only help when there's more than one page to choose from; a PDF usually has several
+  const hasSeveralPages = fileData.length > 1 || fileData.some(page => page.mimeType === 'application/pdf');
   
   // Initialization Lock & tracking
   const chatInitializedRef = useRef(false);
   const currentLangRef = useRef(language);
   
+  // Vetted dictionary definitions win over the model's. Terms are explained where they appear, not only in the list at the bottom.
+  const glossaryTerms = useMemo(() => mergeWithDictionary(result, language), [result, language]);
+  const glossary = useMemo(() => createGlossaryMatcher(glossaryTerms, language), [glossaryTerms, language]);
+
+  // `page` is the 1-based file number the analysis cites
+  const openDocument = (page?: number) => {
+    if (page) setDocumentFocus({ page });
+    setShowDocument(true);
+    // On a phone the summary gives way to the document, which may be far above where the user is reading
+    if (!isDesktopLayout()) requestAnimationFrame(() => documentPaneRef.current?.scrollIntoView({ block: 'start' }));
+  };
+
+  const trackReading = (section: string) => (position: ReadAloudPosition | null) =>
+    setReadingPosition(prev => (position ? { section, ...position } : prev?.section === section ? null : prev));
+
+  // The sentence to highlight in one text of a section, or null when it isn't being read
+  const sentenceIn = (section: string, segment = 0) =>
+    readingPosition?.section === section && readingPosition.segment === segment ? readingPosition.sentence : null;
+
   // Helper to detect USCIS forms and create links
   const renderDocumentLink = (docName: string) => {
-    // Regex to find patterns like "I-130", "N-400", "Form I-797", etc.
-    const formRegex = /\b([A-Z]{1,3}-\d{2,3}([A-Z]+)?)\b/g;
-    const match = docName.match(formRegex);
+    // Patterns like "I-130", "N-400", "Form I-797", etc.
+    const formNumber = findFormNumber(docName);
 
-    if (match) {
+    if (formNumber && docName.includes(formNumber)) {
         // If a form number is found, link to USCIS
-        const formNumber = match[0];
-        const url = `https://www.uscis.gov/${formNumber.toLowerCase()}`;
-        
-        // Split text to insert the link
-        const parts = docName.split(formRegex);
+        const url = getUscisFormUrl(formNumber);
         
         return (
             <span className="leading-snug">
@@ -139,35 +216,122 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
     currentLangRef.current = language;
 
     const initChat = async () => {
-      setMessages([{
-        role: 'model',
-        text: t.chatWaiting
-      }]);
-
-      try {
-        const chat = await createDocumentChat(fileData.base64, fileData.mimeType, language);
-        setChatSession(chat);
+      // Continue an earlier conversation (restored from history, or before a language switch) instead of starting over
+      const history = toChatHistory(messagesRef.current);
+      if (history.length === 0) {
         setMessages([{
           role: 'model',
-          text: t.chatReady.replace('{docType}', result.documentType)
+          text: t.chatWaiting
         }]);
+      }
+
+      try {
+        const chat = await getAIProvider().createDocumentChat(fileData, language, history);
+        setChatSession(chat);
+        if (history.length === 0) {
+          setMessages([{
+            role: 'model',
+            text: interpolate(t.chatReady, { docType: result.documentType })
+          }]);
+        }
       } catch (e) {
         console.error("Failed to init chat", e);
-        setMessages([{
-          role: 'model',
-          text: t.chatError,
-          isError: true
-        }]);
+        const chatError: ChatMessage = { role: 'model', text: t.chatError, isError: true };
+        setMessages(prev => (history.length === 0 ? [chatError] : [...prev, chatError]));
       }
     };
     initChat();
   }, [fileData, result.documentType, language, t]);
 
+  // The current document is saved before this view shows, so it is always part of its own timeline
+  useEffect(() => {
+    const caseKey = getCaseKey(result);
+    if (!caseKey) {
+      setTimeline(null);
+      return;
+    }
+    let isCurrent = true;
+    listHistory().then(entries => {
+      if (!isCurrent) return;
+      setTimeline(buildCaseTimelines(entries, language).find(c => c.receiptNumber === caseKey) || null);
+    });
+    return () => { isCurrent = false; };
+  }, [result, language, documentId]);
+
+  // Reload checklist progress when a different document is shown
+  useEffect(() => {
+    setProgress(loadProgress(documentId));
+  }, [documentId]);
+
+  const updateProgress = (update: (prev: DocumentProgress) => DocumentProgress) => {
+    setProgress(prev => {
+      const changed = update(prev);
+      if (changed === prev) return prev;
+      const next = { ...changed, updatedAt: Date.now() };
+      saveProgress(documentId, next);
+      updateHistoryEntry(documentId, { progress: next });
+      return next;
+    });
+  };
+
+  const toggleProgress = (list: ProgressList, index: number) =>
+    updateProgress(prev => ({ ...prev, [list]: toggleIndex(prev[list], index) }));
+
+  // Tick or untick regardless of the current state (the voice assistant says which it wants)
+  const setProgressItem = (list: ProgressList, index: number, isOn: boolean) =>
+    updateProgress(prev => (prev[list].includes(index) === isOn ? prev : { ...prev, [list]: toggleIndex(prev[list], index) }));
+
+  // Index into result.deadlines, which the reminder list refers to
+  const addReminder = (index: number) => {
+    setProgressItem('remindedDeadlines', index, true);
+    downloadDeadlineReminder(result, result.deadlines[index], language);
+  };
+
+  // Scroll to what the voice assistant acted on and highlight it for a moment
+  useEffect(() => {
+    if (!spotlight) return;
+    document.getElementById(spotlight.id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setSpotlight(null), SPOTLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [spotlight]);
+
+  const pointAt = (id: string) => setSpotlight({ id, at: Date.now() });
+  const spotlightClass = (id: string) =>
+    spotlight?.id === id ? 'ring-2 ring-amber-400 ring-offset-2 bg-amber-50' : '';
+
   // Scroll to bottom of chat
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Save the conversation once a reply or call has finished, so a reload can pick it up again
+  useEffect(() => {
+    if (messages.some(msg => msg.isStreaming || (msg.call && !msg.call.endedAt))) return;
+    if (!messages.some(msg => msg.role === 'user' || msg.call)) return;
+    updateHistoryEntry(documentId, { messages });
+  }, [messages, documentId]);
+
+  // Leaving in the middle of a call still keeps what was said
+  useEffect(() => () => {
+    if (!activeCallIdRef.current) return;
+    const callId = activeCallIdRef.current;
+    activeCallIdRef.current = null;
+    const saved = finishCall(messagesRef.current, callId);
+    if (saved.some(msg => msg.call)) updateHistoryEntry(documentId, { messages: saved });
+  }, [documentId]);
+
+  // Don't keep streaming into a view that is gone
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
+
+  // Only one reply streams at a time, so the flag identifies the message to update
+  const updateStreamingMessage = (update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => (msg.isStreaming ? { ...msg, ...update } : msg)));
+  };
+
+  const handleStopReply = () => {
+    replyAbortRef.current?.abort();
+  };
+
   const handleSendMessage = async (textOverride?: string) => {
     const textToSend = textOverride || input;
     if (!textToSend.trim() || !chatSession || isSending) return;
@@ -177,60 +341,158 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
     setInput('');
     setIsSending(true);
 
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    setMessages(prev => [...prev, { role: 'model', text: '', isStreaming: true }]);
+
+    let text = '';
+    let finishReason: string | undefined;
+    let replySources: ChatSource[] = [];
+
     try {
-      const response: GenerateContentResponse = await chatSession.sendMessage({ message: textToSend });
-      
+      for await (const chunk of chatSession.sendMessageStream(textToSend, controller.signal)) {
+        if (controller.signal.aborted) break;
+        text += chunk.text;
+        if (chunk.finishReason) finishReason = chunk.finishReason;
+        if (chunk.sources?.length) replySources = chunk.sources;
+        if (chunk.text) updateStreamingMessage({ text });
+      }
+
+      const sources = replySources.map(source => ({
+        title: source.title || t.verifiedSources.replace(':', ''),
+        uri: source.uri
+      }));
+
+      if (controller.signal.aborted) {
+        // Keep whatever arrived so the user can still read it
+        updateStreamingMessage({ text, sources, isStreaming: false, isStopped: true });
+        return;
+      }
+
       let aiText = "";
-      const candidate = response.candidates?.[0];
       
-      if (response.text) {
-          aiText = response.text;
-      } else if (candidate) {
-          if (candidate.finishReason === 'SAFETY') {
-              aiText = "I cannot answer that because it flagged a safety filter. This sometimes happens with legal documents mentioning penalties. Please try asking in a simpler way.";
-          } else if (candidate.finishReason === 'RECITATION') {
-               aiText = "I cannot quote that text directly due to copyright limits. I can summarize it instead.";
+      if (text) {
+          aiText = text;
+      } else if (finishReason) {
+          if (finishReason === 'SAFETY') {
+              aiText = t.chatSafetyBlocked;
+          } else if (finishReason === 'RECITATION') {
+               aiText = t.chatRecitationBlocked;
           } else {
-              aiText = "I received a response but couldn't understand it (Empty Text). Please try again.";
+              aiText = t.chatEmptyReply;
           }
       } else {
-          aiText = "I'm sorry, I couldn't understand that completely (No Candidate).";
+          aiText = t.chatNoReply;
       }
 
-      const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      const sources: { title: string; uri: string }[] = [];
-      
-      if (groundingChunks) {
-        groundingChunks.forEach(chunk => {
-          if (chunk.web) {
-            sources.push({ 
-              title: chunk.web.title || t.verifiedSources.replace(':', ''), 
-              uri: chunk.web.uri || "#" 
-            });
-          }
-        });
-      }
-
-      setMessages(prev => [...prev, { role: 'model', text: aiText, sources }]);
+      updateStreamingMessage({ text: aiText, sources, isStreaming: false });
     } catch (err) {
-      setMessages(prev => [...prev, { role: 'model', text: t.chatConnectError, isError: true }]);
+      // A reply cut off mid-stream keeps its text; the error shows up as its own message
+      setMessages(prev => [
+        ...prev
+          .filter(msg => !(msg.isStreaming && !msg.text))
+          .map(msg => (msg.isStreaming ? { ...msg, isStreaming: false, isStopped: true } : msg)),
+        { role: 'model', text: t.chatConnectError, isError: true },
+      ]);
     } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
       setIsSending(false);
     }
   };
 
+  // Each call is one entry in the conversation; live speech updates its transcript
+  const startLiveCall = () => {
+    const call = createCallTranscript(language);
+    activeCallIdRef.current = call.id;
+    setMessages(prev => [...prev, { role: 'model', text: '', call }]);
+    setIsLiveMode(true);
+  };
+
+  const endLiveCall = () => {
+    const callId = activeCallIdRef.current;
+    activeCallIdRef.current = null;
+    setIsLiveMode(false);
+    if (callId) setMessages(prev => finishCall(prev, callId));
+  };
+
+  // Don't leave the microphone on with no way to hang up
+  useEffect(() => {
+    if (isHidden && activeCallIdRef.current) endLiveCall();
+  }, [isHidden]);
+
   // Wrapped in useCallback to ensure stability across renders
+  const updateActiveCall = useCallback((update: (call: CallTranscript) => CallTranscript) => {
+    const callId = activeCallIdRef.current;
+    if (!callId) return;
+    setMessages(prev => prev.map(msg => (msg.call?.id === callId ? { ...msg, call: update(msg.call) } : msg)));
+  }, []);
+
   const handleLiveTranscript = useCallback((text: string, role: 'user' | 'model') => {
-    setMessages(prev => {
-        const lastMsg = prev[prev.length - 1];
-        // If the last message matches the role of the incoming transcript chunk, append to it
-        if (lastMsg && lastMsg.role === role && !lastMsg.isError) {
-             return [...prev.slice(0, -1), { ...lastMsg, text: lastMsg.text + text }];
-        } else {
-             return [...prev, { role: role, text: text }];
+    updateActiveCall(call => addTranscriptText(call, text, role));
+  }, [updateActiveCall]);
+
+  const handleLiveInterrupted = useCallback(() => {
+    updateActiveCall(call => markInterrupted(call));
+  }, [updateActiveCall]);
+
+  // The voice assistant acting on the page. Each action shows on the page and in the call transcript;
+  // the returned message tells the model what happened.
+  const handleToolCall = (call: LiveToolCall): LiveToolResult => {
+    let action: VoiceAction;
+    try {
+      action = parseVoiceAction(result, glossaryTerms, call);
+    } catch (e) {
+      return { ok: false, message: e instanceof Error ? e.message : String(e) };
+    }
+
+    let done: CallAction;
+    let message: string;
+    switch (action.kind) {
+      case 'check_document':
+      case 'uncheck_document': {
+        const doc = result.requiredDocuments[action.index];
+        const isChecked = action.kind === 'check_document';
+        setProgressItem('checkedDocuments', action.index, isChecked);
+        pointAt(`req-doc-item-${action.index}`);
+        done = { kind: action.kind, target: doc };
+        message = `${isChecked ? 'Ticked' : 'Unticked'} "${doc}" on the checklist.`;
+        break;
+      }
+      case 'highlight_term': {
+        const term = glossaryTerms[action.index].term;
+        pointAt(`glossary-term-${action.index}`);
+        done = { kind: action.kind, target: term };
+        message = `Showing "${term}" in the glossary.`;
+        break;
+      }
+      case 'add_reminder': {
+        const deadline = result.deadlines[action.index];
+        const days = daysUntil(deadline.date);
+        if (days === null || days < 0) {
+          return { ok: false, message: `The ${deadline.date} deadline has already passed, so there is nothing to remind about.` };
         }
-    });
-  }, []);
+        addReminder(action.index);
+        pointAt(`deadline-${action.index}`);
+        const date = parseDeadlineDate(deadline.date)!.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' });
+        done = { kind: action.kind, target: `${t.deadlineTypes[deadline.type] || deadline.type} · ${date}` };
+        message = `Added a calendar reminder for the ${deadline.date} deadline; the browser is downloading it.`;
+        break;
+      }
+      case 'open_form': {
+        // Browsers often block tabs that weren't opened by a click; the transcript keeps a link either way
+        const tab = window.open(action.url, '_blank');
+        if (tab) tab.opener = null;
+        done = { kind: action.kind, target: action.form, url: action.url };
+        message = tab
+          ? `Opened the USCIS page for Form ${action.form} in a new tab.`
+          : `The browser blocked the new tab. A link to Form ${action.form} is in the call transcript for the user to tap.`;
+        break;
+      }
+    }
+
+    updateActiveCall(current => addCallAction(current, done));
+    return { ok: true, message };
+  };
 
   const handleFeedback = (index: number, type: 'up' | 'down') => {
     setMessages(prev => prev.map((msg, i) => 
@@ -238,6 +500,42 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
     ));
   };
 
+  const actionItems = result.actionItems || [];
+  const completedCount = actionItems.filter((_, idx) => progress.completedTasks.includes(idx)).length;
+
+  const sortedDeadlines = sortDeadlines(result.deadlines || []);
+  const hasCalendarEvents = getExportableDeadlines(result).length > 0;
+
+  const getCountdownLabel = (days: number) => {
+    if (days === 0) return t.dueToday;
+    if (days === 1) return t.oneDayRemaining;
+    if (days < 0) return interpolate(t.daysPast, { days: Math.abs(days) });
+    return interpolate(t.daysRemaining, { days });
+  };
+
+  const handlePrint = async () => {
+    setExportError(false);
+    try {
+      await printSummary(result, language);
+    } catch (e) {
+      console.error("Print failed", e);
+      setExportError(true);
+    }
+  };
+
+  const handleDownloadPdf = async () => {
+    setExportError(false);
+    setIsExportingPdf(true);
+    try {
+      await downloadSummaryPdf(result, language);
+    } catch (e) {
+      console.error("PDF export failed", e);
+      setExportError(true);
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   const getSentimentLabel = (s: Sentiment) => {
     const sent = s ? s.toString().toUpperCase() : 'UNKNOWN';
     if (sent.includes('POSITIVE')) return t.goodNews;
@@ -254,8 +552,22 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
         </Suspense>
       )}
 
+      {/* Phones have room for one of the two: swap between the summary and the document */}
+      <div className="lg:hidden sticky top-20 z-20 flex p-1 bg-white/90 backdrop-blur-md rounded-2xl border border-slate-200 shadow-sm" role="group" aria-label={t.documentViewerTitle}>
+        {[{ value: false, label: t.viewSummary }, { value: true, label: t.viewDocument }].map(option => (
+          <button
+            key={option.label}
+            onClick={() => (option.value ? openDocument() : setShowDocument(false))}
+            aria-pressed={showDocument === option.value}
+            className={`flex-1 py-2 rounded-xl text-sm font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500 ${showDocument === option.value ? 'bg-calm-600 text-white shadow-sm' : 'text-slate-600 hover:text-calm-700'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
       {/* Left Column: Summary Analysis */}
-      <section className="lg:col-span-7 space-y-6" aria-label={t.docAnalysis}>
+      <section className={`lg:col-span-7 space-y-6 ${showDocument ? 'hidden lg:block' : ''}`} aria-label={t.docAnalysis}>
         {/* Header Card */}
         <div className="bg-white rounded-3xl shadow-sm border border-slate-100 overflow-hidden relative">
           <div className="p-8">
@@ -285,6 +597,14 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                       )}
                       <span className="font-bold text-sm whitespace-nowrap">{getSentimentLabel(result.sentiment)}</span>
                   </div>
+                  <button
+                    onClick={() => (showDocument ? setShowDocument(false) : openDocument())}
+                    aria-pressed={showDocument}
+                    className="hidden lg:inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-calm-200 bg-white text-calm-700 hover:bg-calm-50 text-sm font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                    {t.viewDocument}
+                  </button>
                </div>
             </div>
 
@@ -296,7 +616,37 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                <svg className="w-5 h-5 mt-0.5 flex-shrink-0 opacity-80" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                </svg>
-               <p className="font-medium leading-relaxed">{result.goodOrBadNews}</p>
+               <p className="font-medium leading-relaxed flex-1">
+                 <SpokenText text={result.goodOrBadNews} language={language} activeSentence={sentenceIn('news')} glossary={glossary} />
+               </p>
+               <ReadAloudButton
+                 segments={[result.goodOrBadNews]}
+                 language={language}
+                 label={getSentimentLabel(result.sentiment)}
+                 onPositionChange={trackReading('news')}
+               />
+            </div>
+
+            {/* Share the summary on paper, e.g. for a legal aid appointment */}
+            <div className="mt-4 flex flex-wrap items-center gap-2">
+              <button
+                onClick={handlePrint}
+                className="inline-flex items-center gap-2 text-sm font-medium text-slate-700 bg-white hover:bg-calm-50 border border-slate-200 hover:border-calm-300 rounded-xl px-3 py-1.5 transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
+                {t.printSummary}
+              </button>
+              <button
+                onClick={handleDownloadPdf}
+                disabled={isExportingPdf}
+                className="inline-flex items-center gap-2 text-sm font-medium text-slate-700 bg-white hover:bg-calm-50 border border-slate-200 hover:border-calm-300 rounded-xl px-3 py-1.5 transition-colors disabled:opacity-60 disabled:cursor-wait focus:outline-none focus:ring-2 focus:ring-calm-500"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                {isExportingPdf ? t.preparingPdf : t.downloadPdf}
+              </button>
+              {exportError && (
+                <p className="text-xs text-red-600 w-full" role="alert">{t.exportError}</p>
+              )}
             </div>
             
             <div className="mt-6 p-6 bg-slate-50 rounded-2xl border border-slate-100 relative group">
@@ -305,14 +655,248 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                   <span aria-hidden="true">🧐</span> {t.whatIsThis}
                   <Tooltip content={t.whatIsThisTooltip} />
                 </h2>
+                <ReadAloudButton
+                  segments={[result.whatIsThis]}
+                  language={language}
+                  label={t.whatIsThis}
+                  onPositionChange={trackReading('whatIsThis')}
+                />
                </div>
               <p className="text-slate-700 leading-relaxed text-lg whitespace-pre-line">
-                {result.whatIsThis}
+                <SpokenText text={result.whatIsThis} language={language} activeSentence={sentenceIn('whatIsThis')} glossary={glossary} />
               </p>
             </div>
           </div>
         </div>
 
+        <CaseDetailsCard metadata={result.caseMetadata} language={language} />
+
+        {timeline && (
+          <CaseTimeline
+            timeline={timeline}
+            language={language}
+            currentDocumentId={documentId}
+            onOpenDocument={onOpenDocument}
+          />
+        )}
+
+        {/* Action Items Checklist */}
+        <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <span aria-hidden="true">✅</span> {t.todoTitle}
+              <Tooltip content={t.todoTooltip} />
+            </h2>
+            {actionItems.length > 0 && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm font-medium text-slate-500" role="status">
+                  {interpolate(t.tasksProgress, { done: completedCount, total: actionItems.length })}
+                </span>
+                <ReadAloudButton
+                  segments={actionItems.flatMap(task => [task.title, task.details || ''])}
+                  language={language}
+                  label={t.todoTitle}
+                  onPositionChange={trackReading('tasks')}
+                />
+              </div>
+            )}
+          </div>
+
+          {actionItems.length > 0 ? (
+            <>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-5" aria-hidden="true">
+                <div
+                  className="h-full bg-green-500 rounded-full transition-all duration-500"
+                  style={{ width: `${(completedCount / actionItems.length) * 100}%` }}
+                />
+              </div>
+              <ol className="space-y-3">
+                {actionItems.map((task, idx) => {
+                  const isDone = progress.completedTasks.includes(idx);
+                  const dueDate = task.dueDate ? parseDeadlineDate(task.dueDate) : null;
+
+                  return (
+                    <li
+                      key={`task-${idx}`}
+                      className={`flex items-start gap-3 p-4 rounded-xl border transition-colors ${
+                        isDone ? 'bg-green-50/50 border-green-100' : 'bg-slate-50 border-slate-100'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        id={`task-${idx}`}
+                        checked={isDone}
+                        onChange={() => toggleProgress('completedTasks', idx)}
+                        className="mt-1 w-5 h-5 rounded border-slate-300 text-green-600 focus:ring-green-500 cursor-pointer flex-shrink-0"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <label
+                          htmlFor={`task-${idx}`}
+                          className={`font-bold cursor-pointer leading-snug block ${isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}
+                        >
+                          <SpokenText text={task.title} language={language} activeSentence={sentenceIn('tasks', idx * 2)} glossary={glossary} />
+                        </label>
+                        {task.details && (
+                          <p className={`text-sm leading-relaxed mt-1 ${isDone ? 'text-slate-400' : 'text-slate-600'}`}>
+                            <SpokenText text={task.details} language={language} activeSentence={sentenceIn('tasks', idx * 2 + 1)} glossary={glossary} />
+                          </p>
+                        )}
+                        {(dueDate || task.requiredDocument) && (
+                          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                            {dueDate && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded-md bg-orange-50 border border-orange-100 text-orange-800 font-bold">
+                                {t.due} {dueDate.toLocaleDateString(language, { year: 'numeric', month: 'short', day: 'numeric' })}
+                              </span>
+                            )}
+                            {task.requiredDocument && (
+                              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-white border border-slate-200 text-slate-600">
+                                <span aria-hidden="true">📎</span>
+                                <span className="font-medium">{t.taskNeeds}</span> {renderDocumentLink(task.requiredDocument)}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          ) : (
+            <p className="text-slate-500 italic text-sm">{t.noActionItems}</p>
+          )}
+        </article>
+
+        {/* Deadlines with countdown */}
+        {sortedDeadlines.length > 0 && (
+          <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                <span aria-hidden="true">📅</span> {t.deadlinesTitle}
+                <Tooltip content={t.deadlinesTooltip} />
+              </h2>
+              {hasCalendarEvents && (
+                <button
+                  onClick={() => downloadCalendar(result, language)}
+                  title={t.addToCalendarHint}
+                  className="inline-flex items-center gap-2 bg-calm-600 hover:bg-calm-700 text-white text-sm font-medium rounded-xl px-4 py-2 shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-calm-600"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+                  {t.addToCalendar}
+                </button>
+              )}
+            </div>
+            <ul className="space-y-3">
+              {sortedDeadlines.map((deadline, idx) => {
+                const date = parseDeadlineDate(deadline.date);
+                const days = daysUntil(deadline.date);
+                const status = days === null ? null : getDeadlineStatus(days);
+                // Reminders are stored by position in the analysis, not in this sorted list
+                const index = result.deadlines.indexOf(deadline);
+                const isReminded = progress.remindedDeadlines.includes(index);
+
+                return (
+                  <li
+                    key={`deadline-${idx}`}
+                    id={`deadline-${index}`}
+                    className={`p-4 rounded-xl border flex flex-col sm:flex-row sm:items-center gap-3 transition-all ${
+                      status === 'past' ? 'bg-slate-50 border-slate-200 opacity-80' :
+                      status === 'urgent' ? 'bg-orange-50 border-orange-200' :
+                      'bg-slate-50 border-slate-100'
+                    } ${spotlightClass(`deadline-${index}`)}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-1">
+                        {t.deadlineTypes[deadline.type] || deadline.type}
+                      </p>
+                      <p className="font-bold text-slate-900">
+                        {date
+                          ? date.toLocaleDateString(language, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+                          : t.deadlineUnknownDate}
+                      </p>
+                      {deadline.sourceText && (
+                        <p className="text-xs text-slate-500 italic mt-1 leading-snug">
+                          "{deadline.sourceText}"
+                          {hasSeveralPages && deadline.page && (
+                            <button
+                              onClick={() => openDocument(deadline.page)}
+                              aria-label={interpolate(t.showPage, { n: deadline.page })}
+                              className="not-italic font-bold text-calm-700 hover:text-calm-900 underline decoration-calm-200 underline-offset-2 ms-1 rounded focus:outline-none focus:ring-2 focus:ring-calm-500"
+                            >
+                              ({interpolate(t.pageLabel, { n: deadline.page })})
+                            </button>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap sm:flex-col sm:items-end gap-2 flex-shrink-0">
+                      {days !== null && (
+                        <span className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-bold whitespace-nowrap ${
+                          status === 'past' ? 'bg-slate-200 text-slate-600' :
+                          status === 'urgent' ? 'bg-orange-500 text-white' :
+                          'bg-calm-100 text-calm-800'
+                        }`}>
+                          {getCountdownLabel(days)}
+                        </span>
+                      )}
+                      {status === 'past' && (
+                        <span className="text-xs font-bold text-slate-500 uppercase">{t.deadlinePast}</span>
+                      )}
+                      {status === 'urgent' && (
+                        <span className="text-xs font-bold text-orange-700 uppercase" role="alert">{t.deadlineSoon}</span>
+                      )}
+                      {deadline.isEstimated && (
+                        <span className="text-xs font-medium text-slate-500 inline-flex items-center">
+                          {t.deadlineEstimated}
+                          <Tooltip content={t.deadlineEstimatedTooltip} />
+                        </span>
+                      )}
+                      {days !== null && days >= 0 && (
+                        <button
+                          onClick={() => addReminder(index)}
+                          title={t.remindMeHint}
+                          className={`inline-flex items-center gap-1 text-xs font-medium rounded-lg px-2 py-1 border transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500 ${
+                            isReminded ? 'bg-calm-600 border-calm-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-calm-300 hover:bg-calm-50'
+                          }`}
+                        >
+                          <svg className="w-3.5 h-3.5" fill={isReminded ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+                          {isReminded ? t.reminderAdded : t.remindMe}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </article>
+        )}
+
+        {/* Key Findings with page references */}
+        {result.keyFindings && result.keyFindings.length > 0 && (
+          <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+            <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
+              <span aria-hidden="true">🔎</span> {t.keyFindings}
+              <Tooltip content={t.keyFindingsTooltip} />
+            </h2>
+            <ul className="space-y-3">
+              {result.keyFindings.map((item, idx) => (
+                <li key={`finding-${idx}`} className="flex items-start gap-3 text-slate-700 text-sm">
+                  {hasSeveralPages && (
+                    <button
+                      onClick={() => openDocument(item.page)}
+                      aria-label={interpolate(t.showPage, { n: item.page })}
+                      className="flex-shrink-0 inline-flex items-center px-2 py-0.5 rounded-md bg-calm-50 border border-calm-100 text-calm-700 hover:bg-calm-100 text-xs font-bold whitespace-nowrap transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+                    >
+                      {interpolate(t.pageLabel, { n: item.page })}
+                    </button>
+                  )}
+                  <span className="leading-snug">{item.finding}</span>
+                </li>
+              ))}
+            </ul>
+          </article>
+        )}
+
         {/* Required Documents (Full Width) */}
         <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
             <h2 className="text-lg font-bold text-slate-800 mb-4 flex items-center gap-2">
@@ -325,8 +909,14 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                 {result.requiredDocuments && result.requiredDocuments.length > 0 ? (
                     <ul className="space-y-3">
                         {result.requiredDocuments.map((doc, idx) => (
-                            <li key={`req-${idx}`} className="flex items-start gap-3 text-slate-600 text-sm">
-                                <input type="checkbox" id={`req-doc-${idx}`} className="mt-1 w-4 h-4 rounded border-slate-300 text-calm-600 focus:ring-calm-500 cursor-pointer" />
+                            <li key={`req-${idx}`} id={`req-doc-item-${idx}`} className={`flex items-start gap-3 text-slate-600 text-sm rounded-lg transition-all ${spotlightClass(`req-doc-item-${idx}`)}`}>
+                                <input
+                                  type="checkbox"
+                                  id={`req-doc-${idx}`}
+                                  checked={progress.checkedDocuments.includes(idx)}
+                                  onChange={() => toggleProgress('checkedDocuments', idx)}
+                                  className="mt-1 w-4 h-4 rounded border-slate-300 text-calm-600 focus:ring-calm-500 cursor-pointer"
+                                />
                                 <label htmlFor={`req-doc-${idx}`} className="leading-snug cursor-pointer">
                                   {renderDocumentLink(doc)}
                                 </label>
@@ -334,7 +924,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                         ))}
                     </ul>
                 ) : (
-                    <p className="text-slate-500 italic text-sm">No specific documents listed in the letter.</p>
+                    <p className="text-slate-500 italic text-sm">{t.noRequiredDocs}</p>
                 )}
 
                 {/* Supplemental Checklist */}
@@ -344,7 +934,13 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                      <ul className="space-y-3">
                         {t.supplementalDocs.map((doc, idx) => (
                             <li key={`sup-${idx}`} className="flex items-start gap-3 text-slate-600 text-sm opacity-90 hover:opacity-100 transition-opacity">
-                                <input type="checkbox" id={`sup-doc-${idx}`} className="mt-1 w-4 h-4 rounded border-slate-300 text-slate-400 focus:ring-slate-400 cursor-pointer" />
+                                <input
+                                  type="checkbox"
+                                  id={`sup-doc-${idx}`}
+                                  checked={progress.checkedSupplementalDocuments.includes(idx)}
+                                  onChange={() => toggleProgress('checkedSupplementalDocuments', idx)}
+                                  className="mt-1 w-4 h-4 rounded border-slate-300 text-slate-400 focus:ring-slate-400 cursor-pointer"
+                                />
                                 <label htmlFor={`sup-doc-${idx}`} className="leading-snug cursor-pointer select-none">{doc}</label>
                             </li>
                         ))}
@@ -360,7 +956,7 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
               <span aria-hidden="true">💡</span> {t.example}
             </h2>
              <p className="text-slate-600 italic">
-              "{result.exampleOfRequirement || "No specific examples required."}"
+              "{result.exampleOfRequirement ? <GlossaryText text={result.exampleOfRequirement} glossary={glossary} /> : t.noExample}"
             </p>
         </div>
 
@@ -370,10 +966,29 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
             <span aria-hidden="true">📖</span> {t.simpleDefinitions}
           </h2>
           <dl className="grid gap-3 sm:grid-cols-2">
-            {result.simplifiedTerms.map((item, idx) => (
-              <div key={idx} className="bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-calm-200 transition-colors">
-                <dt className="block font-semibold text-calm-800 mb-1 text-sm">{item.term}</dt>
-                <dd className="text-sm text-slate-600 leading-snug">{item.definition}</dd>
+            {glossaryTerms.map((item, idx) => (
+              <div key={idx} id={`glossary-term-${idx}`} className={`bg-slate-50 p-4 rounded-xl border border-slate-100 hover:border-calm-200 transition-all ${spotlightClass(`glossary-term-${idx}`)}`}>
+                <dt className="flex items-start justify-between gap-2 font-semibold text-calm-800 mb-1 text-sm">
+                  <span>
+                    <SpokenText text={item.term} language={language} activeSentence={sentenceIn(`term-${idx}`)} />
+                    {item.verified && (
+                      <span title={t.glossaryVerifiedHint} className="ms-2 inline-flex items-center gap-0.5 align-middle text-[10px] font-bold uppercase tracking-wide text-emerald-700 bg-emerald-50 border border-emerald-100 rounded-full px-1.5 py-0.5">
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+                        {t.glossaryVerified}
+                        <span className="sr-only">: {t.glossaryVerifiedHint}</span>
+                      </span>
+                    )}
+                  </span>
+                  <ReadAloudButton
+                    segments={[item.term, item.definition]}
+                    language={language}
+                    label={item.term}
+                    onPositionChange={trackReading(`term-${idx}`)}
+                  />
+                </dt>
+                <dd className="text-sm text-slate-600 leading-snug">
+                  <SpokenText text={item.definition} language={language} activeSentence={sentenceIn(`term-${idx}`, 1)} />
+                </dd>
               </div>
             ))}
           </dl>
@@ -389,8 +1004,21 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
         </div>
       </section>
 
-      {/* Right Column: Chat Interface */}
-      <section className="lg:col-span-5 h-[600px] lg:h-[calc(100vh-140px)] lg:sticky lg:top-24 flex flex-col bg-white rounded-3xl shadow-lg border border-slate-200 overflow-hidden relative" aria-label={t.chatTitle}>
+      {/* Document pane: beside the summary on desktop, instead of it on phones */}
+      {showDocument && (
+        <section
+          ref={documentPaneRef}
+          className="lg:col-span-5 h-[75vh] lg:h-[calc(100vh-140px)] lg:sticky lg:top-24 scroll-mt-36 flex flex-col bg-white rounded-3xl shadow-lg border border-slate-200 overflow-hidden"
+          aria-label={t.documentViewerTitle}
+        >
+          <Suspense fallback={<p className="m-auto text-sm text-slate-500 animate-pulse" role="status">{t.viewerLoading}</p>}>
+            <DocumentViewer files={fileData} language={language} focus={documentFocus} onClose={() => setShowDocument(false)} />
+          </Suspense>
+        </section>
+      )}
+
+      {/* Right Column: Chat Interface (stays mounted behind the document so a call or reply carries on) */}
+      <section className={`${showDocument ? 'lg:hidden' : ''} lg:col-span-5 h-[600px] lg:h-[calc(100vh-140px)] lg:sticky lg:top-24 flex flex-col bg-white rounded-3xl shadow-lg border border-slate-200 overflow-hidden relative`} aria-label={t.chatTitle}>
           <>
             <div className="p-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
               <div className="flex items-center gap-3">
@@ -405,10 +1033,10 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
               
               {/* Live Voice Toggle */}
               <button 
-                onClick={() => setIsLiveMode(!isLiveMode)}
+                onClick={isLiveMode ? endLiveCall : startLiveCall}
                 className={`p-2 rounded-full transition-colors ${isLiveMode ? 'bg-red-100 text-red-600' : 'text-calm-600 hover:bg-calm-100'}`}
-                title={isLiveMode ? "End Voice Chat" : "Start Voice Chat"}
-                aria-label={isLiveMode ? "End Voice Chat" : "Start Voice Chat"}
+                title={isLiveMode ? t.endVoiceChat : t.startVoiceChat}
+                aria-label={isLiveMode ? t.endVoiceChat : t.startVoiceChat}
               >
                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
               </button>
@@ -416,7 +1044,9 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
 
             {/* Messages Area */}
             <div className={`flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50/30 ${isLiveMode ? 'pb-24' : ''}`} aria-live="polite" aria-atomic="false">
-              {messages.map((msg, i) => (
+              {messages.map((msg, i) => msg.call ? (
+                <CallTranscriptCard key={msg.call.id} call={msg.call} documentType={result.documentType} language={language} />
+              ) : (
                 <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                   <div className={`
                     max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed shadow-sm relative group
@@ -426,12 +1056,29 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                     ${msg.isError ? 'bg-red-50 text-red-600 border-red-100' : ''}
                   `}>
                     {msg.role === 'model' ? (
-                      <FormattedMessage text={msg.text} />
+                      msg.isStreaming && !msg.text ? (
+                        <div className="flex items-center gap-1 py-1" aria-label={t.typing}>
+                          <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0s' }} />
+                          <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0.15s' }} />
+                          <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0.3s' }} />
+                        </div>
+                      ) : readingPosition?.section === `chat-${i}` ? (
+                        // Plain text while it's read aloud, so the spoken sentence can be highlighted
+                        <p className="whitespace-pre-line">
+                          <SpokenText text={toSpeakableText(msg.text)} language={language} activeSentence={readingPosition.sentence} glossary={glossary} />
+                        </p>
+                      ) : (
+                        <FormattedMessage text={msg.text} glossary={msg.isError ? undefined : glossary} />
+                      )
                     ) : (
                       msg.text
                     )}
+
+                    {msg.isStopped && (
+                      <p className="mt-2 text-xs italic text-slate-400">{t.replyStopped}</p>
+                    )}
                     
-                    {msg.role === 'model' && !msg.isError && (
+                    {msg.role === 'model' && !msg.isError && !msg.isStreaming && (
                       <div className="mt-3 pt-2 border-t border-slate-50 flex items-center justify-between gap-3">
                          <div className="flex items-center gap-1">
                             <button 
@@ -447,13 +1094,19 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                               <svg className="w-4 h-4" fill={msg.feedback === 'down' ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14H5.236a2 2 0 01-1.789-2.894l3.5-7A2 2 0 018.736 3h4.018a2 2 0 01.485.06l3.76.94m-7 10v5a2 2 0 002 2h.095c.5 0 .905-.405.905-.905 0-.714.211-1.412.608-2.006L17 13V4m-7 10h2m5-10h2a2 2 0 012 2v6a2 2 0 01-2 2h-2.5" /></svg>
                             </button>
                          </div>
+                         <ReadAloudButton
+                           segments={[toSpeakableText(msg.text)]}
+                           language={language}
+                           label={t.chatTitle}
+                           onPositionChange={trackReading(`chat-${i}`)}
+                         />
                       </div>
                     )}
                   </div>
                   
                   {/* Sources */}
                   {msg.sources && msg.sources.length > 0 && (
-                    <div className="mt-2 ml-1 flex flex-wrap gap-2 max-w-[85%]">
+                    <div className="mt-2 ms-1 flex flex-wrap gap-2 max-w-[85%]">
                       <span className="text-xs font-semibold text-slate-400 w-full mb-0.5">{t.verifiedSources}</span>
                       {msg.sources.map((source, idx) => (
                         <a 
@@ -471,15 +1124,6 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                   )}
                 </div>
               ))}
-              {isSending && (
-                <div className="flex justify-start">
-                   <div className="bg-white rounded-2xl rounded-bl-none px-4 py-3 border border-slate-100 shadow-sm flex items-center gap-1" aria-label="Typing...">
-                     <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0s' }} />
-                     <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0.15s' }} />
-                     <div className="w-2 h-2 bg-calm-400 rounded-full animate-bounce" style={{ animationDelay: '0.3s' }} />
-                   </div>
-                </div>
-              )}
               <div ref={messagesEndRef} />
             </div>
 
@@ -499,14 +1143,25 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
                         className="flex-1 bg-white border border-slate-200 rounded-xl px-4 py-3 text-sm focus:ring-2 focus:ring-calm-500 focus:border-calm-500 outline-none transition-all shadow-sm"
                      />
 
-                     <button
-                        onClick={() => handleSendMessage()}
-                        disabled={!input.trim() || isSending}
-                        aria-label="Send message"
-                        className="bg-calm-600 hover:bg-calm-700 disabled:bg-slate-300 text-white rounded-xl px-4 flex items-center justify-center transition-all shadow-sm active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-calm-600"
-                     >
-                       <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-                     </button>
+                     {isSending ? (
+                       <button
+                          onClick={handleStopReply}
+                          aria-label={t.stopGenerating}
+                          title={t.stopGenerating}
+                          className="bg-slate-700 hover:bg-slate-800 text-white rounded-xl px-4 flex items-center justify-center transition-all shadow-sm active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-slate-700"
+                       >
+                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                       </button>
+                     ) : (
+                       <button
+                          onClick={() => handleSendMessage()}
+                          disabled={!input.trim()}
+                          aria-label={t.sendMessage}
+                          className="bg-calm-600 hover:bg-calm-700 disabled:bg-slate-300 text-white rounded-xl px-4 flex items-center justify-center transition-all shadow-sm active:scale-95 focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-calm-600"
+                       >
+                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+                       </button>
+                     )}
                    </div>
                 </div>
             )}
@@ -514,9 +1169,13 @@ const AnalysisView: React.FC<AnalysisViewProps> = ({ result, onReset, fileData,
             {/* Live Audio Bar */}
             {isLiveMode && (
               <LiveAudioChat 
-                systemContext={`You are analyzing a ${result.documentType}. Summary: ${result.whatIsThis}. ${t.liveSystemPrompt}. Keep answers short and concise.`}
-                onClose={() => setIsLiveMode(false)}
+                language={language}
+                result={result}
+                pages={fileData}
+                onClose={endLiveCall}
                 onTranscript={handleLiveTranscript}
+                onInterrupted={handleLiveInterrupted}
+                onToolCall={handleToolCall}
               />
             )}
           </>
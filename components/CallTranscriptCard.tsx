@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { CallTranscript, Language } from '../types';
+import { translations } from '../locales';
+import {
+  TranscriptFormat,
+  describeCallAction,
+  downloadTranscript,
+  formatCallDuration,
+  formatTurnOffset,
+  summarizeCall,
+} from '../services/callTranscriptService';
+
+interface CallTranscriptCardProps {
+  call: CallTranscript;
+  documentType: string;
+  language: Language;
+}
+
+// A live call in the chat: its turns as they come in, then a summary with the full transcript and export
+const CallTranscriptCard: React.FC<CallTranscriptCardProps> = ({ call, documentType, language }) => {
+  const t = translations[language];
+  const isActive = !call.endedAt;
+  const [now, setNow] = useState(Date.now());
+
+  // Keep the running time current during the call
+  useEffect(() => {
+    if (!isActive) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isActive]);
+
+  const summary = summarizeCall(call, now);
+  const startedAt = new Date(call.startedAt).toLocaleString(language, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  const turnList = (
+    <ol className="space-y-2 mt-3">
+      {call.turns.map((turn, idx) => turn.action ? (
+        <li key={idx} className="flex gap-2 text-sm">
+          <span className="font-mono text-xs text-slate-400 pt-0.5 flex-shrink-0">{formatTurnOffset(call, turn)}</span>
+          <p className="min-w-0 inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md bg-white border border-calm-100 text-calm-800 text-xs font-medium">
+            <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+            {turn.action.url ? (
+              <a href={turn.action.url} target="_blank" rel="noopener noreferrer" className="underline decoration-calm-300 underline-offset-2 hover:text-calm-900">
+                {describeCallAction(turn.action, language)}
+              </a>
+            ) : (
+              describeCallAction(turn.action, language)
+            )}
+          </p>
+        </li>
+      ) : (
+        <li key={idx} className={`flex gap-2 text-sm ${turn.role === 'user' ? 'text-slate-800' : 'text-slate-600'}`}>
+          <span className="font-mono text-xs text-slate-400 pt-0.5 flex-shrink-0">{formatTurnOffset(call, turn)}</span>
+          <p className="min-w-0">
+            <span className="font-semibold">{turn.role === 'user' ? t.callSpeakerYou : t.callSpeakerAssistant}: </span>
+            {turn.text}
+            {turn.interrupted && (
+              <span className="ms-1 text-xs italic text-amber-700">({t.callInterrupted})</span>
+            )}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+
+  const exportButton = (format: TranscriptFormat, label: string) => (
+    <button
+      type="button"
+      onClick={() => downloadTranscript(call, documentType, language, format)}
+      className="inline-flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-xs font-medium text-calm-700 bg-white border border-calm-200 hover:bg-calm-50 transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+    >
+      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="w-full rounded-2xl border border-calm-100 bg-calm-50/60 px-4 py-3 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${isActive ? 'bg-calm-500 text-white' : 'bg-white text-calm-600 border border-calm-100'}`} aria-hidden="true">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+          </span>
+          <div className="min-w-0">
+            <p className="font-bold text-sm text-slate-800">{isActive ? t.callInProgress : t.callSummary}</p>
+            <p className="text-xs text-slate-500 truncate">{t.callTranscriptTitle} · {startedAt}</p>
+          </div>
+        </div>
+        <span className="font-mono text-sm text-calm-800 flex-shrink-0" aria-label={`${t.callDuration}: ${formatCallDuration(summary.durationMs)}`}>
+          {formatCallDuration(summary.durationMs)}
+        </span>
+      </div>
+
+      {isActive ? (
+        call.turns.length > 0 && turnList
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 gap-2 mt-3 text-center">
+            <div className="bg-white rounded-lg py-1.5">
+              <dt className="text-xs text-slate-500">{t.callYourTurns}</dt>
+              <dd className="font-bold text-slate-800">{summary.userTurns}</dd>
+            </div>
+            <div className="bg-white rounded-lg py-1.5">
+              <dt className="text-xs text-slate-500">{t.callAnswers}</dt>
+              <dd className="font-bold text-slate-800">{summary.modelTurns}</dd>
+            </div>
+            <div className="bg-white rounded-lg py-1.5">
+              <dt className="text-xs text-slate-500">{t.callInterruptedCount}</dt>
+              <dd className="font-bold text-slate-800">{summary.interruptedTurns}</dd>
+            </div>
+            <div className="bg-white rounded-lg py-1.5">
+              <dt className="text-xs text-slate-500">{t.callActionsCount}</dt>
+              <dd className="font-bold text-slate-800">{summary.actions}</dd>
+            </div>
+          </dl>
+
+          <details className="mt-3 group">
+            <summary className="cursor-pointer text-xs font-semibold text-calm-700 hover:text-calm-900 select-none">
+              {t.showTranscript}
+            </summary>
+            {turnList}
+          </details>
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            {exportButton('text', t.exportTranscriptText)}
+            {exportButton('json', t.exportTranscriptJson)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CallTranscriptCard;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { CaseMetadata, Language } from '../types';
+import Tooltip from './Tooltip';
+import { translations } from '../locales';
+import { checkReceiptNumber, isValidANumber, formatANumber, hasCaseMetadata } from '../services/caseMetadataService';
+import { parseDeadlineDate } from '../services/deadlineService';
+
+interface CaseDetailsCardProps {
+  metadata?: CaseMetadata;
+  language: Language;
+}
+
+interface DetailRow {
+  key: string;
+  label: string;
+  value: string;
+  warning?: string;
+  isMono?: boolean;
+}
+
+const CaseDetailsCard: React.FC<CaseDetailsCardProps> = ({ metadata, language }) => {
+  const t = translations[language];
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  if (!metadata || !hasCaseMetadata(metadata)) return null;
+
+  const formatDate = (iso?: string) => {
+    if (!iso) return '';
+    const date = parseDeadlineDate(iso);
+    return date ? date.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' }) : iso;
+  };
+
+  const receipt = metadata.receiptNumber ? checkReceiptNumber(metadata.receiptNumber) : null;
+
+  const rows: DetailRow[] = [
+    {
+      key: 'receiptNumber',
+      label: t.receiptNumber,
+      value: receipt?.value || '',
+      warning: receipt && !receipt.isValid ? t.receiptNumberInvalid : undefined,
+      isMono: true,
+    },
+    {
+      key: 'aNumber',
+      label: t.aNumber,
+      value: metadata.aNumber ? (isValidANumber(metadata.aNumber) ? formatANumber(metadata.aNumber) : metadata.aNumber) : '',
+      warning: metadata.aNumber && !isValidANumber(metadata.aNumber) ? t.aNumberInvalid : undefined,
+      isMono: true,
+    },
+    { key: 'priorityDate', label: t.priorityDate, value: formatDate(metadata.priorityDate) },
+    { key: 'noticeDate', label: t.noticeDate, value: formatDate(metadata.noticeDate) },
+    // Fall back to the office implied by the receipt prefix when the letter doesn't name it
+    { key: 'serviceCenter', label: t.serviceCenter, value: metadata.serviceCenter || receipt?.center || '' },
+    { key: 'beneficiaryName', label: t.beneficiary, value: metadata.beneficiaryName || '' },
+    { key: 'petitionerName', label: t.petitioner, value: metadata.petitionerName || '' },
+  ].filter(row => row.value.trim().length > 0);
+
+  const copyText = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(current => (current === key ? null : current)), 2000);
+    } catch (e) {
+      console.error("Copy failed", e);
+    }
+  };
+
+  const allText = rows.map(row => `${row.label}: ${row.value}`).join('\n');
+
+  return (
+    <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <span aria-hidden="true">🗂️</span> {t.caseDetails}
+          <Tooltip content={t.caseDetailsTooltip} />
+        </h2>
+        <button
+          onClick={() => copyText('all', allText)}
+          className="text-sm font-medium text-calm-700 hover:text-calm-800 bg-calm-50 hover:bg-calm-100 border border-calm-100 rounded-xl px-3 py-1.5 transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+        >
+          {copiedKey === 'all' ? t.copied : t.copyAll}
+        </button>
+      </div>
+
+      <dl className="divide-y divide-slate-100">
+        {rows.map(row => (
+          <div key={row.key} className="py-3 flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <dt className="text-xs font-bold text-slate-500 uppercase tracking-wide">{row.label}</dt>
+              <dd className={`text-slate-900 font-semibold break-words ${row.isMono ? 'font-mono tracking-wide' : ''}`}>{row.value}</dd>
+              {row.warning && (
+                <p className="text-xs text-orange-700 mt-1 leading-snug" role="note">{row.warning}</p>
+              )}
+            </div>
+            <button
+              onClick={() => copyText(row.key, row.value)}
+              aria-label={`${t.copy} ${row.label}`}
+              title={t.copy}
+              className={`flex-shrink-0 p-2 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500 ${
+                copiedKey === row.key ? 'text-green-600 bg-green-50' : 'text-slate-400 hover:text-calm-700 hover:bg-calm-50'
+              }`}
+            >
+              {copiedKey === row.key ? (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+              ) : (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+              )}
+            </button>
+          </div>
+        ))}
+      </dl>
+    </article>
+  );
+};
+
+export default CaseDetailsCard;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Language } from '../types';
+import Tooltip from './Tooltip';
+import { translations } from '../locales';
+import { CaseTimeline as CaseTimelineData } from '../services/caseTimelineService';
+import { parseDeadlineDate } from '../services/deadlineService';
+
+interface CaseTimelineProps {
+  timeline: CaseTimelineData;
+  language: Language;
+  // Highlighted instead of offered as a link
+  currentDocumentId?: string;
+  onOpenDocument?: (documentId: string) => void;
+}
+
+const CaseTimeline: React.FC<CaseTimelineProps> = ({ timeline, language, currentDocumentId, onOpenDocument }) => {
+  const t = translations[language];
+
+  const formatDate = (iso?: string) => {
+    const date = iso ? parseDeadlineDate(iso) : null;
+    return date ? date.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' }) : t.timelineNoDate;
+  };
+
+  return (
+    <article className="bg-white p-6 rounded-3xl shadow-sm border border-slate-100">
+      <h2 className="text-lg font-bold text-slate-800 mb-1 flex items-center gap-2">
+        <span aria-hidden="true">🧭</span> {t.caseTimeline}
+        <Tooltip content={t.caseTimelineTooltip} />
+      </h2>
+      <p className="text-xs text-slate-500 mb-5 font-mono tracking-wide">{t.receiptNumber}: {timeline.receiptNumber}</p>
+
+      <ol className="relative border-s-2 border-calm-100 ms-2 space-y-5">
+        {timeline.events.map(event => {
+          const isCurrentDocument = event.documentId === currentDocumentId;
+          return (
+            <li key={event.documentId} className="ms-5 relative">
+              <span
+                className={`absolute -start-[1.95rem] top-1 w-4 h-4 rounded-full border-2 border-white ${isCurrentDocument ? 'bg-calm-600 ring-4 ring-calm-100' : 'bg-calm-300'}`}
+                aria-hidden="true"
+              />
+              <p className="text-xs font-bold text-calm-700 uppercase tracking-wide">
+                {t.noticeStages[event.stage]}
+                {isCurrentDocument && <span className="ms-2 text-slate-400 normal-case font-semibold">({t.timelineThisDocument})</span>}
+              </p>
+              {onOpenDocument && !isCurrentDocument ? (
+                <button
+                  onClick={() => onOpenDocument(event.documentId)}
+                  className="text-start font-semibold text-slate-800 hover:text-calm-700 underline decoration-calm-200 underline-offset-2 focus:outline-none focus:ring-2 focus:ring-calm-500 rounded"
+                >
+                  {event.documentType}
+                </button>
+              ) : (
+                <p className="font-semibold text-slate-800">{event.documentType}</p>
+              )}
+              <p className="text-xs text-slate-500">{formatDate(event.noticeDate)}</p>
+            </li>
+          );
+        })}
+
+        {/* Possible next steps, drawn as open dots after the real notices */}
+        {timeline.nextStages.length > 0 && (
+          <li className="ms-5 relative">
+            <span className="absolute -start-[1.95rem] top-1 w-4 h-4 rounded-full border-2 border-dashed border-calm-300 bg-white" aria-hidden="true" />
+            <p className="text-xs font-bold text-slate-500 uppercase tracking-wide">{t.timelineNext}</p>
+            <p className="font-semibold text-slate-600">
+              {timeline.nextStages.map(stage => t.noticeStages[stage]).join(` ${t.timelineOr} `)}
+            </p>
+          </li>
+        )}
+      </ol>
+
+      <div className="mt-5 bg-calm-50 border border-calm-100 rounded-2xl p-4">
+        <p className="text-xs font-bold text-calm-800 uppercase tracking-wide mb-1">
+          {t.timelineCurrentStage}: {t.noticeStages[timeline.currentStage]}
+        </p>
+        <p className="text-sm text-slate-700 leading-relaxed">{t.noticeStageNext[timeline.currentStage]}</p>
+      </div>
+    </article>
+  );
+};
+
+export default CaseTimeline;
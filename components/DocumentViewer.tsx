@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DocumentPage, Language } from '../types';
+import { translations, interpolate } from '../locales';
+import { Rotation, ViewerPage, listViewerPages, renderViewerPage } from '../services/documentRenderService';
+
+interface DocumentViewerProps {
+  files: DocumentPage[];
+  language: Language;
+  // Jump to this page (1-based, counting every page of every file, like the analysis) whenever a new object is passed
+  focus?: { page: number } | null;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 1.25;
+// Padding around the page inside the scroll area (p-4 on each side)
+const PAGE_PADDING = 32;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Distance between the first two fingers on the screen
+const pinchDistance = (touches: Map<number, Point>) => {
+  const [a, b] = Array.from(touches.values());
+  return Math.hypot(a.x - b.x, a.y - b.y);
+};
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom * 100) / 100));
+
+const toolbarButton = "p-2 rounded-lg text-slate-600 hover:text-calm-700 hover:bg-calm-50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500";
+
+// The uploaded letter next to its summary: images and PDF pages drawn on a canvas, with zoom, pan, rotate and paging
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ files, language, focus, onClose }) => {
+  const t = translations[language];
+  const [pages, setPages] = useState<ViewerPage[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [width, setWidth] = useState(0);
+  const [isRendering, setIsRendering] = useState(true);
+  // The canvas stays hidden until the first page is drawn, so there's no blank box while pdf.js loads
+  const [isReady, setIsReady] = useState(false);
+  const [hasError, setHasError] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageChangedRef = useRef(true);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+  // Touch points for pinch zoom, by pointer id
+  const touchesRef = useRef(new Map<number, Point>());
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setHasError(false);
+    listViewerPages(files)
+      .then(list => {
+        if (!cancelled) setPages(list);
+      })
+      .catch(e => {
+        console.error("Could not open document", e);
+        if (!cancelled) setHasError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  useEffect(() => {
+    if (!focus || !pages) return;
+    if (pages.length > 0) setIndex(Math.min(Math.max(0, focus.page - 1), pages.length - 1));
+  }, [focus, pages]);
+
+  useEffect(() => {
+    pageChangedRef.current = true;
+  }, [index, rotation]);
+
+  // Fit-to-width follows the pane, which changes with the window and the mobile layout
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const measure = () => setWidth(Math.max(0, Math.floor(container.clientWidth - PAGE_PADDING)));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    const canvas = canvasRef.current;
+    const page = pages?.[index];
+    if (!container || !canvas || !page || width === 0) return;
+
+    // Keep the same spot in the middle of the pane when zooming; a new page starts at the top
+    const centerX = (container.scrollLeft + container.clientWidth / 2) / Math.max(1, container.scrollWidth);
+    const centerY = (container.scrollTop + container.clientHeight / 2) / Math.max(1, container.scrollHeight);
+
+    setIsRendering(true);
+    const handle = renderViewerPage(files, page, canvas, { width, zoom, rotation });
+    let active = true;
+    handle.promise
+      .then(() => {
+        if (!active) return;
+        setHasError(false);
+        setIsReady(true);
+        if (pageChangedRef.current) {
+          container.scrollTo({ left: 0, top: 0 });
+          pageChangedRef.current = false;
+        } else {
+          container.scrollLeft = centerX * container.scrollWidth - container.clientWidth / 2;
+          container.scrollTop = centerY * container.scrollHeight - container.clientHeight / 2;
+        }
+      })
+      .catch(e => {
+        console.error("Could not render page", e);
+        if (active) setHasError(true);
+      })
+      .finally(() => {
+        if (active) setIsRendering(false);
+      });
+
+    return () => {
+      active = false;
+      handle.cancel();
+    };
+  }, [files, pages, index, width, zoom, rotation]);
+
+  // Ctrl + scroll (and trackpad pinch, which browsers report the same way) zooms instead of scrolling the page.
+  // React's wheel listener is passive, so it can't stop the browser zooming the whole page.
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      setZoom(current => clampZoom(current * Math.exp(-e.deltaY / 300)));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const total = pages?.length || 0;
+  const goTo = (next: number) => setIndex(Math.min(Math.max(0, next), Math.max(0, total - 1)));
+  const rotate = () => setRotation(current => ((current + 90) % 360) as Rotation);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'PageDown') goTo(index + 1);
+    else if (e.key === 'PageUp') goTo(index - 1);
+    else if (e.key === '+' || e.key === '=') setZoom(current => clampZoom(current * ZOOM_STEP));
+    else if (e.key === '-') setZoom(current => clampZoom(current / ZOOM_STEP));
+    else if (e.key === '0') setZoom(1);
+    else if (e.key === 'r' || e.key === 'R') rotate();
+    else return;
+    e.preventDefault();
+  };
+
+  // Mouse: drag to pan. Touch: the browser pans natively, two fingers pinch to zoom.
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touchesRef.current.size === 2) {
+        pinchRef.current = { distance: pinchDistance(touchesRef.current), zoom };
+      }
+      return;
+    }
+    // Only the page itself; the scrollbars keep working as usual
+    if (e.button !== 0 || e.target !== canvasRef.current) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, left: container.scrollLeft, top: container.scrollTop };
+    container.setPointerCapture(e.pointerId);
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const container = scrollRef.current;
+    if (!container) return;
+    if (e.pointerType === 'touch') {
+      if (!touchesRef.current.has(e.pointerId)) return;
+      touchesRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const pinch = pinchRef.current;
+      if (pinch && touchesRef.current.size === 2) {
+        setZoom(clampZoom(pinch.zoom * (pinchDistance(touchesRef.current) / Math.max(1, pinch.distance))));
+      }
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    container.scrollLeft = drag.left - (e.clientX - drag.x);
+    container.scrollTop = drag.top - (e.clientY - drag.y);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+    if (dragRef.current) {
+      dragRef.current = null;
+      setIsDragging(false);
+    }
+  };
+
+  const current = pages?.[index];
+  const fileName = current ? files[current.file]?.name : '';
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="p-3 border-b border-slate-100 bg-slate-50 flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <h3 className="font-bold text-slate-800">{t.documentViewerTitle}</h3>
+          {fileName && <p className="text-xs text-slate-500 truncate">{fileName}</p>}
+        </div>
+        <button onClick={onClose} aria-label={t.closeDocument} title={t.closeDocument} className={toolbarButton}>
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="px-2 py-1.5 border-b border-slate-100 flex items-center justify-between gap-1 flex-wrap" role="toolbar" aria-label={t.documentViewerTitle}>
+        <div className="flex items-center gap-1">
+          <button onClick={() => goTo(index - 1)} disabled={index === 0} aria-label={t.previousPage} title={t.previousPage} className={toolbarButton}>
+            <svg className="w-5 h-5 rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+          </button>
+          <span className="text-xs font-medium text-slate-600 tabular-nums min-w-[5.5rem] text-center" aria-live="polite">
+            {total > 0 ? interpolate(t.viewerPageOf, { n: index + 1, total }) : '…'}
+          </span>
+          <button onClick={() => goTo(index + 1)} disabled={index >= total - 1} aria-label={t.nextPage} title={t.nextPage} className={toolbarButton}>
+            <svg className="w-5 h-5 rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+          </button>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setZoom(current => clampZoom(current / ZOOM_STEP))} disabled={zoom <= MIN_ZOOM} aria-label={t.zoomOut} title={t.zoomOut} className={toolbarButton}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM7 10h6" /></svg>
+          </button>
+          <button onClick={() => setZoom(1)} title={t.zoomFit} aria-label={`${t.zoomFit} (${Math.round(zoom * 100)}%)`} className={`${toolbarButton} text-xs font-medium tabular-nums w-14`}>
+            {Math.round(zoom * 100)}%
+          </button>
+          <button onClick={() => setZoom(current => clampZoom(current * ZOOM_STEP))} disabled={zoom >= MAX_ZOOM} aria-label={t.zoomIn} title={t.zoomIn} className={toolbarButton}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" /></svg>
+          </button>
+          <button onClick={rotate} aria-label={t.rotatePage} title={t.rotatePage} className={toolbarButton}>
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        role="region"
+        aria-label={current ? `${t.documentViewerTitle}: ${interpolate(t.viewerPageOf, { n: index + 1, total })}` : t.documentViewerTitle}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ touchAction: 'pan-x pan-y', scrollbarGutter: 'stable' }}
+        className={`relative flex-1 min-h-0 overflow-auto bg-slate-100 p-4 select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-calm-500 ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+      >
+        <canvas
+          ref={canvasRef}
+          className={`block mx-auto bg-white shadow-md transition-opacity ${hasError || !isReady ? 'hidden' : ''} ${isRendering ? 'opacity-70' : ''}`}
+        />
+        {hasError ? (
+          <p className="text-sm text-red-600 text-center py-12" role="alert">{t.viewerError}</p>
+        ) : !isReady && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-slate-500 animate-pulse" role="status">{t.viewerLoading}</p>
+        )}
+      </div>
+      <p className="px-3 py-2 text-xs text-slate-500 border-t border-slate-100 text-center">{t.viewerHint}</p>
+    </div>
+  );
+};
+
+export default DocumentViewer;
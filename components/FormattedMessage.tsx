@@ -1,133 +1,163 @@
-import React from 'react';
+import React, { useMemo } from 'react';
+import GlossaryText from './GlossaryText';
+import { GlossaryMatcher } from '../services/glossaryService';
+import { MarkdownBlock, MarkdownInline, TableAlign, parseInline, parseMarkdown } from '../services/markdownService';
 
-export const FormattedMessage: React.FC<{ text: string }> = ({ text }) => {
-  const lines = text.split('\n');
-  const renderedElements: React.ReactNode[] = [];
-  let listItemsBuffer: React.ReactNode[] = [];
-  let inCodeBlock = false;
-  let codeBlockBuffer: string[] = [];
+interface FormattedMessageProps {
+  text: string;
+  // Underlines glossary terms in the message
+  glossary?: GlossaryMatcher;
+}
 
-  const renderInline = (textSegment: string): React.ReactNode => {
-    // Regex splits: Code (`...`), Bold (**...**), Italic (*...*)
-    const parts = textSegment.split(/(`[^`]+`|\*\*.*?\*\*|\*[^*]+\*)/g);
-    
-    return (
-      <React.Fragment>
-        {parts.map((part, index) => {
-          // Inline Code
-          if (part.startsWith('`') && part.endsWith('`') && part.length >= 2) {
-            return (
-              <code key={index} className="bg-slate-100 text-pink-600 px-1.5 py-0.5 rounded font-mono text-xs border border-slate-200">
-                {part.slice(1, -1)}
-              </code>
-            );
-          }
-          // Bold
-          if (part.startsWith('**') && part.endsWith('**') && part.length >= 4) {
-            return (
-              <strong key={index} className="font-bold text-slate-900">
-                {part.slice(2, -2)}
-              </strong>
-            );
-          }
-          // Italic
-          if (part.startsWith('*') && part.endsWith('*') && part.length >= 2) {
-            return (
-              <em key={index} className="italic text-slate-800">
-                {part.slice(1, -1)}
-              </em>
-            );
-          }
-          // Plain Text
-          return <span key={index}>{part}</span>;
-        })}
-      </React.Fragment>
-    );
-  };
+const ALIGN_CLASSES: Record<string, string> = { left: 'text-start', center: 'text-center', right: 'text-end' };
+const alignClass = (align: TableAlign) => ALIGN_CLASSES[align || 'left'];
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-    
-    // Handle Code Blocks (```)
-    if (trimmedLine.startsWith('```')) {
-        if (inCodeBlock) {
-            // End of code block
-            renderedElements.push(
-                <div key={`codeblock-${i}`} className="bg-slate-800 text-slate-50 p-3 rounded-lg my-3 overflow-x-auto text-xs font-mono shadow-sm">
-                    <pre>{codeBlockBuffer.join('\n')}</pre>
-                </div>
-            );
-            codeBlockBuffer = [];
-            inCodeBlock = false;
-        } else {
-            // Start of code block - flush lists first
-            if (listItemsBuffer.length > 0) {
-                 renderedElements.push(
-                    <ul key={`ul-${i}`} className="list-disc pl-5 mb-4 space-y-1">
-                        {listItemsBuffer}
-                    </ul>
-                 );
-                 listItemsBuffer = [];
-            }
-            inCodeBlock = true;
-        }
-        continue;
+// Chat replies sit under the page's own headings, so "# Title" becomes an h3
+const HEADING_STYLES = [
+  { tag: 'h3', className: 'text-base' },
+  { tag: 'h3', className: 'text-base' },
+  { tag: 'h4', className: 'text-sm' },
+  { tag: 'h5', className: 'text-sm' },
+  { tag: 'h6', className: 'text-sm' },
+  { tag: 'h6', className: 'text-sm' },
+] as const;
+
+const renderInline = (nodes: MarkdownInline[], glossary?: GlossaryMatcher): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <GlossaryText key={index} text={node.text} glossary={glossary} />;
+      case 'code':
+        return (
+          <code key={index} className="bg-slate-100 text-pink-600 px-1.5 py-0.5 rounded font-mono text-xs border border-slate-200">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index} className="font-bold text-slate-900">{renderInline(node.children, glossary)}</strong>;
+      case 'em':
+        return <em key={index} className="italic text-slate-800">{renderInline(node.children, glossary)}</em>;
+      case 'del':
+        return <del key={index} className="text-slate-500">{renderInline(node.children, glossary)}</del>;
+      case 'link':
+        // No glossary buttons inside a link: one click target per word
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="font-medium text-calm-700 underline decoration-calm-300 underline-offset-2 hover:text-calm-900 break-words focus:outline-none focus:ring-2 focus:ring-calm-500 rounded-sm"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
     }
+  });
+
+const renderText = (text: string, glossary?: GlossaryMatcher) => renderInline(parseInline(text), glossary);
+
+const renderBlock = (block: MarkdownBlock, key: React.Key, glossary?: GlossaryMatcher, nested = false): React.ReactNode => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={key} className="mb-4 text-slate-700 leading-relaxed last:mb-0">{renderText(block.text, glossary)}</p>;
 
-    if (inCodeBlock) {
-        codeBlockBuffer.push(line);
-        continue;
+    case 'heading': {
+      const { tag: Tag, className } = HEADING_STYLES[block.level - 1];
+      return <Tag key={key} className={`${className} font-bold text-slate-900 mt-4 mb-2 first:mt-0`}>{renderText(block.text, glossary)}</Tag>;
     }
 
-    // Detect Lists
-    const isListItem = trimmedLine.startsWith('- ') || trimmedLine.startsWith('* ');
+    case 'code':
+      return (
+        <div key={key} className="bg-slate-800 text-slate-50 p-3 rounded-lg my-3 overflow-x-auto text-xs font-mono shadow-sm">
+          <pre>{block.text}</pre>
+        </div>
+      );
 
-    if (isListItem) {
-      const content = trimmedLine.replace(/^[-*]\s+/, '');
-      listItemsBuffer.push(
-        <li key={`li-${i}`} className="mb-1 pl-1 leading-relaxed text-slate-700">
-          {renderInline(content)}
-        </li>
+    case 'quote':
+      return (
+        <blockquote key={key} className="border-s-4 border-calm-200 ps-3 my-3 text-slate-600">
+          {block.blocks.map((child, idx) => renderBlock(child, idx, glossary))}
+        </blockquote>
       );
-    } else {
-      // Flush previous list if any
-      if (listItemsBuffer.length > 0) {
-        renderedElements.push(
-          <ul key={`ul-prev-${i}`} className="list-disc pl-5 mb-4 space-y-1">
-            {listItemsBuffer}
-          </ul>
-        );
-        listItemsBuffer = [];
-      }
 
-      if (trimmedLine.length > 0) {
-        renderedElements.push(
-          <p key={`p-${i}`} className="mb-4 text-slate-700 leading-relaxed last:mb-0">
-            {renderInline(trimmedLine)}
-          </p>
-        );
-      }
+    case 'list': {
+      const Tag = block.ordered ? 'ol' : 'ul';
+      const isTaskList = block.items.some(item => item.checked !== undefined);
+      const marker = isTaskList ? 'list-none' : block.ordered ? 'list-decimal' : nested ? 'list-[circle]' : 'list-disc';
+      return (
+        <Tag
+          key={key}
+          start={block.ordered && block.start !== 1 ? block.start : undefined}
+          className={`${marker} ${isTaskList ? 'ps-1' : 'ps-5'} space-y-1 ${nested ? 'mt-1' : 'mb-4 last:mb-0'}`}
+        >
+          {block.items.map((item, idx) => {
+            // A tight item's first paragraph sits on the bullet line instead of in its own <p>
+            const [first, ...rest] = item.blocks;
+            const lead = first?.type === 'paragraph' ? renderText(first.text, glossary) : first && renderBlock(first, 'first', glossary, true);
+            return (
+              <li key={idx} className="ps-1 leading-relaxed text-slate-700">
+                {item.checked !== undefined && (
+                  <input type="checkbox" checked={item.checked} disabled readOnly className="me-2 align-middle accent-calm-600" />
+                )}
+                {lead}
+                {rest.map((child, childIdx) => renderBlock(child, childIdx, glossary, true))}
+              </li>
+            );
+          })}
+        </Tag>
+      );
     }
-  }
 
-  // Flush remaining list items
-  if (listItemsBuffer.length > 0) {
-    renderedElements.push(
-      <ul key="ul-end" className="list-disc pl-5 mb-0 space-y-1">
-        {listItemsBuffer}
-      </ul>
-    );
-  }
-  
-  // Flush open code block (edge case)
-  if (inCodeBlock && codeBlockBuffer.length > 0) {
-      renderedElements.push(
-          <div key={`codeblock-end`} className="bg-slate-800 text-slate-50 p-3 rounded-lg my-3 overflow-x-auto text-xs font-mono shadow-sm">
-              <pre>{codeBlockBuffer.join('\n')}</pre>
-          </div>
+    case 'table':
+      return (
+        <div key={key} className="my-3 overflow-x-auto rounded-lg border border-slate-200">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50 text-slate-800">
+              <tr>
+                {block.header.map((cell, col) => (
+                  <th key={col} scope="col" className={`px-3 py-2 font-semibold border-b border-slate-200 ${alignClass(block.align[col])}`}>
+                    {renderText(cell, glossary)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {block.rows.map((row, rowIdx) => (
+                <tr key={rowIdx}>
+                  {row.map((cell, col) => (
+                    <td key={col} className={`px-3 py-2 align-top ${alignClass(block.align[col])}`}>{renderText(cell, glossary)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
       );
+
+    case 'rule':
+      return <hr key={key} className="my-4 border-slate-200" />;
   }
+};
+
+interface BlockViewProps {
+  block: MarkdownBlock;
+  glossary?: GlossaryMatcher;
+}
+
+// While a reply streams in only its last block changes; the ones before it keep their rendered output
+const BlockView = React.memo<BlockViewProps>(
+  ({ block, glossary }) => <>{renderBlock(block, 0, glossary)}</>,
+  (prev, next) => prev.block.raw === next.block.raw && prev.glossary === next.glossary
+);
 
-  return <div className="text-sm text-slate-700">{renderedElements}</div>;
-};
\ No newline at end of file
+export const FormattedMessage: React.FC<FormattedMessageProps> = ({ text, glossary }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className="text-sm text-slate-700 break-words">
+      {blocks.map((block, idx) => <BlockView key={idx} block={block} glossary={glossary} />)}
+    </div>
+  );
+};
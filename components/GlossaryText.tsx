@@ -0,0 +1,27 @@
+import React from 'react';
+import Tooltip from './Tooltip';
+import { GlossaryMatcher } from '../services/glossaryService';
+
+interface GlossaryTextProps {
+  text: string;
+  // Without one the text is rendered as it is
+  glossary?: GlossaryMatcher;
+}
+
+// Text with every glossary term underlined; hovering, focusing or tapping a term shows its definition
+const GlossaryText: React.FC<GlossaryTextProps> = ({ text, glossary }) => {
+  if (!glossary) return <>{text}</>;
+  return (
+    <>
+      {glossary(text).map((segment, idx) =>
+        segment.term ? (
+          <Tooltip key={idx} content={`${segment.term.term}: ${segment.term.definition}`}>{segment.text}</Tooltip>
+        ) : (
+          <React.Fragment key={idx}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default GlossaryText;
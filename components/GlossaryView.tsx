@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { translations, interpolate } from '../locales';
+import { DICTIONARY_VERSION, IMMIGRATION_DICTIONARY } from '../services/immigrationDictionary';
+import { getDictionaryTranslation, searchDictionary } from '../services/glossaryService';
+
+interface GlossaryViewProps {
+  language: Language;
+  onClose: () => void;
+}
+
+// The built-in dictionary on its own page; it needs no document and no connection
+const GlossaryView: React.FC<GlossaryViewProps> = ({ language, onClose }) => {
+  const t = translations[language];
+  const [query, setQuery] = useState('');
+
+  const entries = searchDictionary(query, language);
+  const hasUntranslated = language !== 'en' && IMMIGRATION_DICTIONARY.some(entry => !getDictionaryTranslation(entry, language));
+
+  return (
+    <section className="max-w-3xl mx-auto animate-slide-up" aria-labelledby="glossary-heading">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 id="glossary-heading" className="text-3xl font-bold text-slate-900 tracking-tight">{t.glossaryPageTitle}</h1>
+          <p className="text-slate-600 mt-1">{t.glossaryPageSubtitle}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="bg-white border border-slate-200 hover:border-calm-400 hover:bg-calm-50 text-slate-700 font-medium py-2 px-4 rounded-xl transition-all shadow-sm focus:outline-none focus:ring-2 focus:ring-calm-500"
+        >
+          {t.historyBack}
+        </button>
+      </div>
+
+      <label className="relative block mb-4">
+        <span className="sr-only">{t.glossarySearchLabel}</span>
+        <svg className="w-5 h-5 text-slate-400 absolute start-4 top-1/2 -translate-y-1/2 pointer-events-none" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t.glossarySearchPlaceholder}
+          className="w-full bg-white border border-slate-200 rounded-2xl ps-12 pe-4 py-3 text-slate-800 shadow-sm focus:outline-none focus:ring-2 focus:ring-calm-500 focus:border-transparent"
+        />
+      </label>
+
+      {hasUntranslated && (
+        <p className="text-sm text-slate-600 bg-calm-50 border border-calm-100 rounded-xl py-2 px-4 mb-4">{t.glossaryEnglishOnly}</p>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="bg-white/80 border border-slate-100 rounded-3xl p-10 text-center shadow-sm" role="status">
+          <p className="text-slate-600">{interpolate(t.glossaryNoResults, { query: query.trim() })}</p>
+        </div>
+      ) : (
+        <dl className="space-y-3">
+          {entries.map(entry => {
+            const translated = getDictionaryTranslation(entry, language);
+            const text = translated || entry;
+            const showEnglish = language !== 'en' && !!translated;
+            const aliases = text.aliases || entry.aliases || [];
+            return (
+              <div key={entry.id} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4">
+                <dt className="font-bold text-calm-800" lang={translated ? language : 'en'}>
+                  {text.term}
+                  {showEnglish && (
+                    <span className="ms-2 text-sm font-medium text-slate-500" lang="en">{entry.term}</span>
+                  )}
+                </dt>
+                <dd className="mt-1 text-slate-700 leading-relaxed" lang={translated ? language : 'en'}>{text.definition}</dd>
+                {aliases.length > 0 && (
+                  <dd className="mt-2 text-xs text-slate-500">{interpolate(t.glossaryAlsoCalled, { names: aliases.join(', ') })}</dd>
+                )}
+                {showEnglish && (
+                  <dd className="mt-2">
+                    <details>
+                      <summary className="cursor-pointer text-xs font-semibold text-calm-700 hover:text-calm-900 select-none">{t.glossaryInEnglish}</summary>
+                      <p className="mt-1 text-sm text-slate-600 leading-relaxed" lang="en">{entry.definition}</p>
+                    </details>
+                  </dd>
+                )}
+              </div>
+            );
+          })}
+        </dl>
+      )}
+      <p className="text-xs text-slate-500 text-center mt-6">
+        {interpolate(t.glossaryVersion, { version: DICTIONARY_VERSION, count: IMMIGRATION_DICTIONARY.length })}
+      </p>
+    </section>
+  );
+};
+
+export default GlossaryView;
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { translations, interpolate } from '../locales';
+import { HistoryEntry, listHistory, deleteHistoryEntry } from '../services/historyService';
+import { buildCaseTimelines } from '../services/caseTimelineService';
+import { clearCachedAnalyses } from '../services/analysisCacheService';
+import CaseTimeline from './CaseTimeline';
+
+interface HistoryViewProps {
+  language: Language;
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const HistoryView: React.FC<HistoryViewProps> = ({ language, onOpen, onClose }) => {
+  const t = translations[language];
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    listHistory().then(setEntries);
+  }, []);
+
+  const handleDelete = async (entry: HistoryEntry, title: string) => {
+    if (!window.confirm(interpolate(t.historyDeleteConfirm, { title }))) return;
+    try {
+      await deleteHistoryEntry(entry.id);
+      // Deleting should forget the document everywhere, including its cached analyses
+      clearCachedAnalyses(entry.id);
+      setEntries(prev => prev?.filter(e => e.id !== entry.id) || null);
+    } catch (e) {
+      console.error("Could not delete history entry", e);
+    }
+  };
+
+  const timelines = entries ? buildCaseTimelines(entries, language) : [];
+
+  const openDocument = (id: string) => {
+    const entry = entries?.find(e => e.id === id);
+    if (entry) onOpen(entry);
+  };
+
+  // Prefer the result in the current language, but any saved one is enough for a title
+  const getTitle = (entry: HistoryEntry) =>
+    (entry.results[language] || Object.values(entry.results)[0])?.documentType || t.historyUntitled;
+
+  return (
+    <section className="max-w-3xl mx-auto animate-slide-up" aria-labelledby="history-heading">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 id="history-heading" className="text-3xl font-bold text-slate-900 tracking-tight">{t.historyTitle}</h1>
+          <p className="text-slate-600 mt-1">{t.historySubtitle}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="bg-white border border-slate-200 hover:border-calm-400 hover:bg-calm-50 text-slate-700 font-medium py-2 px-4 rounded-xl transition-all shadow-sm focus:outline-none focus:ring-2 focus:ring-calm-500"
+        >
+          {t.historyBack}
+        </button>
+      </div>
+
+      {timelines.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-bold text-slate-800 mb-3">{t.historyCases}</h2>
+          <div className="grid gap-4 md:grid-cols-2">
+            {timelines.map(timeline => (
+              <CaseTimeline
+                key={timeline.receiptNumber}
+                timeline={timeline}
+                language={language}
+                onOpenDocument={openDocument}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {entries === null ? (
+        <p className="text-slate-500 text-center py-12" aria-live="polite">{t.historyLoading}</p>
+      ) : entries.length === 0 ? (
+        <div className="bg-white/80 border border-slate-100 rounded-3xl p-10 text-center shadow-sm">
+          <p className="text-slate-600">{t.historyEmpty}</p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map(entry => {
+            const title = getTitle(entry);
+            const firstPage = entry.pages[0];
+            const questions = entry.messages.filter(msg => msg.role === 'user').length;
+            return (
+              <li key={entry.id} className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 flex items-center gap-4 hover:border-calm-200 transition-colors">
+                <div className="w-14 h-14 flex-shrink-0 rounded-xl overflow-hidden bg-calm-50 flex items-center justify-center text-calm-500" aria-hidden="true">
+                  {firstPage?.mimeType.startsWith('image/') ? (
+                    <img src={`data:${firstPage.mimeType};base64,${firstPage.base64}`} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-800 truncate">{title}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {interpolate(t.historyOpened, { date: new Date(entry.updatedAt).toLocaleDateString(language, { year: 'numeric', month: 'short', day: 'numeric' }) })}
+                    {' · '}
+                    {interpolate(t.historyPages, { count: entry.pages.length })}
+                    {questions > 0 && <>{' · '}{interpolate(t.historyQuestions, { count: questions })}</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onOpen(entry)}
+                    className="bg-calm-600 hover:bg-calm-700 text-white text-sm font-medium py-2 px-4 rounded-xl shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-calm-600"
+                  >
+                    {t.historyOpen}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry, title)}
+                    aria-label={`${t.historyDelete} ${title}`}
+                    title={t.historyDelete}
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <p className="text-xs text-slate-500 text-center mt-6">{t.historyPrivacy}</p>
+    </section>
+  );
+};
+
+export default HistoryView;
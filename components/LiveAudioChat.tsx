@@ -1,43 +1,69 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { LiveSession } from '../services/liveService';
+import { LiveErrorKind, LiveSession, LiveStatus } from '../services/liveService';
+import { AnalysisResult, DocumentPage, Language } from '../types';
+import { LiveToolCall, LiveToolResult } from '../services/aiProvider';
+import { VOICE_ACTION_TOOLS } from '../services/voiceActionService';
+import { translations } from '../locales';
 
 interface LiveAudioChatProps {
-  systemContext: string;
+  // The analysis and the pages it came from, so voice answers are as grounded as the text chat
+  result: AnalysisResult;
+  pages: DocumentPage[];
+  language: Language;
   onClose: () => void;
   onTranscript: (text: string, role: 'user' | 'model') => void;
+  onInterrupted?: () => void;
+  // Carries out what the assistant does on the page (ticking a document, showing a term, ...)
+  onToolCall: (call: LiveToolCall) => LiveToolResult;
 }
 
-const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ systemContext, onClose, onTranscript }) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ result, pages, language, onClose, onTranscript, onInterrupted, onToolCall }) => {
+  const t = translations[language];
+  const [status, setStatus] = useState<LiveStatus>({ state: 'connecting', quality: 'good' });
   const sessionRef = useRef<LiveSession | null>(null);
   
   // Use refs to keep latest callbacks without triggering re-connect
   const onTranscriptRef = useRef(onTranscript);
   const onCloseRef = useRef(onClose);
+  const onInterruptedRef = useRef(onInterrupted);
+  const onToolCallRef = useRef(onToolCall);
 
   useEffect(() => {
     onTranscriptRef.current = onTranscript;
     onCloseRef.current = onClose;
-  }, [onTranscript, onClose]);
+    onInterruptedRef.current = onInterrupted;
+    onToolCallRef.current = onToolCall;
+  }, [onTranscript, onClose, onInterrupted, onToolCall]);
 
   useEffect(() => {
     // Initialize session on mount
     const session = new LiveSession(
-      () => setIsConnected(true),
-      () => setIsConnected(false),
-      (err) => setError("Connection failed. Check API key."),
-      (text, role) => onTranscriptRef.current(text, role)
+      setStatus,
+      (text, role) => onTranscriptRef.current(text, role),
+      () => onInterruptedRef.current?.(),
+      (call) => onToolCallRef.current(call)
     );
 
     sessionRef.current = session;
     
     // Construct a specific system instruction for the live persona
     const instructions = `
-      ${systemContext}
-      
       IMPORTANT: You are PathFinder, a specialized US Immigration Assistant in a real-time voice call.
+      The user uploaded a ${result.documentType}. Pictures of its pages, each labelled with its page number, are shared
+      with you at the start of the call. Only rely on the pages you actually received; for anything else use
+      this structured analysis, which is already shown to the user on screen:
+      ${JSON.stringify(result)}
+
+      Answer questions about dates, amounts, names, case numbers and next steps from the document and this analysis.
+      If something is not in the document, say so instead of guessing.
+
+      ${t.liveSystemPrompt}
+
+      PAGE ACTIONS:
+      You can act on the page the user is looking at: tick or untick a required document, show a glossary term,
+      add a reminder for a deadline, or open the USCIS page for a form. Only do this when the user asks for it
+      or agrees to it, and say briefly what you did. If an action fails, explain why instead of retrying.
 
       STRICT TOPIC BOUNDARIES:
       1. You must ONLY discuss US Immigration, the uploaded document's content, and related legal procedures.
@@ -50,13 +76,25 @@ const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ systemContext, onClose, o
       - Do not read out long lists or legal text verbatim unless asked. Summarize instead.
     `;
 
-    session.connect(instructions);
+    session.connect(instructions, language, pages, VOICE_ACTION_TOOLS);
 
     return () => {
       // Clean up session on unmount
       session.disconnect();
     };
-  }, [systemContext]); // Removed onTranscript from dependencies to prevent disconnect loop
+  }, [result, pages, language]); // Removed onTranscript from dependencies to prevent disconnect loop
+
+  const errorMessages: Record<LiveErrorKind, string> = {
+    mic_denied: t.liveErrorMicDenied,
+    network: t.liveErrorNetwork,
+    quota: t.liveErrorQuota,
+    auth: t.liveErrorAuth,
+    unknown: t.liveConnectionFailed,
+  };
+  const isConnected = status.state === 'connected';
+  const isReconnecting = status.state === 'reconnecting';
+  const error = status.state === 'failed' ? errorMessages[status.error || 'unknown'] : null;
+  const showQuality = isConnected || isReconnecting;
 
   return (
     <div className="absolute bottom-4 left-4 right-4 z-20 animate-slide-up">
@@ -67,7 +105,7 @@ const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ systemContext, onClose, o
            {/* Visualizer Icon */}
            <div className={`
              w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 relative
-             ${isConnected ? 'bg-calm-500' : 'bg-slate-700'}
+             ${isConnected ? 'bg-calm-500' : isReconnecting ? 'bg-amber-500' : 'bg-slate-700'}
              ${error ? 'bg-red-500' : ''}
            `}>
              {isConnected && !error && (
@@ -84,12 +122,29 @@ const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ systemContext, onClose, o
              )}
            </div>
 
-           <div>
-              <h3 className="font-bold text-sm">
-                {error ? "Error" : isConnected ? "PathFinder Live" : "Connecting..."}
+           <div role="status" aria-live="polite">
+              <h3 className="font-bold text-sm flex items-center gap-2">
+                {error ? t.liveError : isConnected ? t.liveTitle : isReconnecting ? t.liveReconnecting : t.liveConnecting}
+                {showQuality && (
+                  <span
+                    className="inline-flex items-end gap-0.5 h-3"
+                    title={status.quality === 'good' ? t.liveQualityGood : t.liveQualityPoor}
+                  >
+                    {[1, 2, 3].map(bar => (
+                      <span
+                        key={bar}
+                        aria-hidden="true"
+                        className={`w-1 rounded-sm ${bar === 1 ? 'h-1' : bar === 2 ? 'h-2' : 'h-3'} ${
+                          status.quality === 'good' ? 'bg-green-400' : bar === 1 ? 'bg-amber-400' : 'bg-slate-600'
+                        }`}
+                      ></span>
+                    ))}
+                    <span className="sr-only">{status.quality === 'good' ? t.liveQualityGood : t.liveQualityPoor}</span>
+                  </span>
+                )}
               </h3>
               <p className="text-xs text-slate-400">
-                {error || (isConnected ? "Listening..." : "Establishing secure link...")}
+                {error || (isConnected ? t.liveListening : isReconnecting ? t.liveReconnectingDetail : t.liveEstablishing)}
               </p>
            </div>
         </div>
@@ -98,7 +153,8 @@ const LiveAudioChat: React.FC<LiveAudioChatProps> = ({ systemContext, onClose, o
         <button 
           onClick={onClose}
           className="bg-red-500/20 hover:bg-red-500/40 text-red-100 p-2.5 rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
-          title="End Call"
+          title={t.endCall}
+          aria-label={t.endCall}
         >
            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
         </button>
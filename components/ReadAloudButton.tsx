@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Language } from '../types';
+import { translations } from '../locales';
+import GlossaryText from './GlossaryText';
+import { GlossaryMatcher } from '../services/glossaryService';
+import {
+  READ_ALOUD_RATES,
+  ReadAloudPlayer,
+  ReadAloudPosition,
+  ReadAloudState,
+  isReadAloudSupported,
+  loadReadAloudRate,
+  saveReadAloudRate,
+  splitSentences,
+} from '../services/readAloudService';
+
+interface ReadAloudButtonProps {
+  // Read one after another; each is highlighted on its own (e.g. a task title, then its details)
+  segments: string[];
+  language: Language;
+  // What is being read, for screen readers
+  label: string;
+  onPositionChange?: (position: ReadAloudPosition | null) => void;
+}
+
+const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({ segments, language, label, onPositionChange }) => {
+  const t = translations[language];
+  const [state, setState] = useState<ReadAloudState>('idle');
+  const [rate, setRate] = useState(loadReadAloudRate);
+  const playerRef = useRef<ReadAloudPlayer | null>(null);
+  const onPositionChangeRef = useRef(onPositionChange);
+
+  useEffect(() => {
+    onPositionChangeRef.current = onPositionChange;
+  }, [onPositionChange]);
+
+  const getPlayer = () => {
+    if (!playerRef.current) {
+      playerRef.current = new ReadAloudPlayer(
+        setState,
+        position => onPositionChangeRef.current?.(position),
+        rate
+      );
+    }
+    return playerRef.current;
+  };
+
+  // Stop when the text changes under us (e.g. a translation arrives) and when leaving the page
+  const textKey = segments.join('\u0000');
+  useEffect(() => () => playerRef.current?.stop(), [textKey, language]);
+
+  if (!isReadAloudSupported()) return null;
+
+  const handleToggle = () => {
+    const player = getPlayer();
+    if (state === 'idle') player.play(segments, language);
+    else if (state === 'paused') player.resume();
+    else player.pause();
+  };
+
+  const handleRate = () => {
+    const next = READ_ALOUD_RATES[(READ_ALOUD_RATES.indexOf(rate) + 1) % READ_ALOUD_RATES.length];
+    setRate(next);
+    saveReadAloudRate(next);
+    getPlayer().setRate(next);
+  };
+
+  const toggleLabel =
+    state === 'idle' ? t.readAloud :
+    state === 'paused' ? t.resumeReading :
+    state === 'loading' ? t.readAloudLoading :
+    t.pauseReading;
+
+  return (
+    <div className="inline-flex items-center gap-1 flex-shrink-0" role="group" aria-label={`${t.readAloud}: ${label}`}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        title={toggleLabel}
+        aria-label={toggleLabel}
+        aria-pressed={state === 'playing' || state === 'loading'}
+        className={`p-1.5 rounded-full border transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500 ${
+          state === 'idle' ? 'text-calm-700 bg-white border-calm-100 hover:bg-calm-50' : 'text-white bg-calm-600 border-calm-600 hover:bg-calm-700'
+        }`}
+      >
+        {state === 'loading' ? (
+          <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24" aria-hidden="true"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" /><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" /></svg>
+        ) : state === 'playing' ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path d="M7 5h3v14H7zM14 5h3v14h-3z" /></svg>
+        ) : (
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+        )}
+      </button>
+
+      {state !== 'idle' && (
+        <>
+          <button
+            type="button"
+            onClick={handleRate}
+            title={t.readingSpeed}
+            aria-label={`${t.readingSpeed}: ${rate}×`}
+            className="min-w-[2.5rem] px-1.5 py-1 rounded-full text-xs font-bold text-calm-800 bg-calm-50 hover:bg-calm-100 border border-calm-100 transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+          >
+            {rate}×
+          </button>
+          <button
+            type="button"
+            onClick={() => getPlayer().stop()}
+            title={t.stopReading}
+            aria-label={t.stopReading}
+            className="p-1.5 rounded-full text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-colors focus:outline-none focus:ring-2 focus:ring-calm-500"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true"><rect x="6" y="6" width="12" height="12" rx="1.5" /></svg>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface SpokenTextProps {
+  text: string;
+  language: Language;
+  // Index from splitSentences of the sentence being read, if any
+  activeSentence?: number | null;
+  // Underlines glossary terms in the text
+  glossary?: GlossaryMatcher;
+}
+
+// Renders text with the sentence that is being read aloud highlighted
+export const SpokenText: React.FC<SpokenTextProps> = ({ text, language, activeSentence, glossary }) => {
+  if (activeSentence === null || activeSentence === undefined) return <GlossaryText text={text} glossary={glossary} />;
+  return (
+    <>
+      {splitSentences(text, language).map((sentence, idx) =>
+        idx === activeSentence ? (
+          <mark key={idx} className="bg-yellow-200/70 text-inherit rounded-sm transition-colors">
+            <GlossaryText text={sentence} glossary={glossary} />
+          </mark>
+        ) : (
+          <GlossaryText key={idx} text={sentence} glossary={glossary} />
+        )
+      )}
+    </>
+  );
+};
+
+export default ReadAloudButton;
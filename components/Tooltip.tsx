@@ -1,38 +1,78 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 
 interface TooltipProps {
   content: string;
+  // Text to explain in place (e.g. a glossary term in a sentence); without it an info icon is shown
+  children?: React.ReactNode;
 }
 
-const Tooltip: React.FC<TooltipProps> = ({ content }) => {
+const Tooltip: React.FC<TooltipProps> = ({ content, children }) => {
   const [isVisible, setIsVisible] = useState(false);
+  const tooltipId = useId();
+  const isInline = children !== undefined;
+  const wrapperRef = useRef<HTMLSpanElement>(null);
+
+  // A tap elsewhere closes an open definition; mobile Safari doesn't focus buttons on tap, so blur alone won't do it
+  useEffect(() => {
+    if (!isVisible || !isInline) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!wrapperRef.current?.contains(e.target as Node)) setIsVisible(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isVisible, isInline]);
 
   return (
-    <div 
-      className="relative inline-flex items-center ml-2"
+    <span
+      ref={wrapperRef}
+      className={`relative ${isInline ? 'inline' : 'inline-flex items-center ms-2'}`}
       onMouseEnter={() => setIsVisible(true)}
       onMouseLeave={() => setIsVisible(false)}
       onFocus={() => setIsVisible(true)}
       onBlur={() => setIsVisible(false)}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setIsVisible(false);
+      }}
     >
-      <button 
-        type="button"
-        aria-label="More information"
-        className="text-slate-400 hover:text-calm-500 transition-colors focus:outline-none focus:text-calm-500"
-      >
-        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-        </svg>
-      </button>
-      
-      {isVisible && (
-        <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-slate-800 text-white text-xs rounded-lg py-2 px-3 shadow-lg z-50 animate-fade-in pointer-events-none">
-          {content}
-          <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-slate-800"></div>
-        </div>
+      {isInline ? (
+        <button
+          type="button"
+          aria-describedby={tooltipId}
+          // Touch screens have no hover. A tap also fires emulated mouseenter and focus first,
+          // so toggling here would close what they just opened; Escape, blur or a tap outside closes it.
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setIsVisible(true);
+          }}
+          className="inline text-start underline decoration-dotted decoration-calm-400 underline-offset-2 cursor-help rounded-sm focus:outline-none focus:ring-2 focus:ring-calm-500"
+        >
+          {children}
+        </button>
+      ) : (
+        <button
+          type="button"
+          aria-label="More information"
+          aria-describedby={tooltipId}
+          className="text-slate-400 hover:text-calm-500 transition-colors focus:outline-none focus:text-calm-500"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
       )}
-    </div>
+
+      {/* Always in the DOM so aria-describedby can read it; only shown on hover or focus */}
+      <span
+        id={tooltipId}
+        role="tooltip"
+        hidden={!isVisible}
+        className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-slate-800 text-white text-xs font-normal not-italic normal-case tracking-normal text-start rounded-lg py-2 px-3 shadow-lg z-50 animate-fade-in pointer-events-none"
+      >
+        {content}
+        <span className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-slate-800"></span>
+      </span>
+    </span>
   );
 };
 
@@ -19,7 +19,7 @@ const TranslationGuide: React.FC<TranslationGuideProps> = ({ isOpen, onClose })
         <button 
           onClick={onClose}
           aria-label="Close translation guide"
-          className="absolute top-4 right-4 p-2 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-500 transition-colors focus:outline-none focus:ring-2 focus:ring-slate-400 z-10"
+          className="absolute top-4 end-4 p-2 bg-slate-100 hover:bg-slate-200 rounded-full text-slate-500 transition-colors focus:outline-none focus:ring-2 focus:ring-slate-400 z-10"
           autoFocus
         >
           <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
@@ -46,7 +46,7 @@ const TranslationGuide: React.FC<TranslationGuideProps> = ({ isOpen, onClose })
               <div className="space-y-4">
                   <div>
                       <h4 className="font-bold text-xs uppercase text-slate-500 mb-1">English</h4>
-                      <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-700">
+                      <ol className="list-decimal ps-5 space-y-1 text-sm text-slate-700">
                         <li>Tap the <span className="font-bold">"Aa"</span> or <span className="font-bold">puzzle icon</span> in the address bar.</li>
                         <li>Select <span className="font-bold">Translate Website</span>.</li>
                         <li>Choose your preferred language.</li>
@@ -54,7 +54,7 @@ const TranslationGuide: React.FC<TranslationGuideProps> = ({ isOpen, onClose })
                   </div>
                   <div className="pt-2 border-t border-slate-200">
                       <h4 className="font-bold text-xs uppercase text-slate-500 mb-1">Español</h4>
-                      <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-700">
+                      <ol className="list-decimal ps-5 space-y-1 text-sm text-slate-700">
                         <li>Toque el icono <span className="font-bold">"Aa"</span> o el <span className="font-bold">rompecabezas</span> en la barra de direcciones.</li>
                         <li>Seleccione <span className="font-bold">Traducir sitio web</span>.</li>
                         <li>Elija su idioma preferido.</li>
@@ -71,14 +71,14 @@ const TranslationGuide: React.FC<TranslationGuideProps> = ({ isOpen, onClose })
                <div className="space-y-4">
                   <div>
                       <h4 className="font-bold text-xs uppercase text-slate-500 mb-1">English</h4>
-                      <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-700">
+                      <ol className="list-decimal ps-5 space-y-1 text-sm text-slate-700">
                         <li>Tap the <span className="font-bold">three dots (⋮)</span> menu icon.</li>
                         <li>Tap <span className="font-bold">Translate</span>.</li>
                       </ol>
                   </div>
                   <div className="pt-2 border-t border-slate-200">
                       <h4 className="font-bold text-xs uppercase text-slate-500 mb-1">Español</h4>
-                      <ol className="list-decimal pl-5 space-y-1 text-sm text-slate-700">
+                      <ol className="list-decimal ps-5 space-y-1 text-sm text-slate-700">
                         <li>Toque el icono de <span className="font-bold">tres puntos (⋮)</span>.</li>
                         <li>Seleccione <span className="font-bold">Traducir</span>.</li>
                       </ol>
@@ -0,0 +1,277 @@
+import { LocaleOverrides } from './en';
+
+export const ar: LocaleOverrides = {
+  // App Header & Intro
+  subtitle: "مساعد الهجرة بالذكاء الاصطناعي",
+  headlinePart1: "افهم رسائل USCIS الخاصة بك ",
+  headlinePart2: "فوراً",
+  description: "ارفع صورة أو ملف PDF. سنحوّل اللغة القانونية إلى كلام بسيط ونجيب عن أسئلتك، حتى تعرف بالضبط ما عليك فعله.",
+
+  // Upload Area
+  uploadTitle: "ارفع مستنداً",
+  uploadSubtitle: "PDF أو JPG أو PNG (الحد الأقصى 10 ميغابايت)",
+  selectFile: "اختر ملفاً",
+  takePhoto: "التقط صورة",
+  readingDoc: "جارٍ قراءة مستندك...",
+  loadingSteps: [
+    "جارٍ مسح المستند...",
+    "جارٍ تبسيط اللغة القانونية...",
+    "جارٍ إعداد الملخص...",
+    "جارٍ التبسيط..."
+  ],
+  patientMessage: "يرجى الانتظار قليلاً، أقوم بتحليل كل التفاصيل بعناية لضمان الدقة.",
+  analyzeNow: "حلّل الآن",
+  removeFile: "إزالة الملف",
+  packetTitle: "مستندك ({count} صفحات)",
+  packetHint: "هل صوّرت الرسالة صفحةً صفحة؟ أضف كل الصفحات ورتّبها قبل التحليل.",
+  pageLabel: "الصفحة {n}",
+  viewDocument: "عرض المستند",
+  viewSummary: "الملخص",
+  documentViewerTitle: "مستندك",
+  closeDocument: "إغلاق المستند",
+  showPage: "عرض الصفحة {n} من المستند",
+  previousPage: "الصفحة السابقة",
+  nextPage: "الصفحة التالية",
+  viewerPageOf: "الصفحة {n} من {total}",
+  zoomIn: "تكبير",
+  zoomOut: "تصغير",
+  zoomFit: "ملاءمة العرض",
+  rotatePage: "تدوير",
+  viewerLoading: "جارٍ فتح المستند…",
+  viewerError: "تعذّر عرض هذا المستند.",
+  viewerHint: "اسحب للتنقل. استخدم إصبعين أو Ctrl مع عجلة الفأرة للتكبير.",
+  addPage: "أضف صفحة أخرى",
+  movePageUp: "نقل الصفحة لأعلى",
+  movePageDown: "نقل الصفحة لأسفل",
+  removePage: "إزالة الصفحة",
+  errorTooManyPages: "يمكنك إضافة {max} صفحات كحد أقصى لكل مستند.",
+  errorGeneric: "لم نتمكن من تحليل هذا المستند. جرّب صورة واضحة أو ملف PDF لنموذج من USCIS.",
+  errorNotImmigrationDoc: "خطأ: يرجى رفع مستند صالح من USCIS أو مستند متعلق بالهجرة.",
+  errorInvalidResponse: "وصل التحليل ناقصاً. يرجى المحاولة مرة أخرى بعد قليل.",
+  errorRateLimited: "طلبات كثيرة جداً الآن. انتظر دقيقة ثم حاول مرة أخرى.",
+  errorTooLarge: "هذه الملفات كبيرة جداً لتحليلها معاً. جرّب صفحات أقل أو صوراً أصغر.",
+  errorTranslation: "تعذّرت ترجمة هذا الملخص الآن. يرجى المحاولة مرة أخرى.",
+  translating: "جارٍ ترجمة الملخص...",
+  cachedResultNotice: "تم تحليل هذا المستند من قبل، لذلك عرضنا التحليل المحفوظ.",
+  reanalyze: "أعد التحليل على أي حال",
+  reanalyzing: "جارٍ تحليل المستند مرة أخرى...",
+  readAloud: "اقرأ بصوت عالٍ",
+  pauseReading: "إيقاف مؤقت",
+  resumeReading: "متابعة",
+  stopReading: "إيقاف القراءة",
+  readingSpeed: "سرعة القراءة",
+  readAloudLoading: "جارٍ تحميل الصوت...",
+  errorInvalidFileType: "نوع ملف غير صالح. يرجى استخدام PDF أو صورة.",
+  errorProcessFile: "تعذّرت معالجة الملف. يرجى المحاولة مرة أخرى.",
+  errorTitle: "عذراً!",
+  tryAgain: "حاول مرة أخرى",
+  uploadAreaLabel: "منطقة رفع المستند",
+  languageLabel: "اللغة",
+  missionTitle: "لماذا وُجد PathFinder",
+  missionBody1: "إن شق الطريق نحو حياة جديدة هو بحد ذاته عمل يتطلب شجاعة هائلة، ولا ينبغي أن يحدده الخوف من الأوراق. بالنسبة لعائلات لا تُحصى، كثيرًا ما يطغى القلق من الرسائل الحكومية المعقدة على الأمل في بداية جديدة، حيث قد يبدو مصطلح واحد يُساء فهمه عائقًا أمام مستقبلهم.",
+  missionBody2: "وُلد هذا المشروع من فهم عميق وشخصي لذلك الصمت والضغط. أؤمن بأن راحة البال لا ينبغي أن تكون رفاهية حكرًا على من يستطيعون تحمّل تكاليف الاستشارات القانونية الباهظة.",
+  missionBody3: "بنيت هذا التطبيق لأمدّ يد العون لكل من يشعر بالضياع في هذه الإجراءات. الهدف: أن يكون الوضوح والطمأنينة والفهم في متناول الجميع، حتى لا يضطر أحد إلى مواجهة هذه المستندات وحده.",
+  faqTitle: "الأسئلة الشائعة ونصائح",
+  faqQ1: "PathFinder لا يتعرّف على مستندي؟",
+  faqA1: "يُرجى تحديث الصفحة وإعادة رفع الملف. تأكد من أن الصورة مضاءة جيدًا وأن النص واضح. إذا استمرت المشكلة، فقد لا يكون هذا النوع من المستندات مدعومًا بعد.",
+  faqQ2: "هل بياناتي الشخصية آمنة؟",
+  faqA2: "نعم. تتم معالجة مستنداتك بأمان بواسطة Google Gemini في الذاكرة، ولا تُخزَّن بشكل دائم على خوادمنا. خصوصيتك أولويتنا.",
+  faqQ3: "هل يمكنني استخدام هذا للحصول على استشارة قانونية؟",
+  faqA3: "لا. PathFinder أداة معلوماتية فقط. فهو يشرح المستندات لكنه لا يستطيع تقديم استشارة قانونية. استشر دائمًا محامي هجرة معتمدًا قبل اتخاذ أي قرار قانوني.",
+  faqQ4: "كيف أحصل على أفضل النتائج؟",
+  faqA4: "للحصول على أفضل تحليل، ارفع ملف PDF رقميًا أو صورة ملتقطة من الأعلى مباشرة في إضاءة جيدة. تجنّب الظلال والزوايا الضبابية.",
+  poweredBy: "مدعوم من Google Gemini. خاص وآمن.",
+
+  // Footer
+  disclaimer: "PathFinder مساعد يعمل بالذكاء الاصطناعي وليس محامياً. هذه المعلومات للاطلاع فقط.",
+
+  // Analysis View
+  docAnalysis: "تحليل المستند",
+  save: "حفظ",
+  saved: "تم الحفظ!",
+  goodNews: "أخبار جيدة!",
+  actionRequired: "مطلوب إجراء",
+  neutralUpdate: "تحديث عادي",
+  analysisComplete: "اكتمل التحليل",
+  whatIsThis: "ما هذا؟",
+  whatIsThisTooltip: "شرح مبسّط لماهية هذا المستند وسبب استلامك له.",
+  todoTitle: "المهام والمواعيد النهائية",
+  todoTooltip: "الخطوات التي عليك اتخاذها وأي تواريخ مهمة يجب تذكّرها.",
+  caseDetails: "تفاصيل القضية",
+  caseDetailsTooltip: "الأرقام والأسماء التي تعرّف قضيتك. احتفظ بها في متناول يدك عند الاتصال بـ USCIS أو التحقق من حالة قضيتك عبر الإنترنت.",
+  receiptNumber: "رقم الإيصال",
+  receiptNumberInvalid: "هذا لا يطابق الصيغة المعتادة (3 أحرف + 10 أرقام). قارنه برسالتك.",
+  aNumber: "رقم A",
+  aNumberInvalid: "تتكون أرقام A عادةً من 8 أو 9 أرقام. قارنه برسالتك.",
+  priorityDate: "تاريخ الأولوية",
+  noticeDate: "تاريخ الإشعار",
+  serviceCenter: "مركز الخدمة",
+  beneficiary: "المستفيد",
+  petitioner: "مقدّم الالتماس",
+  copy: "نسخ",
+  copyAll: "نسخ الكل",
+  copied: "تم النسخ!",
+  tasksProgress: "تم إنجاز {done} من {total}",
+  taskNeeds: "يتطلب:",
+  noActionItems: "لا يوجد ما عليك فعله الآن.",
+  requiredDocs: "المستندات المطلوبة",
+  requiredDocsTooltip: "قائمة بالمستندات الداعمة أو الأدلة المذكورة في النموذج والتي قد تحتاج إلى تقديمها.",
+  due: "الموعد:",
+  deadlinesTitle: "تواريخ مهمة",
+  deadlinesTooltip: "كل تاريخ في مستندك يجب أن تتصرف فيه أو تحضر، مع الوقت المتبقي.",
+  deadlineTypes: {
+    RESPOND_BY: "الرد قبل",
+    APPOINTMENT: "موعد",
+    EXPIRY: "ينتهي",
+    HEARING: "جلسة استماع"
+  },
+  daysRemaining: "متبقٍ {days} يومًا",
+  oneDayRemaining: "متبقٍ يوم واحد",
+  dueToday: "اليوم",
+  daysPast: "منذ {days} يومًا",
+  deadlinePast: "انقضى",
+  deadlineSoon: "أقل من أسبوعين",
+  deadlineEstimated: "تقديري",
+  deadlineEstimatedTooltip: "تم حساب هذا التاريخ من الرسالة، ولم يُطبع فيها. تحقّق منه مرة أخرى.",
+  deadlineUnknownDate: "التاريخ غير واضح",
+  addToCalendar: "إضافة إلى التقويم",
+  addToCalendarHint: "نزّل ملف تقويم مع تذكيرات قبل كل تاريخ بـ 30 و7 ويوم واحد.",
+  remindMe: "ذكّرني",
+  reminderAdded: "تمت إضافة التذكير",
+  remindMeHint: "نزّل تذكيرًا في التقويم لهذا التاريخ.",
+  calendarFromLetter: "من رسالتك:",
+  calendarWhatToDo: "ما عليك فعله:",
+  calendarReminder: "تذكير: {event}",
+  example: "مثال",
+  noExample: "لا توجد أمثلة محددة مطلوبة.",
+  noRequiredDocs: "لم تُذكر مستندات محددة في الرسالة.",
+  simpleDefinitions: "تعريفات مبسطة",
+  keyFindings: "أهم النقاط",
+  keyFindingsTooltip: "أهم التفاصيل في مستندك والصفحة التي يظهر فيها كل منها.",
+  uploadDifferent: "ارفع مستنداً آخر",
+  supplementalTitle: "أدلة داعمة شائعة (قائمة تحقق)",
+  supplementalDocs: [
+    "عقد الزواج المدني",
+    "شهادات الميلاد (النسخة الكاملة)",
+    "إثبات الأصول المشتركة (حسابات بنكية، عقد إيجار)",
+    "صور معًا (مع التواريخ والأماكن)",
+    "إفادات خطية من الأصدقاء/العائلة",
+    "جواز السفر / وثائق السفر"
+  ],
+
+  // Chat
+  chatTitle: "تحدث مع PathFinder",
+  chatSubtitle: "اطرح أسئلة محددة عن النموذج",
+  typeQuestion: "اكتب سؤالك...",
+  verifiedSources: "مصادر موثّقة:",
+  chatWaiting: "يرجى الانتظار قليلاً بينما أقرأ تفاصيل مستندك للاستعداد لمحادثتنا...",
+  chatReady: "انتهيت من قراءة مستندك. اسألني أي سؤال محدد عنه، أو يمكنني البحث عن أحدث رسوم USCIS وأوقات المعالجة.",
+  chatError: "واجهت مشكلة في قراءة المستند للمحادثة، لكنني ما زلت هنا للإجابة عن الأسئلة العامة.",
+  chatConnectError: "أواجه مشكلة في الاتصال الآن. يرجى المحاولة مرة أخرى.",
+  chatSafetyBlocked: "لا يمكنني الإجابة عن ذلك لأنه أثار مرشّح الأمان. يحدث هذا أحيانًا مع المستندات القانونية التي تذكر عقوبات. يُرجى محاولة السؤال بطريقة أبسط.",
+  chatRecitationBlocked: "لا يمكنني اقتباس هذا النص حرفيًا بسبب قيود حقوق النشر. يمكنني تلخيصه بدلًا من ذلك.",
+  chatEmptyReply: "تلقيت ردًا لكن لم أتمكن من فهمه (نص فارغ). يُرجى المحاولة مرة أخرى.",
+  chatNoReply: "عذرًا، لم أتمكن من فهم ذلك بالكامل (لا توجد إجابة).",
+  typing: "يكتب...",
+  sendMessage: "إرسال الرسالة",
+  startVoiceChat: "بدء المحادثة الصوتية",
+  endVoiceChat: "إنهاء المحادثة الصوتية",
+  stopGenerating: "إيقاف الإجابة",
+  callTranscriptTitle: "مكالمة صوتية",
+  callInProgress: "المكالمة جارية",
+  callSummary: "ملخص المكالمة",
+  callStarted: "بدأت في {date}",
+  callDuration: "المدة",
+  callYourTurns: "تحدثتَ",
+  callAnswers: "الإجابات",
+  callInterruptedCount: "مقاطَعة",
+  callInterrupted: "مقاطَعة",
+  callSpeakerYou: "أنت",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "عرض النص",
+  exportTranscriptText: "حفظ كنص",
+  exportTranscriptJson: "حفظ كـ JSON",
+  callActionsCount: "الإجراءات",
+  voiceActionCheckDocument: "تم التحديد: {target}",
+  voiceActionUncheckDocument: "أُلغي التحديد: {target}",
+  voiceActionHighlightTerm: "عُرض المصطلح: {target}",
+  voiceActionAddReminder: "أُضيف تذكير: {target}",
+  voiceActionOpenForm: "فُتح النموذج {target}",
+  replyStopped: "تم إيقاف الإجابة.",
+  historyTitle: "مستنداتي",
+  historySubtitle: "المستندات التي حللتها على هذا الجهاز. افتح أحدها لتكمل من حيث توقفت.",
+  historyBack: "رجوع",
+  historyLoading: "جارٍ تحميل مستنداتك...",
+  historyEmpty: "لا توجد مستندات محفوظة بعد. ستظهر هنا المستندات التي تحللها.",
+  historyUntitled: "مستند هجرة",
+  historyOpened: "آخر فتح {date}",
+  historyPages: "{count} صفحة",
+  historyQuestions: "{count} سؤال",
+  historyOpen: "فتح",
+  historyDelete: "حذف",
+  historyDeleteConfirm: "حذف \"{title}\" ومحادثته من هذا الجهاز؟",
+  historyPrivacy: "محفوظ في هذا المتصفح فقط. لا يُرفع أي شيء لتخزين سجلك.",
+  historyCases: "قضاياك",
+  glossaryNav: "المسرد",
+  glossaryPageTitle: "مسرد مصطلحات الهجرة",
+  glossaryPageSubtitle: "تعريفات مبسطة لمصطلحات الهجرة الشائعة. يعمل دون اتصال: لا يُرسل أي شيء.",
+  glossarySearchLabel: "ابحث عن المصطلحات",
+  glossarySearchPlaceholder: "ابحث، مثلاً RFE أو تاريخ الأولوية",
+  glossaryNoResults: "لا توجد مصطلحات تطابق \"{query}\".",
+  glossaryAlsoCalled: "يُسمى أيضاً: {names}",
+  glossaryInEnglish: "بالإنجليزية",
+  glossaryEnglishOnly: "بعض التعريفات لم تُترجم بعد وتظهر بالإنجليزية.",
+  glossaryVerified: "موثّق",
+  glossaryVerifiedHint: "تعريف من قاموس PathFinder المُراجَع",
+  glossaryVersion: "إصدار القاموس {version} · {count} مصطلحاً",
+  printSummary: "طباعة الملخص",
+  downloadPdf: "تنزيل PDF",
+  preparingPdf: "جارٍ تجهيز ملف PDF...",
+  exportError: "تعذّر إنشاء الملخص. يُرجى المحاولة مرة أخرى.",
+  summaryCreated: "تم إنشاء الملخص باستخدام PathFinder في {date}.",
+  caseTimeline: "الجدول الزمني للقضية",
+  caseTimelineTooltip: "الرسائل التي حفظتها بنفس رقم الإيصال، بالترتيب الذي أرسلتها به USCIS.",
+  timelineThisDocument: "هذه الرسالة",
+  timelineNoDate: "التاريخ غير مطبوع",
+  timelineNext: "ما الذي يأتي عادةً بعد ذلك",
+  timelineOr: "أو",
+  timelineCurrentStage: "الخطوة الحالية",
+  noticeStages: {
+    RECEIPT: "تم استلام القضية",
+    BIOMETRICS: "موعد البيانات الحيوية",
+    RFE: "طلب أدلة إضافية",
+    INTERVIEW: "مقابلة",
+    APPROVAL: "تمت الموافقة",
+    DENIAL: "تم الرفض",
+    CARD_PRODUCED: "جارٍ إصدار البطاقة",
+    OTHER: "إشعار آخر"
+  },
+  noticeStageNext: {
+    RECEIPT: "استلمت USCIS طلبك. يتلقى معظم الناس رسالة موعد البيانات الحيوية خلال الأسابيع القليلة القادمة. احتفظ برقم الإيصال هذا للتحقق من حالة قضيتك عبر الإنترنت.",
+    BIOMETRICS: "بعد أخذ بصماتك، تراجع USCIS القضية. قد تتلقى بعد ذلك إشعار مقابلة، أو طلب أدلة إضافية، أو قرارًا.",
+    RFE: "تحتاج USCIS إلى مزيد من المعلومات قبل اتخاذ القرار. أرسل كل ما طلبوه قبل الموعد النهائي؛ وعادةً ما يتبع ذلك قرار أو مقابلة بعد استلامه.",
+    INTERVIEW: "بعد المقابلة، قد يوافق الموظف على القضية، أو يطلب أدلة إضافية، أو يرسل القرار بالبريد.",
+    APPROVAL: "تمت الموافقة على قضيتك. إذا كانت تشمل بطاقة، فستتلقى عادةً إشعار إصدار البطاقة ثم البطاقة بالبريد.",
+    DENIAL: "تم رفض قضيتك. اقرأ الرسالة بعناية: فهي توضح السبب وما إذا كان بإمكانك الاستئناف أو تقديم طلب، وغالبًا بموعد نهائي قصير. تحدث إلى محامي هجرة قريبًا.",
+    CARD_PRODUCED: "بطاقتك قيد الإصدار أو تم إرسالها بالبريد. تأكد من أن لدى USCIS عنوانك الحالي حتى تصلك.",
+    OTHER: "احفظ الرسالة التالية التي تتلقاها بهذا الرقم لترى تقدّم قضيتك هنا."
+  },
+
+  // Live Chat
+  liveConnecting: "جارٍ الاتصال...",
+  liveListening: "أستمع إليك...",
+  liveError: "خطأ",
+  liveTitle: "PathFinder مباشر",
+  liveEstablishing: "جارٍ إنشاء اتصال آمن...",
+  liveConnectionFailed: "فشل الاتصال. يُرجى المحاولة مرة أخرى.",
+  liveReconnecting: "جارٍ إعادة الاتصال...",
+  liveReconnectingDetail: "انقطع الاتصال. نتابع من حيث توقفت...",
+  liveQualityGood: "اتصال جيد",
+  liveQualityPoor: "اتصال ضعيف",
+  liveErrorMicDenied: "الوصول إلى الميكروفون محظور. اسمح به في إعدادات المتصفح ثم حاول مرة أخرى.",
+  liveErrorNetwork: "انقطع الاتصال. تحقق من الإنترنت ثم حاول مرة أخرى.",
+  liveErrorQuota: "الخدمة الصوتية مشغولة الآن. يُرجى الانتظار دقيقة ثم المحاولة مرة أخرى.",
+  liveErrorAuth: "تعذّر على الخدمة الصوتية تسجيل الدخول. يُرجى المحاولة لاحقًا.",
+  endCall: "إنهاء المكالمة",
+  liveSystemPrompt: "IMPORTANT: Speak in Arabic unless the user speaks another language. Keep responses conversational.",
+};
@@ -0,0 +1,292 @@
+// English is the reference locale: every key must exist here, and other locales fall back to it
+export const en = {
+  // App Header & Intro
+  appTitle: "PathFinder",
+  subtitle: "AI Immigration Assistant",
+  headlinePart1: "Understand your USCIS letters, ",
+  headlinePart2: "instantly",
+  description: "Upload a photo or PDF. We'll translate the legalese into plain human language and answer your questions, so you know exactly what to do.",
+  
+  // Upload Area
+  uploadTitle: "Upload a document",
+  uploadSubtitle: "PDF, JPG, or PNG (Max 10MB)",
+  selectFile: "Select File",
+  takePhoto: "Take Photo",
+  readingDoc: "Reading your document...",
+  loadingSteps: [
+    "Scanning Document...",
+    "Translating Legalese...",
+    "Preparing Summary...",
+    "Simplifying..."
+  ],
+  patientMessage: "Please be patient, I am carefully analyzing every detail to ensure accuracy. This may take a moment.",
+  analyzeNow: "Analyze Now",
+  removeFile: "Remove file",
+  packetTitle: "Your document ({count} pages)",
+  packetHint: "Photographed a letter page by page? Add every page and put them in order before analyzing.",
+  pageLabel: "Page {n}",
+  viewDocument: "View document",
+  viewSummary: "Summary",
+  documentViewerTitle: "Your document",
+  closeDocument: "Close document",
+  showPage: "Show page {n} of the document",
+  previousPage: "Previous page",
+  nextPage: "Next page",
+  viewerPageOf: "Page {n} of {total}",
+  zoomIn: "Zoom in",
+  zoomOut: "Zoom out",
+  zoomFit: "Fit to width",
+  rotatePage: "Rotate",
+  viewerLoading: "Opening document…",
+  viewerError: "This document could not be displayed.",
+  viewerHint: "Drag to move around. Pinch or Ctrl + scroll to zoom.",
+  addPage: "Add another page",
+  movePageUp: "Move page up",
+  movePageDown: "Move page down",
+  removePage: "Remove page",
+  errorTooManyPages: "You can add up to {max} pages per document.",
+  errorGeneric: "We couldn't analyze that document. Please try a clear image or PDF of a USCIS form.",
+  errorNotImmigrationDoc: "Error: please upload a valid USCIS or related document.",
+  errorInvalidResponse: "The analysis came back incomplete. Please try again in a moment.",
+  errorRateLimited: "Too many requests right now. Please wait a minute and try again.",
+  errorTooLarge: "These files are too large to analyze together. Try fewer pages or smaller photos.",
+  errorTranslation: "We couldn't translate this summary right now. Please try again.",
+  translating: "Translating your summary...",
+  cachedResultNotice: "This document was analyzed before, so we loaded the saved analysis.",
+  reanalyze: "Re-analyze anyway",
+  reanalyzing: "Analyzing the document again...",
+  readAloud: "Read aloud",
+  pauseReading: "Pause",
+  resumeReading: "Resume",
+  stopReading: "Stop reading",
+  readingSpeed: "Reading speed",
+  readAloudLoading: "Loading voice...",
+  errorInvalidFileType: "Invalid file type. Please use PDF or Image.",
+  errorProcessFile: "Failed to process file. Please try again.",
+  errorTitle: "Oops!",
+  tryAgain: "Try Again",
+  uploadAreaLabel: "Upload document area",
+  languageLabel: "Language",
+  
+  // Mission
+  missionTitle: "Why PathFinder Exists",
+  missionBody1: "Figuring out the path to a new life is already an act of immense courage, it shouldn't be defined by the fear of paperwork. For countless families, the hope of a fresh start is often overshadowed by the anxiety of complex government letters, where a single misunderstood term can feel like a barrier to their future.",
+  missionBody2: "This project was born from a deep, personal understanding of the silence and stress. I believe that peace of mind shouldn't be a luxury reserved only for those who can afford expensive legal advise.",
+  missionBody3: "I built this app to offer a helping hand to anyone feeling lost in the process. The goal: to ensure that clarity, comfort, and understanding are accessible to everyone, so that no one has to face these documents alone.",
+  
+  // FAQ
+  faqTitle: "Frequently Asked Questions & Tips",
+  faqQ1: "PathFinder isn't recognizing my document?",
+  faqA1: "Please try refreshing the page and re-uploading the file. Ensure your photo is well-lit and the text is clear. If it persists, the document type might not be supported yet.",
+  faqQ2: "Is my personal data safe?",
+  faqA2: "Yes. Your documents are processed securely by Google Gemini in memory and are not permanently stored on our servers. We prioritize your privacy.",
+  faqQ3: "Can I use this for legal advice?",
+  faqA3: "No. PathFinder is an informational tool only. It explains documents but cannot provide legal counsel. Always consult an accredited immigration attorney for legal decisions.",
+  faqQ4: "How do I get the best results?",
+  faqA4: "For the best analysis, upload a digital PDF or a photo taken directly from above in bright lighting. Avoid shadows or blurry angles.",
+
+  // Footer
+  poweredBy: "Powered by Google Gemini. Private & Secure.",
+  disclaimer: "PathFinder is an AI assistant, not a lawyer. This is for informational purposes only.",
+
+  // Analysis View
+  docAnalysis: "Document Analysis",
+  save: "Save",
+  saved: "Saved!",
+  goodNews: "Good News!",
+  actionRequired: "Action Required",
+  neutralUpdate: "Neutral Update",
+  analysisComplete: "Analysis Complete",
+  whatIsThis: "What is this?",
+  whatIsThisTooltip: "A simplified explanation of what this document is and why you received it.",
+  todoTitle: "To-Do & Deadline",
+  todoTooltip: "Actionable steps you need to take and any critical dates to remember.",
+  caseDetails: "Case Details",
+  caseDetailsTooltip: "The numbers and names that identify your case. Keep them handy when you call USCIS or check your case status online.",
+  receiptNumber: "Receipt number",
+  receiptNumberInvalid: "This doesn't match the usual format (3 letters + 10 digits). Check it against your letter.",
+  aNumber: "A-Number",
+  aNumberInvalid: "A-Numbers usually have 8 or 9 digits. Check it against your letter.",
+  priorityDate: "Priority date",
+  noticeDate: "Notice date",
+  serviceCenter: "Service center",
+  beneficiary: "Beneficiary",
+  petitioner: "Petitioner",
+  copy: "Copy",
+  copyAll: "Copy all",
+  copied: "Copied!",
+  tasksProgress: "{done} of {total} done",
+  taskNeeds: "Needs:",
+  noActionItems: "There is nothing you need to do right now.",
+  requiredDocs: "Required Documents",
+  requiredDocsTooltip: "A checklist of supporting documents or evidence mentioned in the form that you may need to provide.",
+  due: "Due:",
+  deadlinesTitle: "Important Dates",
+  deadlinesTooltip: "Every date in your document you need to act on or attend, with how much time is left.",
+  deadlineTypes: {
+    RESPOND_BY: "Respond by",
+    APPOINTMENT: "Appointment",
+    EXPIRY: "Expires",
+    HEARING: "Hearing"
+  },
+  daysRemaining: "{days} days left",
+  oneDayRemaining: "1 day left",
+  dueToday: "Today",
+  daysPast: "{days} days ago",
+  deadlinePast: "Past",
+  deadlineSoon: "Less than 2 weeks",
+  deadlineEstimated: "Estimated",
+  deadlineEstimatedTooltip: "This date was calculated from the letter, not printed on it. Double-check it.",
+  deadlineUnknownDate: "Date unclear",
+  addToCalendar: "Add to calendar",
+  addToCalendarHint: "Download a calendar file with reminders 30, 7 and 1 day before each date.",
+  remindMe: "Remind me",
+  reminderAdded: "Reminder added",
+  remindMeHint: "Download a calendar reminder for this date.",
+  calendarFromLetter: "From your letter:",
+  calendarWhatToDo: "What you need to do:",
+  calendarReminder: "Reminder: {event}",
+  example: "Example",
+  noExample: "No specific examples required.",
+  noRequiredDocs: "No specific documents listed in the letter.",
+  simpleDefinitions: "Simple Definitions",
+  keyFindings: "Key Findings",
+  keyFindingsTooltip: "The most important details in your document and the page where each one appears.",
+  uploadDifferent: "Upload a different document",
+  
+  // Supplemental Docs Checklist
+  supplementalTitle: "Common Supporting Evidence (Checklist)",
+  supplementalDocs: [
+    "Civil Marriage Certificate",
+    "Birth Certificates (Long Form)",
+    "Proof of Joint Assets (Bank Accounts, Lease)",
+    "Photos together (with dates & locations)",
+    "Affidavits from friends/family",
+    "Passport / Travel Documents"
+  ],
+
+  // Chat
+  chatTitle: "Chat with PathFinder",
+  chatSubtitle: "Ask specific questions about your form",
+  typeQuestion: "Type your question...",
+  verifiedSources: "Verified Sources:",
+  chatWaiting: "Please wait a moment while I read your document details to prepare for our chat... 🧐",
+  chatReady: "I've finished reading your document. Feel free to ask me specific questions about it, or I can search for the latest USCIS fees and processing times for you!",
+  chatError: "I had trouble reading the document for the chat, but I am still here to answer general questions.",
+  chatConnectError: "I'm having trouble connecting right now. Please try again.",
+  chatSafetyBlocked: "I cannot answer that because it flagged a safety filter. This sometimes happens with legal documents mentioning penalties. Please try asking in a simpler way.",
+  chatRecitationBlocked: "I cannot quote that text directly due to copyright limits. I can summarize it instead.",
+  chatEmptyReply: "I received a response but couldn't understand it (Empty Text). Please try again.",
+  chatNoReply: "I'm sorry, I couldn't understand that completely (No Candidate).",
+  typing: "Typing...",
+  sendMessage: "Send message",
+  startVoiceChat: "Start Voice Chat",
+  endVoiceChat: "End Voice Chat",
+  stopGenerating: "Stop answering",
+  callTranscriptTitle: "Voice call",
+  callInProgress: "Call in progress",
+  callSummary: "Call summary",
+  callStarted: "Started {date}",
+  callDuration: "Length",
+  callYourTurns: "You spoke",
+  callAnswers: "Answers",
+  callInterruptedCount: "Interrupted",
+  callInterrupted: "interrupted",
+  callSpeakerYou: "You",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "Show transcript",
+  exportTranscriptText: "Save as text",
+  exportTranscriptJson: "Save as JSON",
+  callActionsCount: "Actions",
+  voiceActionCheckDocument: "Checked off: {target}",
+  voiceActionUncheckDocument: "Unchecked: {target}",
+  voiceActionHighlightTerm: "Showed the term: {target}",
+  voiceActionAddReminder: "Reminder added: {target}",
+  voiceActionOpenForm: "Opened form {target}",
+  replyStopped: "Answer stopped.",
+  historyTitle: "My documents",
+  historySubtitle: "Documents you analyzed on this device. Open one to continue where you left off.",
+  historyBack: "Back",
+  historyLoading: "Loading your documents...",
+  historyEmpty: "No saved documents yet. Documents you analyze will appear here.",
+  historyUntitled: "Immigration document",
+  historyOpened: "Last opened {date}",
+  historyPages: "{count} page(s)",
+  historyQuestions: "{count} question(s)",
+  historyOpen: "Open",
+  historyDelete: "Delete",
+  historyDeleteConfirm: "Delete \"{title}\" and its chat from this device?",
+  historyPrivacy: "Saved only in this browser. Nothing is uploaded to store your history.",
+  historyCases: "Your cases",
+  glossaryNav: "Glossary",
+  glossaryPageTitle: "Immigration glossary",
+  glossaryPageSubtitle: "Plain-language definitions of common immigration terms. Works offline: nothing is sent anywhere.",
+  glossarySearchLabel: "Search terms",
+  glossarySearchPlaceholder: "Search, e.g. RFE or priority date",
+  glossaryNoResults: "No terms match \"{query}\".",
+  glossaryAlsoCalled: "Also called: {names}",
+  glossaryInEnglish: "In English",
+  glossaryEnglishOnly: "Some definitions are not translated yet and are shown in English.",
+  glossaryVerified: "Verified",
+  glossaryVerifiedHint: "Definition from PathFinder's reviewed dictionary",
+  glossaryVersion: "Dictionary version {version} · {count} terms",
+  printSummary: "Print summary",
+  downloadPdf: "Download PDF",
+  preparingPdf: "Preparing PDF...",
+  exportError: "The summary could not be created. Please try again.",
+  summaryCreated: "Summary created with PathFinder on {date}.",
+  caseTimeline: "Case timeline",
+  caseTimelineTooltip: "Letters you saved with the same receipt number, in the order USCIS sent them.",
+  timelineThisDocument: "this letter",
+  timelineNoDate: "Date not printed",
+  timelineNext: "What usually comes next",
+  timelineOr: "or",
+  timelineCurrentStage: "Current step",
+  noticeStages: {
+    RECEIPT: "Case received",
+    BIOMETRICS: "Biometrics appointment",
+    RFE: "Request for more evidence",
+    INTERVIEW: "Interview",
+    APPROVAL: "Approved",
+    DENIAL: "Denied",
+    CARD_PRODUCED: "Card being produced",
+    OTHER: "Other notice"
+  },
+  noticeStageNext: {
+    RECEIPT: "USCIS has your application. Most people get a biometrics appointment letter in the next few weeks. Keep this receipt number to check your case status online.",
+    BIOMETRICS: "After your fingerprints are taken, USCIS reviews the case. Next you may get an interview notice, a request for more evidence, or a decision.",
+    RFE: "USCIS needs more information before deciding. Send everything they asked for before the deadline; a decision or interview usually follows after they receive it.",
+    INTERVIEW: "After the interview, the officer may approve the case, ask for more evidence, or send a decision by mail.",
+    APPROVAL: "Your case was approved. If it comes with a card, you will usually get a card production notice and then the card by mail.",
+    DENIAL: "Your case was denied. Read the letter carefully: it explains why and whether you can appeal or file a motion, often with a short deadline. Talk to an immigration attorney soon.",
+    CARD_PRODUCED: "Your card is being made or was mailed. Make sure USCIS has your current address so it arrives.",
+    OTHER: "Save the next letter you receive for this receipt number to see your case progress here."
+  },
+  
+  // Live Chat
+  liveConnecting: "Connecting...",
+  liveListening: "Listening...",
+  liveError: "Error",
+  liveTitle: "PathFinder Live",
+  liveEstablishing: "Establishing secure link...",
+  liveConnectionFailed: "Connection failed. Please try again.",
+  liveReconnecting: "Reconnecting...",
+  liveReconnectingDetail: "Connection lost. Picking up where you left off...",
+  liveQualityGood: "Good connection",
+  liveQualityPoor: "Weak connection",
+  liveErrorMicDenied: "Microphone access is blocked. Allow it in your browser settings and try again.",
+  liveErrorNetwork: "The connection was lost. Check your internet and try again.",
+  liveErrorQuota: "The voice service is busy right now. Please wait a minute and try again.",
+  liveErrorAuth: "The voice service could not sign in. Please try again later.",
+  endCall: "End Call",
+  
+  // Live Voice System Prompt Context
+  liveSystemPrompt: "IMPORTANT: Speak in English unless the user speaks another language. Keep responses conversational.",
+};
+
+export type Translation = typeof en;
+
+// A partial translation: missing keys (including missing entries in nested groups) show in English
+export type LocaleOverrides = {
+  [K in keyof Translation]?: Translation[K] extends string | string[] ? Translation[K] : Partial<Translation[K]>;
+};
@@ -0,0 +1,286 @@
+import { Translation } from './en';
+
+export const es: Translation = {
+  // App Header & Intro
+  appTitle: "PathFinder",
+  subtitle: "Asistente de Inmigración con IA",
+  headlinePart1: "Entienda sus cartas de USCIS, ",
+  headlinePart2: "al instante",
+  description: "Suba una foto o PDF. Traduciremos la terminología legal a un lenguaje humano sencillo y responderemos sus preguntas para que sepa exactamente qué hacer.",
+  
+  // Upload Area
+  uploadTitle: "Subir un documento",
+  uploadSubtitle: "PDF, JPG, o PNG (Max 10MB)",
+  selectFile: "Seleccionar Archivo",
+  takePhoto: "Tomar Foto",
+  readingDoc: "Leyendo su documento...",
+  loadingSteps: [
+    "Escaneando documento...",
+    "Traduciendo términos legales...",
+    "Preparando resumen...",
+    "Simplificando..."
+  ],
+  patientMessage: "Por favor tenga paciencia, estoy analizando cuidadosamente cada detalle para asegurar la precisión. Esto puede tomar un momento.",
+  analyzeNow: "Analizar Ahora",
+  removeFile: "Eliminar archivo",
+  packetTitle: "Su documento ({count} páginas)",
+  packetHint: "¿Fotografió una carta página por página? Agregue todas las páginas y póngalas en orden antes de analizar.",
+  pageLabel: "Página {n}",
+  viewDocument: "Ver documento",
+  viewSummary: "Resumen",
+  documentViewerTitle: "Su documento",
+  closeDocument: "Cerrar documento",
+  showPage: "Mostrar la página {n} del documento",
+  previousPage: "Página anterior",
+  nextPage: "Página siguiente",
+  viewerPageOf: "Página {n} de {total}",
+  zoomIn: "Acercar",
+  zoomOut: "Alejar",
+  zoomFit: "Ajustar al ancho",
+  rotatePage: "Girar",
+  viewerLoading: "Abriendo documento…",
+  viewerError: "No se pudo mostrar este documento.",
+  viewerHint: "Arrastre para moverse. Pellizque o use Ctrl + rueda para hacer zoom.",
+  addPage: "Agregar otra página",
+  movePageUp: "Subir página",
+  movePageDown: "Bajar página",
+  removePage: "Eliminar página",
+  errorTooManyPages: "Puede agregar hasta {max} páginas por documento.",
+  errorGeneric: "No pudimos analizar ese documento. Intente con una imagen clara o PDF de un formulario de USCIS.",
+  errorNotImmigrationDoc: "Error: por favor suba un documento válido de USCIS o relacionado.",
+  errorInvalidResponse: "El análisis llegó incompleto. Por favor inténtelo de nuevo en un momento.",
+  errorRateLimited: "Demasiadas solicitudes en este momento. Espere un minuto e inténtelo de nuevo.",
+  errorTooLarge: "Estos archivos son demasiado grandes para analizarlos juntos. Pruebe con menos páginas o fotos más pequeñas.",
+  errorTranslation: "No pudimos traducir este resumen ahora. Por favor inténtelo de nuevo.",
+  translating: "Traduciendo su resumen...",
+  cachedResultNotice: "Este documento ya se analizó antes, así que cargamos el análisis guardado.",
+  reanalyze: "Volver a analizar de todos modos",
+  reanalyzing: "Analizando el documento de nuevo...",
+  readAloud: "Leer en voz alta",
+  pauseReading: "Pausar",
+  resumeReading: "Continuar",
+  stopReading: "Dejar de leer",
+  readingSpeed: "Velocidad de lectura",
+  readAloudLoading: "Cargando voz...",
+  errorInvalidFileType: "Tipo de archivo no válido. Use PDF o Imagen.",
+  errorProcessFile: "No se pudo procesar el archivo. Por favor inténtelo de nuevo.",
+  errorTitle: "¡Ups!",
+  tryAgain: "Intentar de Nuevo",
+  uploadAreaLabel: "Área para subir documentos",
+  languageLabel: "Idioma",
+  
+  // Mission
+  missionTitle: "¿Por qué existe PathFinder?",
+  missionBody1: "Descifrar el camino hacia una nueva vida ya es un acto de inmensa valentía; no debería definirse por el miedo al papeleo. Para innumerables familias, la esperanza de un nuevo comienzo a menudo se ve ensombrecida por la ansiedad de cartas gubernamentales complejas, donde un solo término malentendido puede sentirse como una barrera para su futuro.",
+  missionBody2: "Este proyecto nació de una comprensión profunda y personal del silencio y el estrés. Creo que la tranquilidad no debería ser un lujo reservado solo para aquellos que pueden pagar costosos consejos legales.",
+  missionBody3: "Construí esta aplicación para ofrecer una mano amiga a cualquiera que se sienta perdido en el proceso. El objetivo: asegurar que la claridad, el consuelo y la comprensión sean accesibles para todos, para que nadie tenga que enfrentar estos documentos solo.",
+  
+  // FAQ
+  faqTitle: "Preguntas Frecuentes y Consejos",
+  faqQ1: "¿PathFinder no reconoce mi documento?",
+  faqA1: "Intente actualizar la página y volver a subir el archivo. Asegúrese de que la foto tenga buena luz. Si persiste, es posible que el tipo de documento aún no sea compatible.",
+  faqQ2: "¿Están seguros mis datos?",
+  faqA2: "Sí. Sus documentos se procesan de forma segura en la memoria de Google Gemini y no se almacenan permanentemente en nuestros servidores.",
+  faqQ3: "¿Puedo usar esto para asesoría legal?",
+  faqA3: "No. PathFinder es solo una herramienta informativa. No puede brindar asesoramiento legal. Consulte siempre a un abogado de inmigración acreditado.",
+  faqQ4: "¿Cómo obtengo los mejores resultados?",
+  faqA4: "Para un mejor análisis, suba un PDF digital o una foto tomada directamente desde arriba con buena iluminación. Evite sombras o ángulos borrosos.",
+
+  // Footer
+  poweredBy: "Impulsado por Google Gemini. Privado y Seguro.",
+  disclaimer: "PathFinder es un asistente de IA, no un abogado. Esto es solo para fines informativos.",
+
+  // Analysis View
+  docAnalysis: "Análisis del Documento",
+  save: "Guardar",
+  saved: "¡Guardado!",
+  goodNews: "¡Buenas Noticias!",
+  actionRequired: "Acción Requerida",
+  neutralUpdate: "Actualización Neutral",
+  analysisComplete: "Análisis Completo",
+  whatIsThis: "¿Qué es esto?",
+  whatIsThisTooltip: "Una explicación simplificada de qué es este documento y por qué lo recibió.",
+  todoTitle: "Tareas y Fecha Límite",
+  todoTooltip: "Pasos procesables que debe tomar y fechas críticas para recordar.",
+  caseDetails: "Detalles del Caso",
+  caseDetailsTooltip: "Los números y nombres que identifican su caso. Téngalos a mano cuando llame a USCIS o revise el estado de su caso en línea.",
+  receiptNumber: "Número de recibo",
+  receiptNumberInvalid: "No coincide con el formato habitual (3 letras + 10 dígitos). Compárelo con su carta.",
+  aNumber: "Número A",
+  aNumberInvalid: "Los números A suelen tener 8 o 9 dígitos. Compárelo con su carta.",
+  priorityDate: "Fecha de prioridad",
+  noticeDate: "Fecha del aviso",
+  serviceCenter: "Centro de servicio",
+  beneficiary: "Beneficiario",
+  petitioner: "Peticionario",
+  copy: "Copiar",
+  copyAll: "Copiar todo",
+  copied: "¡Copiado!",
+  tasksProgress: "{done} de {total} completados",
+  taskNeeds: "Necesita:",
+  noActionItems: "No hay nada que deba hacer en este momento.",
+  requiredDocs: "Documentos Requeridos",
+  requiredDocsTooltip: "Una lista de verificación de documentos de respaldo o evidencia mencionados en el formulario que puede necesitar proporcionar.",
+  due: "Vence:",
+  deadlinesTitle: "Fechas Importantes",
+  deadlinesTooltip: "Cada fecha de su documento en la que debe actuar o presentarse, con el tiempo que le queda.",
+  deadlineTypes: {
+    RESPOND_BY: "Responder antes de",
+    APPOINTMENT: "Cita",
+    EXPIRY: "Vence",
+    HEARING: "Audiencia"
+  },
+  daysRemaining: "Quedan {days} días",
+  oneDayRemaining: "Queda 1 día",
+  dueToday: "Hoy",
+  daysPast: "Hace {days} días",
+  deadlinePast: "Vencida",
+  deadlineSoon: "Menos de 2 semanas",
+  deadlineEstimated: "Estimada",
+  deadlineEstimatedTooltip: "Esta fecha se calculó a partir de la carta, no está impresa en ella. Verifíquela.",
+  deadlineUnknownDate: "Fecha no clara",
+  addToCalendar: "Agregar al calendario",
+  addToCalendarHint: "Descargue un archivo de calendario con recordatorios 30, 7 y 1 día antes de cada fecha.",
+  remindMe: "Recordarme",
+  reminderAdded: "Recordatorio agregado",
+  remindMeHint: "Descargue un recordatorio de calendario para esta fecha.",
+  calendarFromLetter: "De su carta:",
+  calendarWhatToDo: "Lo que debe hacer:",
+  calendarReminder: "Recordatorio: {event}",
+  example: "Ejemplo",
+  noExample: "No se requieren ejemplos específicos.",
+  noRequiredDocs: "La carta no menciona documentos específicos.",
+  simpleDefinitions: "Definiciones Simples",
+  keyFindings: "Hallazgos Clave",
+  keyFindingsTooltip: "Los detalles más importantes de su documento y la página donde aparece cada uno.",
+  uploadDifferent: "Subir un documento diferente",
+  
+  // Supplemental Docs Checklist
+  supplementalTitle: "Evidencia de Respaldo Común (Lista de Verificación)",
+  supplementalDocs: [
+    "Certificado de Matrimonio Civil",
+    "Certificados de Nacimiento (Forma Larga)",
+    "Prueba de Activos Conjuntos (Cuentas, Contratos)",
+    "Fotos juntos (con fechas y lugares)",
+    "Declaraciones Juradas de amigos/familia",
+    "Pasaporte / Documentos de Viaje"
+  ],
+
+  // Chat
+  chatTitle: "Chatear con PathFinder",
+  chatSubtitle: "Haga preguntas específicas sobre su formulario",
+  typeQuestion: "Escriba su pregunta...",
+  verifiedSources: "Fuentes Verificadas:",
+  chatWaiting: "Espere un momento mientras leo los detalles de su documento para preparar nuestro chat... 🧐",
+  chatReady: "He terminado de leer su documento. ¡Siéntase libre de hacerme preguntas específicas al respecto, o puedo buscar las últimas tarifas y tiempos de procesamiento de USCIS para usted!",
+  chatError: "Tuve problemas para leer el documento para el chat, pero todavía estoy aquí para responder preguntas generales.",
+  chatConnectError: "Tengo problemas para conectarme en este momento. Por favor inténtelo de nuevo.",
+  chatSafetyBlocked: "No puedo responder eso porque activó un filtro de seguridad. Esto a veces pasa con documentos legales que mencionan sanciones. Intente preguntar de una forma más sencilla.",
+  chatRecitationBlocked: "No puedo citar ese texto directamente por límites de derechos de autor. Puedo resumirlo en su lugar.",
+  chatEmptyReply: "Recibí una respuesta pero no pude entenderla (texto vacío). Por favor inténtelo de nuevo.",
+  chatNoReply: "Lo siento, no pude entender eso completamente (sin respuesta).",
+  typing: "Escribiendo...",
+  sendMessage: "Enviar mensaje",
+  startVoiceChat: "Iniciar chat de voz",
+  endVoiceChat: "Terminar chat de voz",
+  stopGenerating: "Detener respuesta",
+  callTranscriptTitle: "Llamada de voz",
+  callInProgress: "Llamada en curso",
+  callSummary: "Resumen de la llamada",
+  callStarted: "Comenzó el {date}",
+  callDuration: "Duración",
+  callYourTurns: "Usted habló",
+  callAnswers: "Respuestas",
+  callInterruptedCount: "Interrumpidas",
+  callInterrupted: "interrumpida",
+  callSpeakerYou: "Usted",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "Ver transcripción",
+  exportTranscriptText: "Guardar como texto",
+  exportTranscriptJson: "Guardar como JSON",
+  callActionsCount: "Acciones",
+  voiceActionCheckDocument: "Marcado: {target}",
+  voiceActionUncheckDocument: "Desmarcado: {target}",
+  voiceActionHighlightTerm: "Término mostrado: {target}",
+  voiceActionAddReminder: "Recordatorio agregado: {target}",
+  voiceActionOpenForm: "Formulario {target} abierto",
+  replyStopped: "Respuesta detenida.",
+  historyTitle: "Mis documentos",
+  historySubtitle: "Documentos que analizó en este dispositivo. Abra uno para continuar donde lo dejó.",
+  historyBack: "Volver",
+  historyLoading: "Cargando sus documentos...",
+  historyEmpty: "Todavía no hay documentos guardados. Los documentos que analice aparecerán aquí.",
+  historyUntitled: "Documento de inmigración",
+  historyOpened: "Abierto por última vez el {date}",
+  historyPages: "{count} página(s)",
+  historyQuestions: "{count} pregunta(s)",
+  historyOpen: "Abrir",
+  historyDelete: "Eliminar",
+  historyDeleteConfirm: "¿Eliminar \"{title}\" y su chat de este dispositivo?",
+  historyPrivacy: "Guardado solo en este navegador. No se sube nada para guardar su historial.",
+  historyCases: "Sus casos",
+  glossaryNav: "Glosario",
+  glossaryPageTitle: "Glosario de inmigración",
+  glossaryPageSubtitle: "Definiciones sencillas de términos comunes de inmigración. Funciona sin conexión: no se envía nada.",
+  glossarySearchLabel: "Buscar términos",
+  glossarySearchPlaceholder: "Buscar, p. ej. RFE o fecha de prioridad",
+  glossaryNoResults: "Ningún término coincide con \"{query}\".",
+  glossaryAlsoCalled: "También llamado: {names}",
+  glossaryInEnglish: "En inglés",
+  glossaryEnglishOnly: "Algunas definiciones aún no están traducidas y se muestran en inglés.",
+  glossaryVerified: "Verificado",
+  glossaryVerifiedHint: "Definición del diccionario revisado de PathFinder",
+  glossaryVersion: "Versión del diccionario {version} · {count} términos",
+  printSummary: "Imprimir resumen",
+  downloadPdf: "Descargar PDF",
+  preparingPdf: "Preparando PDF...",
+  exportError: "No se pudo crear el resumen. Por favor inténtelo de nuevo.",
+  summaryCreated: "Resumen creado con PathFinder el {date}.",
+  caseTimeline: "Línea de tiempo del caso",
+  caseTimelineTooltip: "Cartas guardadas con el mismo número de recibo, en el orden en que USCIS las envió.",
+  timelineThisDocument: "esta carta",
+  timelineNoDate: "Fecha no impresa",
+  timelineNext: "Lo que suele venir después",
+  timelineOr: "o",
+  timelineCurrentStage: "Paso actual",
+  noticeStages: {
+    RECEIPT: "Caso recibido",
+    BIOMETRICS: "Cita de datos biométricos",
+    RFE: "Solicitud de más evidencia",
+    INTERVIEW: "Entrevista",
+    APPROVAL: "Aprobado",
+    DENIAL: "Denegado",
+    CARD_PRODUCED: "Tarjeta en producción",
+    OTHER: "Otro aviso"
+  },
+  noticeStageNext: {
+    RECEIPT: "USCIS tiene su solicitud. La mayoría de las personas recibe una carta de cita biométrica en las próximas semanas. Guarde este número de recibo para consultar el estado de su caso en línea.",
+    BIOMETRICS: "Después de tomar sus huellas, USCIS revisa el caso. Luego puede recibir un aviso de entrevista, una solicitud de más evidencia o una decisión.",
+    RFE: "USCIS necesita más información antes de decidir. Envíe todo lo que pidieron antes de la fecha límite; después de recibirlo suele llegar una decisión o una entrevista.",
+    INTERVIEW: "Después de la entrevista, el oficial puede aprobar el caso, pedir más evidencia o enviar una decisión por correo.",
+    APPROVAL: "Su caso fue aprobado. Si incluye una tarjeta, normalmente recibirá un aviso de producción de tarjeta y luego la tarjeta por correo.",
+    DENIAL: "Su caso fue denegado. Lea la carta con cuidado: explica por qué y si puede apelar o presentar una moción, a menudo con un plazo corto. Hable pronto con un abogado de inmigración.",
+    CARD_PRODUCED: "Su tarjeta se está fabricando o ya fue enviada. Asegúrese de que USCIS tenga su dirección actual para que le llegue.",
+    OTHER: "Guarde la próxima carta que reciba con este número de recibo para ver aquí el progreso de su caso."
+  },
+
+  // Live Chat
+  liveConnecting: "Conectando...",
+  liveListening: "Escuchando...",
+  liveError: "Error",
+  liveTitle: "PathFinder en Vivo",
+  liveEstablishing: "Estableciendo conexión segura...",
+  liveConnectionFailed: "La conexión falló. Por favor inténtelo de nuevo.",
+  liveReconnecting: "Reconectando...",
+  liveReconnectingDetail: "Se perdió la conexión. Retomando donde se quedó...",
+  liveQualityGood: "Buena conexión",
+  liveQualityPoor: "Conexión débil",
+  liveErrorMicDenied: "El acceso al micrófono está bloqueado. Permítalo en la configuración del navegador e inténtelo de nuevo.",
+  liveErrorNetwork: "Se perdió la conexión. Revise su internet e inténtelo de nuevo.",
+  liveErrorQuota: "El servicio de voz está ocupado en este momento. Espere un minuto e inténtelo de nuevo.",
+  liveErrorAuth: "El servicio de voz no pudo iniciar sesión. Inténtelo de nuevo más tarde.",
+  endCall: "Terminar llamada",
+  
+  // Live Voice System Prompt Context
+  liveSystemPrompt: "IMPORTANTE: Hable en ESPAÑOL. Mantenga las respuestas conversacionales.",
+};
@@ -0,0 +1,277 @@
+import { LocaleOverrides } from './en';
+
+export const ht: LocaleOverrides = {
+  // App Header & Intro
+  subtitle: "Asistan Imigrasyon ak IA",
+  headlinePart1: "Konprann lèt USCIS ou yo, ",
+  headlinePart2: "touswit",
+  description: "Voye yon foto oswa yon PDF. N ap tradui langaj legal la an pawòl senp epi reponn kesyon ou yo, pou w konnen egzakteman sa pou w fè.",
+
+  // Upload Area
+  uploadTitle: "Voye yon dokiman",
+  uploadSubtitle: "PDF, JPG, oswa PNG (Maksimòm 10MB)",
+  selectFile: "Chwazi Fichye",
+  takePhoto: "Pran Foto",
+  readingDoc: "N ap li dokiman ou...",
+  loadingSteps: [
+    "N ap eskane dokiman an...",
+    "N ap tradui langaj legal la...",
+    "N ap prepare rezime a...",
+    "N ap senplifye..."
+  ],
+  patientMessage: "Tanpri pran pasyans, m ap analize chak detay avèk atansyon pou m asire m tout bagay kòrèk.",
+  analyzeNow: "Analize Kounye a",
+  removeFile: "Retire fichye a",
+  packetTitle: "Dokiman ou ({count} paj)",
+  packetHint: "Ou te pran foto lèt la paj pa paj? Ajoute tout paj yo epi mete yo nan lòd anvan w analize.",
+  pageLabel: "Paj {n}",
+  viewDocument: "Gade dokiman an",
+  viewSummary: "Rezime",
+  documentViewerTitle: "Dokiman ou",
+  closeDocument: "Fèmen dokiman an",
+  showPage: "Montre paj {n} nan dokiman an",
+  previousPage: "Paj anvan",
+  nextPage: "Paj apre",
+  viewerPageOf: "Paj {n} sou {total}",
+  zoomIn: "Grosi",
+  zoomOut: "Rapetise",
+  zoomFit: "Ajiste ak lajè a",
+  rotatePage: "Vire",
+  viewerLoading: "N ap louvri dokiman an…",
+  viewerError: "Nou pa t ka afiche dokiman sa a.",
+  viewerHint: "Trennen pou deplase. Pense ak de dwèt oswa Ctrl + wou pou zoome.",
+  addPage: "Ajoute yon lòt paj",
+  movePageUp: "Monte paj la",
+  movePageDown: "Desann paj la",
+  removePage: "Retire paj la",
+  errorTooManyPages: "Ou ka ajoute jiska {max} paj pou chak dokiman.",
+  errorGeneric: "Nou pa t ka analize dokiman sa a. Eseye yon imaj klè oswa yon PDF yon fòm USCIS.",
+  errorNotImmigrationDoc: "Erè: tanpri voye yon dokiman USCIS oswa yon dokiman imigrasyon ki valab.",
+  errorInvalidResponse: "Analiz la pa t konplè. Tanpri eseye ankò nan yon ti moman.",
+  errorRateLimited: "Twòp demann kounye a. Tanpri tann yon minit epi eseye ankò.",
+  errorTooLarge: "Fichye sa yo twò gwo pou analize ansanm. Eseye mwens paj oswa foto ki pi piti.",
+  errorTranslation: "Nou pa t kapab tradui rezime sa a kounye a. Tanpri eseye ankò.",
+  translating: "N ap tradui rezime ou a...",
+  cachedResultNotice: "Nou te deja analize dokiman sa a, kidonk nou chaje analiz ki te sove a.",
+  reanalyze: "Analize l ankò kanmenm",
+  reanalyzing: "N ap analize dokiman an ankò...",
+  readAloud: "Li awotvwa",
+  pauseReading: "Poz",
+  resumeReading: "Kontinye",
+  stopReading: "Sispann li",
+  readingSpeed: "Vitès lekti",
+  readAloudLoading: "N ap chaje vwa a...",
+  errorInvalidFileType: "Kalite fichye sa a pa valab. Tanpri itilize PDF oswa yon imaj.",
+  errorProcessFile: "Nou pa t ka trete fichye a. Tanpri eseye ankò.",
+  errorTitle: "Oups!",
+  tryAgain: "Eseye Ankò",
+  uploadAreaLabel: "Zòn pou voye dokiman",
+  languageLabel: "Lang",
+  missionTitle: "Poukisa PathFinder Egziste",
+  missionBody1: "Chèche chemen pou yon nouvo lavi deja se yon gwo zak kouraj, li pa ta dwe defini pa laperèz papye. Pou anpil fanmi, espwa yon nouvo kòmansman souvan kache dèyè enkyetid lèt gouvènman konplike yo, kote yon sèl mo ou pa byen konprann ka sanble yon baryè pou avni yo.",
+  missionBody2: "Pwojè sa a fèt akòz yon konpreyansyon pwofon e pèsonèl de silans ak estrès sa a. Mwen kwè trankilite lespri pa ta dwe yon liks ki rezève sèlman pou moun ki ka peye konsèy legal ki koute chè.",
+  missionBody3: "Mwen konstwi aplikasyon sa a pou m bay yon kout men a nenpòt moun ki santi yo pèdi nan pwosesis la. Objektif la: fè klète, konfò ak konpreyansyon disponib pou tout moun, pou pèsonn pa oblije fè fas ak dokiman sa yo pou kont yo.",
+  faqTitle: "Kesyon yo Poze Souvan ak Konsèy",
+  faqQ1: "PathFinder pa rekonèt dokiman mwen an?",
+  faqA1: "Tanpri rafrechi paj la epi voye fichye a ankò. Asire w foto a gen ase limyè e tèks la klè. Si pwoblèm nan kontinye, kalite dokiman sa a ka poko sipòte.",
+  faqQ2: "Èske done pèsonèl mwen an sekirite?",
+  faqA2: "Wi. Google Gemini trete dokiman ou yo an sekirite nan memwa, epi yo pa sere pou tout tan sou sèvè nou yo. Vi prive ou se priyorite nou.",
+  faqQ3: "Èske m ka itilize sa a pou konsèy legal?",
+  faqA3: "Non. PathFinder se sèlman yon zouti enfòmasyon. Li eksplike dokiman men li pa ka bay konsèy legal. Toujou konsilte yon avoka imigrasyon ki akredite pou desizyon legal.",
+  faqQ4: "Kijan pou m jwenn pi bon rezilta?",
+  faqA4: "Pou pi bon analiz, voye yon PDF dijital oswa yon foto ou pran dirèkteman anwo dokiman an ak anpil limyè. Evite lonbraj oswa ang ki twoub.",
+  poweredBy: "Se Google Gemini ki fè l mache. Prive & An Sekirite.",
+
+  // Footer
+  disclaimer: "PathFinder se yon asistan IA, li pa yon avoka. Enfòmasyon sa yo se sèlman pou enfòme w.",
+
+  // Analysis View
+  docAnalysis: "Analiz Dokiman",
+  save: "Sove",
+  saved: "Sove!",
+  goodNews: "Bon Nouvèl!",
+  actionRequired: "Ou Dwe Aji",
+  neutralUpdate: "Nouvèl Nòmal",
+  analysisComplete: "Analiz la Fini",
+  whatIsThis: "Kisa sa a ye?",
+  whatIsThisTooltip: "Yon eksplikasyon senp sou kisa dokiman sa a ye ak poukisa ou resevwa l.",
+  todoTitle: "Sa pou w Fè ak Dat Limit",
+  todoTooltip: "Etap ou dwe fè ak dat enpòtan ou dwe sonje.",
+  caseDetails: "Detay Dosye a",
+  caseDetailsTooltip: "Nimewo ak non ki idantifye dosye ou. Kenbe yo sou ou lè w ap rele USCIS oswa lè w ap tcheke sitiyasyon dosye ou sou entènèt.",
+  receiptNumber: "Nimewo resi",
+  receiptNumberInvalid: "Sa pa koresponn ak fòma abityèl la (3 lèt + 10 chif). Konpare l ak lèt ou a.",
+  aNumber: "Nimewo A",
+  aNumberInvalid: "Nimewo A gen 8 oswa 9 chif anjeneral. Konpare l ak lèt ou a.",
+  priorityDate: "Dat priyorite",
+  noticeDate: "Dat avi a",
+  serviceCenter: "Sant sèvis",
+  beneficiary: "Benefisyè",
+  petitioner: "Petisyonè",
+  copy: "Kopye",
+  copyAll: "Kopye tout",
+  copied: "Kopye!",
+  tasksProgress: "{done} sou {total} fini",
+  taskNeeds: "Bezwen:",
+  noActionItems: "Ou pa bezwen fè anyen kounye a.",
+  requiredDocs: "Dokiman ki Nesesè",
+  requiredDocsTooltip: "Yon lis dokiman oswa prèv yo mansyone nan fòm nan ke ou ka bezwen bay.",
+  due: "Dat limit:",
+  deadlinesTitle: "Dat Enpòtan",
+  deadlinesTooltip: "Chak dat nan dokiman ou kote ou dwe aji oswa prezante, ak konbyen tan ki rete.",
+  deadlineTypes: {
+    RESPOND_BY: "Reponn anvan",
+    APPOINTMENT: "Randevou",
+    EXPIRY: "Ekspire",
+    HEARING: "Odyans"
+  },
+  daysRemaining: "{days} jou ki rete",
+  oneDayRemaining: "1 jou ki rete",
+  dueToday: "Jodi a",
+  daysPast: "Sa gen {days} jou",
+  deadlinePast: "Pase",
+  deadlineSoon: "Mwens pase 2 semèn",
+  deadlineEstimated: "Estimasyon",
+  deadlineEstimatedTooltip: "Dat sa a te kalkile apati lèt la, li pa ekri sou li. Verifye l ankò.",
+  deadlineUnknownDate: "Dat la pa klè",
+  addToCalendar: "Ajoute nan kalandriye",
+  addToCalendarHint: "Telechaje yon fichye kalandriye ak rapèl 30, 7 ak 1 jou anvan chak dat.",
+  remindMe: "Raple m",
+  reminderAdded: "Rapèl ajoute",
+  remindMeHint: "Telechaje yon rapèl kalandriye pou dat sa a.",
+  calendarFromLetter: "Nan lèt ou a:",
+  calendarWhatToDo: "Sa ou dwe fè:",
+  calendarReminder: "Rapèl: {event}",
+  example: "Egzanp",
+  noExample: "Pa gen egzanp espesyal ki nesesè.",
+  noRequiredDocs: "Lèt la pa bay okenn dokiman espesyal.",
+  simpleDefinitions: "Definisyon Senp",
+  keyFindings: "Pwen Enpòtan",
+  keyFindingsTooltip: "Detay ki pi enpòtan nan dokiman ou ak paj kote chak parèt.",
+  uploadDifferent: "Voye yon lòt dokiman",
+  supplementalTitle: "Prèv Sipò Komen (Lis)",
+  supplementalDocs: [
+    "Sètifika maryaj sivil",
+    "Ak nesans (vèsyon konplè)",
+    "Prèv byen ansanm (kont labank, kontra lwaye)",
+    "Foto ansanm (ak dat & kote)",
+    "Deklarasyon sèman zanmi/fanmi",
+    "Paspò / Dokiman vwayaj"
+  ],
+
+  // Chat
+  chatTitle: "Pale ak PathFinder",
+  chatSubtitle: "Poze kesyon presi sou fòm ou a",
+  typeQuestion: "Ekri kesyon ou...",
+  verifiedSources: "Sous Verifye:",
+  chatWaiting: "Tanpri tann yon ti moman pandan m ap li detay dokiman ou pou n ka pale...",
+  chatReady: "Mwen fin li dokiman ou. Poze m kesyon presi sou li, oswa mwen ka chèche dènye frè USCIS ak tan tretman yo pou ou!",
+  chatError: "Mwen te gen pwoblèm pou m li dokiman an pou chat la, men mwen la toujou pou reponn kesyon jeneral.",
+  chatConnectError: "Mwen gen pwoblèm koneksyon kounye a. Tanpri eseye ankò.",
+  chatSafetyBlocked: "Mwen pa ka reponn sa paske yon filt sekirite bloke l. Sa rive pafwa ak dokiman legal ki pale de penalite. Tanpri eseye poze kesyon an yon fason ki pi senp.",
+  chatRecitationBlocked: "Mwen pa ka site tèks sa a mo pou mo akòz limit dwa otè. Mwen ka rezime l pito.",
+  chatEmptyReply: "Mwen resevwa yon repons men mwen pa t ka konprann li (tèks vid). Tanpri eseye ankò.",
+  chatNoReply: "Eskize m, mwen pa t ka konprann sa nèt (pa gen repons).",
+  typing: "Ap ekri...",
+  sendMessage: "Voye mesaj",
+  startVoiceChat: "Kòmanse Chat Vokal",
+  endVoiceChat: "Fini Chat Vokal",
+  stopGenerating: "Sispann repons lan",
+  callTranscriptTitle: "Apèl vokal",
+  callInProgress: "Apèl la ap fèt",
+  callSummary: "Rezime apèl la",
+  callStarted: "Te kòmanse {date}",
+  callDuration: "Dire",
+  callYourTurns: "Ou te pale",
+  callAnswers: "Repons",
+  callInterruptedCount: "Koupe",
+  callInterrupted: "koupe",
+  callSpeakerYou: "Ou",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "Montre transkripsyon an",
+  exportTranscriptText: "Sove an tèks",
+  exportTranscriptJson: "Sove an JSON",
+  callActionsCount: "Aksyon",
+  voiceActionCheckDocument: "Make: {target}",
+  voiceActionUncheckDocument: "Retire mak: {target}",
+  voiceActionHighlightTerm: "Montre mo a: {target}",
+  voiceActionAddReminder: "Rapèl ajoute: {target}",
+  voiceActionOpenForm: "Louvri fòm {target}",
+  replyStopped: "Repons lan sispann.",
+  historyTitle: "Dokiman mwen yo",
+  historySubtitle: "Dokiman ou te analize sou aparèy sa a. Louvri youn pou w kontinye kote ou te rive.",
+  historyBack: "Retounen",
+  historyLoading: "N ap chaje dokiman ou yo...",
+  historyEmpty: "Poko gen dokiman ki sove. Dokiman ou analize ap parèt isit la.",
+  historyUntitled: "Dokiman imigrasyon",
+  historyOpened: "Dènye fwa ou louvri l: {date}",
+  historyPages: "{count} paj",
+  historyQuestions: "{count} kesyon",
+  historyOpen: "Louvri",
+  historyDelete: "Efase",
+  historyDeleteConfirm: "Efase \"{title}\" ak chat li sou aparèy sa a?",
+  historyPrivacy: "Li sove sèlman nan navigatè sa a. Anyen pa voye pou sere istwa ou.",
+  historyCases: "Dosye ou yo",
+  glossaryNav: "Glosè",
+  glossaryPageTitle: "Glosè imigrasyon",
+  glossaryPageSubtitle: "Definisyon senp pou tèm imigrasyon yo itilize souvan. Li mache san entènèt: anyen pa voye.",
+  glossarySearchLabel: "Chèche tèm",
+  glossarySearchPlaceholder: "Chèche, pa egzanp RFE oswa dat priyorite",
+  glossaryNoResults: "Pa gen tèm ki koresponn ak \"{query}\".",
+  glossaryAlsoCalled: "Yo rele l tou: {names}",
+  glossaryInEnglish: "An angle",
+  glossaryEnglishOnly: "Gen kèk definisyon ki poko tradui, yo parèt an angle.",
+  glossaryVerified: "Verifye",
+  glossaryVerifiedHint: "Definisyon ki soti nan diksyonè PathFinder revize a",
+  glossaryVersion: "Vèsyon diksyonè {version} · {count} tèm",
+  printSummary: "Enprime rezime a",
+  downloadPdf: "Telechaje PDF",
+  preparingPdf: "N ap prepare PDF la...",
+  exportError: "Nou pa t ka kreye rezime a. Tanpri eseye ankò.",
+  summaryCreated: "Rezime kreye ak PathFinder {date}.",
+  caseTimeline: "Kwonoloji dosye a",
+  caseTimelineTooltip: "Lèt ou sove ki gen menm nimewo resi a, nan lòd USCIS te voye yo.",
+  timelineThisDocument: "lèt sa a",
+  timelineNoDate: "Dat la pa ekri",
+  timelineNext: "Sa ki konn vini apre",
+  timelineOr: "oswa",
+  timelineCurrentStage: "Etap kounye a",
+  noticeStages: {
+    RECEIPT: "Dosye resevwa",
+    BIOMETRICS: "Randevou biyometri",
+    RFE: "Demann plis prèv",
+    INTERVIEW: "Entèvyou",
+    APPROVAL: "Apwouve",
+    DENIAL: "Refize",
+    CARD_PRODUCED: "Kat la ap fèt",
+    OTHER: "Lòt avi"
+  },
+  noticeStageNext: {
+    RECEIPT: "USCIS resevwa demann ou. Pifò moun resevwa yon lèt randevou biyometri nan kèk semèn kap vini yo. Kenbe nimewo resi sa a pou w tcheke sitiyasyon dosye ou sou entènèt.",
+    BIOMETRICS: "Apre yo pran anprent ou, USCIS egzamine dosye a. Apre sa ou ka resevwa yon avi entèvyou, yon demann plis prèv, oswa yon desizyon.",
+    RFE: "USCIS bezwen plis enfòmasyon anvan yo deside. Voye tout sa yo mande anvan dat limit lan; yon desizyon oswa yon entèvyou konn vini apre yo resevwa l.",
+    INTERVIEW: "Apre entèvyou a, ofisye a ka apwouve dosye a, mande plis prèv, oswa voye yon desizyon pa lapòs.",
+    APPROVAL: "Dosye ou apwouve. Si gen yon kat ladan l, anjeneral ou ap resevwa yon avi pwodiksyon kat epi kat la pa lapòs.",
+    DENIAL: "Dosye ou refize. Li lèt la byen: li eksplike poukisa ak si ou ka fè apèl oswa depoze yon mosyon, souvan ak yon dat limit kout. Pale ak yon avoka imigrasyon byen vit.",
+    CARD_PRODUCED: "Kat ou ap fèt oswa yo voye l deja. Asire w USCIS gen adrès ou kounye a pou l ka rive.",
+    OTHER: "Sove pwochen lèt ou resevwa pou nimewo resi sa a pou w wè pwogrè dosye ou isit la."
+  },
+
+  // Live Chat
+  liveConnecting: "N ap konekte...",
+  liveListening: "M ap koute...",
+  liveError: "Erè",
+  liveTitle: "PathFinder an Dirèk",
+  liveEstablishing: "N ap etabli yon koneksyon sekirize...",
+  liveConnectionFailed: "Koneksyon an echwe. Tanpri eseye ankò.",
+  liveReconnecting: "N ap rekonekte...",
+  liveReconnectingDetail: "Koneksyon an koupe. N ap kontinye kote ou te rive...",
+  liveQualityGood: "Bon koneksyon",
+  liveQualityPoor: "Koneksyon fèb",
+  liveErrorMicDenied: "Aksè mikwo a bloke. Pèmèt li nan paramèt navigatè ou epi eseye ankò.",
+  liveErrorNetwork: "Koneksyon an koupe. Tcheke entènèt ou epi eseye ankò.",
+  liveErrorQuota: "Sèvis vokal la okipe kounye a. Tanpri tann yon minit epi eseye ankò.",
+  liveErrorAuth: "Sèvis vokal la pa t ka konekte. Tanpri eseye pita.",
+  endCall: "Fini Apèl la",
+  liveSystemPrompt: "IMPORTANT: Speak in Haitian Creole unless the user speaks another language. Keep responses conversational.",
+};
@@ -0,0 +1,65 @@
+import { Language } from '../types';
+import { en, Translation, LocaleOverrides } from './en';
+import { es } from './es';
+import { ar } from './ar';
+import { ht } from './ht';
+import { vi } from './vi';
+import { zh } from './zh';
+import { tl } from './tl';
+import { isSupportedLanguage } from './languages';
+
+export * from './languages';
+export type { Translation, LocaleOverrides } from './en';
+
+const withFallback = (overrides: LocaleOverrides): Translation => {
+  const merged: Record<string, unknown> = { ...en };
+  Object.entries(overrides).forEach(([key, value]) => {
+    const base = (en as Record<string, unknown>)[key];
+    // Nested groups (e.g. deadlineTypes) merge per entry; strings and lists replace the English value
+    merged[key] = base && typeof base === 'object' && !Array.isArray(base) ? { ...(base as object), ...(value as object) } : value;
+  });
+  return merged as Translation;
+};
+
+export const translations: Record<Language, Translation> = {
+  en,
+  es: withFallback(es),
+  ar: withFallback(ar),
+  ht: withFallback(ht),
+  vi: withFallback(vi),
+  zh: withFallback(zh),
+  tl: withFallback(tl),
+};
+
+// Fill {name} placeholders. Unknown placeholders are left in place so a missing value is easy to spot.
+export const interpolate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+
+const LANGUAGE_STORAGE_KEY = 'pathfinder:language';
+
+// The user's earlier choice, otherwise the first browser language we support, otherwise English
+export const getInitialLanguage = (): Language => {
+  try {
+    const saved = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+    if (isSupportedLanguage(saved)) return saved;
+  } catch (e) {
+    // Storage can be blocked; fall through to the browser setting
+  }
+
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const tag of preferred) {
+    // "zh-Hant-TW" -> "zh", "fil" is the ISO code browsers use for Tagalog
+    const base = (tag || '').toLowerCase().split('-')[0];
+    const code = base === 'fil' ? 'tl' : base;
+    if (isSupportedLanguage(code)) return code;
+  }
+  return 'en';
+};
+
+export const saveLanguage = (language: Language) => {
+  try {
+    localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+  } catch (e) {
+    console.warn("Could not save language preference", e);
+  }
+};
@@ -0,0 +1,30 @@
+import { Language } from '../types';
+
+export interface LanguageInfo {
+  code: Language;
+  // Shown in the language picker, so people can find their own language
+  nativeName: string;
+  // Used in model prompts
+  englishName: string;
+  // BCP 47 tag for speech synthesis voices
+  speechLang: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English', speechLang: 'en-US', dir: 'ltr' },
+  { code: 'es', nativeName: 'Español', englishName: 'Spanish', speechLang: 'es-US', dir: 'ltr' },
+  { code: 'ar', nativeName: 'العربية', englishName: 'Arabic', speechLang: 'ar', dir: 'rtl' },
+  { code: 'ht', nativeName: 'Kreyòl ayisyen', englishName: 'Haitian Creole', speechLang: 'ht-HT', dir: 'ltr' },
+  { code: 'vi', nativeName: 'Tiếng Việt', englishName: 'Vietnamese', speechLang: 'vi-VN', dir: 'ltr' },
+  { code: 'zh', nativeName: '中文', englishName: 'Chinese (Simplified)', speechLang: 'zh-CN', dir: 'ltr' },
+  { code: 'tl', nativeName: 'Tagalog', englishName: 'Tagalog', speechLang: 'fil-PH', dir: 'ltr' },
+];
+
+export const SUPPORTED_LANGUAGES: Language[] = LANGUAGES.map(lang => lang.code);
+
+export const isSupportedLanguage = (value: unknown): value is Language =>
+  SUPPORTED_LANGUAGES.includes(value as Language);
+
+export const getLanguageInfo = (language: Language): LanguageInfo =>
+  LANGUAGES.find(lang => lang.code === language) || LANGUAGES[0];
@@ -0,0 +1,277 @@
+import { LocaleOverrides } from './en';
+
+export const tl: LocaleOverrides = {
+  // App Header & Intro
+  subtitle: "AI na Katulong sa Imigrasyon",
+  headlinePart1: "Unawain ang iyong mga sulat mula sa USCIS, ",
+  headlinePart2: "agad-agad",
+  description: "Mag-upload ng larawan o PDF. Isasalin namin ang legal na wika sa simpleng pananalita at sasagutin ang iyong mga tanong, para malaman mo kung ano mismo ang dapat gawin.",
+
+  // Upload Area
+  uploadTitle: "Mag-upload ng dokumento",
+  uploadSubtitle: "PDF, JPG, o PNG (Hanggang 10MB)",
+  selectFile: "Pumili ng File",
+  takePhoto: "Kumuha ng Larawan",
+  readingDoc: "Binabasa ang iyong dokumento...",
+  loadingSteps: [
+    "Ini-scan ang dokumento...",
+    "Isinasalin ang legal na wika...",
+    "Inihahanda ang buod...",
+    "Pinapasimple..."
+  ],
+  patientMessage: "Mangyaring maghintay, maingat kong sinusuri ang bawat detalye para matiyak na tama ang lahat.",
+  analyzeNow: "Suriin Ngayon",
+  removeFile: "Alisin ang file",
+  packetTitle: "Ang iyong dokumento ({count} pahina)",
+  packetHint: "Kinunan mo ba ng larawan ang sulat nang pahina-pahina? Idagdag ang lahat ng pahina at ayusin ang pagkakasunod-sunod bago suriin.",
+  pageLabel: "Pahina {n}",
+  viewDocument: "Tingnan ang dokumento",
+  viewSummary: "Buod",
+  documentViewerTitle: "Ang iyong dokumento",
+  closeDocument: "Isara ang dokumento",
+  showPage: "Ipakita ang pahina {n} ng dokumento",
+  previousPage: "Nakaraang pahina",
+  nextPage: "Susunod na pahina",
+  viewerPageOf: "Pahina {n} ng {total}",
+  zoomIn: "Palakihin",
+  zoomOut: "Paliitin",
+  zoomFit: "Ikasya sa lapad",
+  rotatePage: "Iikot",
+  viewerLoading: "Binubuksan ang dokumento…",
+  viewerError: "Hindi maipakita ang dokumentong ito.",
+  viewerHint: "I-drag para gumalaw. I-pinch o Ctrl + scroll para mag-zoom.",
+  addPage: "Magdagdag ng isa pang pahina",
+  movePageUp: "Ilipat pataas ang pahina",
+  movePageDown: "Ilipat pababa ang pahina",
+  removePage: "Alisin ang pahina",
+  errorTooManyPages: "Hanggang {max} pahina lang ang maaaring idagdag sa bawat dokumento.",
+  errorGeneric: "Hindi namin masuri ang dokumentong iyon. Subukan ang malinaw na larawan o PDF ng isang form ng USCIS.",
+  errorNotImmigrationDoc: "Error: mangyaring mag-upload ng wastong dokumento ng USCIS o kaugnay na dokumento.",
+  errorInvalidResponse: "Hindi kumpleto ang pagsusuri. Pakisubukang muli mamaya.",
+  errorRateLimited: "Masyadong maraming kahilingan ngayon. Maghintay ng isang minuto at subukang muli.",
+  errorTooLarge: "Masyadong malaki ang mga file na ito para suriin nang sabay. Subukan ang mas kaunting pahina o mas maliliit na larawan.",
+  errorTranslation: "Hindi namin maisalin ang buod na ito ngayon. Pakisubukang muli.",
+  translating: "Isinasalin ang iyong buod...",
+  cachedResultNotice: "Nasuri na ang dokumentong ito dati, kaya ipinakita namin ang naka-save na pagsusuri.",
+  reanalyze: "Suriin pa rin muli",
+  reanalyzing: "Sinusuri muli ang dokumento...",
+  readAloud: "Basahin nang malakas",
+  pauseReading: "I-pause",
+  resumeReading: "Ituloy",
+  stopReading: "Itigil ang pagbasa",
+  readingSpeed: "Bilis ng pagbasa",
+  readAloudLoading: "Nilo-load ang boses...",
+  errorInvalidFileType: "Hindi wastong uri ng file. Gumamit ng PDF o larawan.",
+  errorProcessFile: "Hindi maproseso ang file. Pakisubukang muli.",
+  errorTitle: "Naku!",
+  tryAgain: "Subukang Muli",
+  uploadAreaLabel: "Lugar para mag-upload ng dokumento",
+  languageLabel: "Wika",
+  missionTitle: "Bakit May PathFinder",
+  missionBody1: "Ang paghahanap ng daan tungo sa bagong buhay ay isa nang napakalaking tapang, at hindi ito dapat tukuyin ng takot sa mga papeles. Para sa napakaraming pamilya, ang pag-asa sa bagong simula ay madalas natatabunan ng pangamba sa masasalimuot na sulat mula sa gobyerno, kung saan ang isang salitang hindi naintindihan ay maaaring maramdamang hadlang sa kanilang kinabukasan.",
+  missionBody2: "Nabuo ang proyektong ito mula sa malalim at personal na pag-unawa sa katahimikan at stress na iyon. Naniniwala ako na ang kapanatagan ng loob ay hindi dapat maging luho na para lamang sa mga may kakayahang magbayad ng mamahaling legal na payo.",
+  missionBody3: "Ginawa ko ang app na ito para mag-abot ng tulong sa sinumang naliligaw sa proseso. Ang layunin: gawing abot-kamay ng lahat ang linaw, ginhawa, at pag-unawa, para walang sinuman ang kailangang humarap sa mga dokumentong ito nang mag-isa.",
+  faqTitle: "Mga Madalas Itanong at Payo",
+  faqQ1: "Hindi nakikilala ng PathFinder ang dokumento ko?",
+  faqA1: "Paki-refresh ang pahina at i-upload muli ang file. Siguraduhing maliwanag ang larawan at malinaw ang teksto. Kung magpatuloy ito, maaaring hindi pa suportado ang ganitong uri ng dokumento.",
+  faqQ2: "Ligtas ba ang aking personal na datos?",
+  faqA2: "Oo. Ligtas na pinoproseso ng Google Gemini ang iyong mga dokumento sa memorya at hindi ito permanenteng iniimbak sa aming mga server. Priyoridad namin ang iyong privacy.",
+  faqQ3: "Puwede ko ba itong gamitin bilang legal na payo?",
+  faqA3: "Hindi. Ang PathFinder ay isang kasangkapan para sa impormasyon lamang. Ipinapaliwanag nito ang mga dokumento pero hindi ito makapagbibigay ng legal na payo. Laging kumonsulta sa isang akreditadong abogado sa imigrasyon para sa mga legal na desisyon.",
+  faqQ4: "Paano ako makakakuha ng pinakamagandang resulta?",
+  faqA4: "Para sa pinakamahusay na pagsusuri, mag-upload ng digital na PDF o larawang kinuha mula mismo sa itaas sa maliwanag na lugar. Iwasan ang mga anino o malabong anggulo.",
+  poweredBy: "Pinapagana ng Google Gemini. Pribado at Ligtas.",
+
+  // Footer
+  disclaimer: "Ang PathFinder ay isang AI na katulong, hindi abogado. Para sa impormasyon lamang ito.",
+
+  // Analysis View
+  docAnalysis: "Pagsusuri ng Dokumento",
+  save: "I-save",
+  saved: "Na-save!",
+  goodNews: "Magandang Balita!",
+  actionRequired: "Kailangan ng Aksyon",
+  neutralUpdate: "Karaniwang Abiso",
+  analysisComplete: "Tapos na ang Pagsusuri",
+  whatIsThis: "Ano ito?",
+  whatIsThisTooltip: "Simpleng paliwanag kung ano ang dokumentong ito at kung bakit mo ito natanggap.",
+  todoTitle: "Mga Gagawin at Takdang Petsa",
+  todoTooltip: "Mga hakbang na kailangan mong gawin at mahahalagang petsang dapat tandaan.",
+  caseDetails: "Mga Detalye ng Kaso",
+  caseDetailsTooltip: "Ang mga numero at pangalang tumutukoy sa iyong kaso. Ihanda ang mga ito kapag tumatawag sa USCIS o tumitingin ng status ng kaso online.",
+  receiptNumber: "Numero ng resibo",
+  receiptNumberInvalid: "Hindi ito tugma sa karaniwang format (3 letra + 10 numero). Ikumpara ito sa iyong sulat.",
+  aNumber: "A-Number",
+  aNumberInvalid: "Karaniwang may 8 o 9 na numero ang A-Number. Ikumpara ito sa iyong sulat.",
+  priorityDate: "Priority date",
+  noticeDate: "Petsa ng abiso",
+  serviceCenter: "Service center",
+  beneficiary: "Benepisyaryo",
+  petitioner: "Petisyoner",
+  copy: "Kopyahin",
+  copyAll: "Kopyahin lahat",
+  copied: "Nakopya!",
+  tasksProgress: "{done} sa {total} ang tapos",
+  taskNeeds: "Kailangan:",
+  noActionItems: "Wala kang kailangang gawin sa ngayon.",
+  requiredDocs: "Mga Kinakailangang Dokumento",
+  requiredDocsTooltip: "Listahan ng mga sumusuportang dokumento o ebidensiyang binanggit sa form na maaaring kailangan mong ibigay.",
+  due: "Takdang petsa:",
+  deadlinesTitle: "Mahahalagang Petsa",
+  deadlinesTooltip: "Bawat petsa sa iyong dokumento na kailangan mong kumilos o dumalo, kasama kung gaano katagal pa.",
+  deadlineTypes: {
+    RESPOND_BY: "Sumagot bago",
+    APPOINTMENT: "Appointment",
+    EXPIRY: "Mag-e-expire",
+    HEARING: "Pagdinig"
+  },
+  daysRemaining: "{days} araw na lang",
+  oneDayRemaining: "1 araw na lang",
+  dueToday: "Ngayon",
+  daysPast: "{days} araw na ang nakalipas",
+  deadlinePast: "Lumipas na",
+  deadlineSoon: "Wala pang 2 linggo",
+  deadlineEstimated: "Tantiya",
+  deadlineEstimatedTooltip: "Kinalkula ang petsang ito mula sa sulat, hindi ito nakasulat doon. Suriin itong muli.",
+  deadlineUnknownDate: "Hindi malinaw ang petsa",
+  addToCalendar: "Idagdag sa kalendaryo",
+  addToCalendarHint: "Mag-download ng calendar file na may paalala 30, 7 at 1 araw bago ang bawat petsa.",
+  remindMe: "Paalalahanan ako",
+  reminderAdded: "Naidagdag ang paalala",
+  remindMeHint: "Mag-download ng paalala sa kalendaryo para sa petsang ito.",
+  calendarFromLetter: "Mula sa iyong sulat:",
+  calendarWhatToDo: "Ang kailangan mong gawin:",
+  calendarReminder: "Paalala: {event}",
+  example: "Halimbawa",
+  noExample: "Walang kailangang tiyak na halimbawa.",
+  noRequiredDocs: "Walang tiyak na dokumentong nakalista sa sulat.",
+  simpleDefinitions: "Simpleng Kahulugan",
+  keyFindings: "Mahahalagang Punto",
+  keyFindingsTooltip: "Ang pinakamahahalagang detalye sa iyong dokumento at ang pahina kung saan lumalabas ang bawat isa.",
+  uploadDifferent: "Mag-upload ng ibang dokumento",
+  supplementalTitle: "Karaniwang Sumusuportang Ebidensiya (Checklist)",
+  supplementalDocs: [
+    "Sertipiko ng kasal sibil",
+    "Mga sertipiko ng kapanganakan (buong bersyon)",
+    "Patunay ng magkasamang ari-arian (bank account, upa)",
+    "Mga larawang magkasama (may petsa at lugar)",
+    "Mga sinumpaang salaysay mula sa kaibigan/pamilya",
+    "Pasaporte / Mga dokumento sa paglalakbay"
+  ],
+
+  // Chat
+  chatTitle: "Makipag-chat sa PathFinder",
+  chatSubtitle: "Magtanong tungkol sa iyong form",
+  typeQuestion: "I-type ang iyong tanong...",
+  verifiedSources: "Mga Beripikadong Pinagmulan:",
+  chatWaiting: "Sandali lang habang binabasa ko ang mga detalye ng iyong dokumento...",
+  chatReady: "Tapos ko nang basahin ang iyong dokumento. Magtanong ka tungkol dito, o maaari kong hanapin ang pinakabagong bayarin at oras ng pagproseso ng USCIS para sa iyo!",
+  chatError: "Nagkaproblema ako sa pagbasa ng dokumento para sa chat, pero narito pa rin ako para sagutin ang mga pangkalahatang tanong.",
+  chatConnectError: "Nagkakaproblema ako sa koneksyon ngayon. Pakisubukang muli.",
+  chatSafetyBlocked: "Hindi ko iyan masasagot dahil na-flag ito ng safety filter. Nangyayari ito minsan sa mga legal na dokumentong bumabanggit ng mga parusa. Pakisubukang magtanong sa mas simpleng paraan.",
+  chatRecitationBlocked: "Hindi ko direktang masisipi ang tekstong iyon dahil sa limitasyon ng copyright. Maaari ko itong ibuod sa halip.",
+  chatEmptyReply: "May natanggap akong sagot pero hindi ko ito maintindihan (walang laman). Pakisubukang muli.",
+  chatNoReply: "Paumanhin, hindi ko iyon lubos na naintindihan (walang sagot).",
+  typing: "Nagta-type...",
+  sendMessage: "Ipadala ang mensahe",
+  startVoiceChat: "Simulan ang Voice Chat",
+  endVoiceChat: "Tapusin ang Voice Chat",
+  stopGenerating: "Itigil ang pagsagot",
+  callTranscriptTitle: "Voice call",
+  callInProgress: "Kasalukuyang tawag",
+  callSummary: "Buod ng tawag",
+  callStarted: "Nagsimula noong {date}",
+  callDuration: "Haba",
+  callYourTurns: "Nagsalita ka",
+  callAnswers: "Mga sagot",
+  callInterruptedCount: "Naputol",
+  callInterrupted: "naputol",
+  callSpeakerYou: "Ikaw",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "Ipakita ang transcript",
+  exportTranscriptText: "I-save bilang text",
+  exportTranscriptJson: "I-save bilang JSON",
+  callActionsCount: "Mga aksyon",
+  voiceActionCheckDocument: "Na-check: {target}",
+  voiceActionUncheckDocument: "Na-uncheck: {target}",
+  voiceActionHighlightTerm: "Ipinakita ang termino: {target}",
+  voiceActionAddReminder: "Naidagdag ang paalala: {target}",
+  voiceActionOpenForm: "Binuksan ang form {target}",
+  replyStopped: "Itinigil ang sagot.",
+  historyTitle: "Aking mga dokumento",
+  historySubtitle: "Mga dokumentong sinuri mo sa device na ito. Buksan ang isa para magpatuloy kung saan ka tumigil.",
+  historyBack: "Bumalik",
+  historyLoading: "Nilo-load ang iyong mga dokumento...",
+  historyEmpty: "Wala pang naka-save na dokumento. Dito lalabas ang mga dokumentong susuriin mo.",
+  historyUntitled: "Dokumento sa imigrasyon",
+  historyOpened: "Huling binuksan {date}",
+  historyPages: "{count} pahina",
+  historyQuestions: "{count} tanong",
+  historyOpen: "Buksan",
+  historyDelete: "Burahin",
+  historyDeleteConfirm: "Burahin ang \"{title}\" at ang chat nito sa device na ito?",
+  historyPrivacy: "Naka-save lamang sa browser na ito. Walang ina-upload para itago ang iyong history.",
+  historyCases: "Iyong mga kaso",
+  glossaryNav: "Glosaryo",
+  glossaryPageTitle: "Glosaryo ng imigrasyon",
+  glossaryPageSubtitle: "Simpleng kahulugan ng mga karaniwang termino sa imigrasyon. Gumagana kahit offline: walang ipinapadala kahit saan.",
+  glossarySearchLabel: "Maghanap ng termino",
+  glossarySearchPlaceholder: "Maghanap, hal. RFE o priority date",
+  glossaryNoResults: "Walang terminong tumutugma sa \"{query}\".",
+  glossaryAlsoCalled: "Tinatawag din na: {names}",
+  glossaryInEnglish: "Sa Ingles",
+  glossaryEnglishOnly: "Ang ilang kahulugan ay hindi pa naisasalin at ipinapakita sa Ingles.",
+  glossaryVerified: "Beripikado",
+  glossaryVerifiedHint: "Kahulugan mula sa nirepasong diksyunaryo ng PathFinder",
+  glossaryVersion: "Bersyon ng diksyunaryo {version} · {count} termino",
+  printSummary: "I-print ang buod",
+  downloadPdf: "I-download ang PDF",
+  preparingPdf: "Inihahanda ang PDF...",
+  exportError: "Hindi magawa ang buod. Pakisubukang muli.",
+  summaryCreated: "Buod na ginawa gamit ang PathFinder noong {date}.",
+  caseTimeline: "Timeline ng kaso",
+  caseTimelineTooltip: "Mga sulat na na-save mo na may parehong receipt number, ayon sa pagkakasunod na ipinadala ng USCIS.",
+  timelineThisDocument: "ang sulat na ito",
+  timelineNoDate: "Walang nakasulat na petsa",
+  timelineNext: "Ang karaniwang susunod",
+  timelineOr: "o",
+  timelineCurrentStage: "Kasalukuyang hakbang",
+  noticeStages: {
+    RECEIPT: "Natanggap ang kaso",
+    BIOMETRICS: "Appointment sa biometrics",
+    RFE: "Hiling para sa karagdagang ebidensiya",
+    INTERVIEW: "Interbyu",
+    APPROVAL: "Naaprubahan",
+    DENIAL: "Tinanggihan",
+    CARD_PRODUCED: "Ginagawa na ang card",
+    OTHER: "Ibang abiso"
+  },
+  noticeStageNext: {
+    RECEIPT: "Natanggap na ng USCIS ang iyong aplikasyon. Karamihan ay nakakatanggap ng sulat para sa biometrics appointment sa susunod na ilang linggo. Itago ang receipt number na ito para masuri ang status ng iyong kaso online.",
+    BIOMETRICS: "Pagkatapos kunin ang iyong fingerprints, rerepasuhin ng USCIS ang kaso. Susunod, maaari kang makatanggap ng abiso ng interbyu, hiling para sa karagdagang ebidensiya, o desisyon.",
+    RFE: "Kailangan ng USCIS ng karagdagang impormasyon bago magdesisyon. Ipadala ang lahat ng hiningi nila bago ang deadline; karaniwang may desisyon o interbyu pagkatanggap nila nito.",
+    INTERVIEW: "Pagkatapos ng interbyu, maaaring aprubahan ng opisyal ang kaso, humingi ng karagdagang ebidensiya, o magpadala ng desisyon sa koreo.",
+    APPROVAL: "Naaprubahan ang iyong kaso. Kung may kasamang card, karaniwang makakatanggap ka muna ng abiso ng paggawa ng card at pagkatapos ay ang card sa koreo.",
+    DENIAL: "Tinanggihan ang iyong kaso. Basahing mabuti ang sulat: ipinapaliwanag nito kung bakit at kung maaari kang mag-apela o maghain ng mosyon, madalas na may maikling deadline. Makipag-usap agad sa isang abogado sa imigrasyon.",
+    CARD_PRODUCED: "Ginagawa na o naipadala na ang iyong card. Siguraduhing nasa USCIS ang kasalukuyan mong address para makarating ito.",
+    OTHER: "I-save ang susunod na sulat na matatanggap mo para sa receipt number na ito para makita rito ang progreso ng iyong kaso."
+  },
+
+  // Live Chat
+  liveConnecting: "Kumokonekta...",
+  liveListening: "Nakikinig...",
+  liveError: "Error",
+  liveTitle: "PathFinder Live",
+  liveEstablishing: "Nagtatatag ng ligtas na koneksyon...",
+  liveConnectionFailed: "Nabigo ang koneksyon. Pakisubukang muli.",
+  liveReconnecting: "Muling kumokonekta...",
+  liveReconnectingDetail: "Naputol ang koneksyon. Itinutuloy kung saan ka tumigil...",
+  liveQualityGood: "Maayos ang koneksyon",
+  liveQualityPoor: "Mahina ang koneksyon",
+  liveErrorMicDenied: "Naka-block ang access sa mikropono. Payagan ito sa settings ng browser at subukang muli.",
+  liveErrorNetwork: "Naputol ang koneksyon. Suriin ang iyong internet at subukang muli.",
+  liveErrorQuota: "Abala ang voice service sa ngayon. Maghintay ng isang minuto at subukang muli.",
+  liveErrorAuth: "Hindi makapag-sign in ang voice service. Pakisubukang muli mamaya.",
+  endCall: "Tapusin ang Tawag",
+  liveSystemPrompt: "IMPORTANT: Speak in Tagalog unless the user speaks another language. Keep responses conversational.",
+};
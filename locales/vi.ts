@@ -0,0 +1,277 @@
+import { LocaleOverrides } from './en';
+
+export const vi: LocaleOverrides = {
+  // App Header & Intro
+  subtitle: "Trợ lý Di trú AI",
+  headlinePart1: "Hiểu thư USCIS của bạn ",
+  headlinePart2: "ngay lập tức",
+  description: "Tải lên ảnh hoặc PDF. Chúng tôi sẽ chuyển ngôn ngữ pháp lý thành lời lẽ đơn giản và trả lời câu hỏi của bạn, để bạn biết chính xác cần làm gì.",
+
+  // Upload Area
+  uploadTitle: "Tải lên tài liệu",
+  uploadSubtitle: "PDF, JPG hoặc PNG (Tối đa 10MB)",
+  selectFile: "Chọn Tệp",
+  takePhoto: "Chụp Ảnh",
+  readingDoc: "Đang đọc tài liệu của bạn...",
+  loadingSteps: [
+    "Đang quét tài liệu...",
+    "Đang diễn giải ngôn ngữ pháp lý...",
+    "Đang chuẩn bị tóm tắt...",
+    "Đang đơn giản hóa..."
+  ],
+  patientMessage: "Xin vui lòng kiên nhẫn, tôi đang phân tích cẩn thận từng chi tiết để đảm bảo chính xác.",
+  analyzeNow: "Phân Tích Ngay",
+  removeFile: "Xóa tệp",
+  packetTitle: "Tài liệu của bạn ({count} trang)",
+  packetHint: "Bạn đã chụp từng trang của lá thư? Hãy thêm tất cả các trang và sắp xếp đúng thứ tự trước khi phân tích.",
+  pageLabel: "Trang {n}",
+  viewDocument: "Xem tài liệu",
+  viewSummary: "Tóm tắt",
+  documentViewerTitle: "Tài liệu của bạn",
+  closeDocument: "Đóng tài liệu",
+  showPage: "Hiện trang {n} của tài liệu",
+  previousPage: "Trang trước",
+  nextPage: "Trang sau",
+  viewerPageOf: "Trang {n} / {total}",
+  zoomIn: "Phóng to",
+  zoomOut: "Thu nhỏ",
+  zoomFit: "Vừa chiều rộng",
+  rotatePage: "Xoay",
+  viewerLoading: "Đang mở tài liệu…",
+  viewerError: "Không thể hiển thị tài liệu này.",
+  viewerHint: "Kéo để di chuyển. Chụm hai ngón hoặc Ctrl + cuộn để thu phóng.",
+  addPage: "Thêm trang khác",
+  movePageUp: "Di chuyển trang lên",
+  movePageDown: "Di chuyển trang xuống",
+  removePage: "Xóa trang",
+  errorTooManyPages: "Bạn có thể thêm tối đa {max} trang cho mỗi tài liệu.",
+  errorGeneric: "Chúng tôi không thể phân tích tài liệu này. Hãy thử ảnh rõ nét hoặc PDF của một mẫu đơn USCIS.",
+  errorNotImmigrationDoc: "Lỗi: vui lòng tải lên tài liệu USCIS hoặc tài liệu di trú hợp lệ.",
+  errorInvalidResponse: "Kết quả phân tích chưa đầy đủ. Vui lòng thử lại sau giây lát.",
+  errorRateLimited: "Hiện có quá nhiều yêu cầu. Vui lòng đợi một phút rồi thử lại.",
+  errorTooLarge: "Các tệp này quá lớn để phân tích cùng lúc. Hãy thử ít trang hơn hoặc ảnh nhỏ hơn.",
+  errorTranslation: "Hiện không thể dịch bản tóm tắt này. Vui lòng thử lại.",
+  translating: "Đang dịch bản tóm tắt...",
+  cachedResultNotice: "Tài liệu này đã được phân tích trước đó, nên chúng tôi đã tải bản phân tích đã lưu.",
+  reanalyze: "Vẫn phân tích lại",
+  reanalyzing: "Đang phân tích lại tài liệu...",
+  readAloud: "Đọc to",
+  pauseReading: "Tạm dừng",
+  resumeReading: "Tiếp tục",
+  stopReading: "Dừng đọc",
+  readingSpeed: "Tốc độ đọc",
+  readAloudLoading: "Đang tải giọng đọc...",
+  errorInvalidFileType: "Loại tệp không hợp lệ. Vui lòng dùng PDF hoặc hình ảnh.",
+  errorProcessFile: "Không thể xử lý tệp. Vui lòng thử lại.",
+  errorTitle: "Rất tiếc!",
+  tryAgain: "Thử Lại",
+  uploadAreaLabel: "Khu vực tải lên tài liệu",
+  languageLabel: "Ngôn ngữ",
+  missionTitle: "Vì sao có PathFinder",
+  missionBody1: "Tìm đường đến một cuộc sống mới vốn đã là một hành động vô cùng can đảm, và điều đó không nên bị định nghĩa bởi nỗi sợ giấy tờ. Với rất nhiều gia đình, hy vọng về một khởi đầu mới thường bị che khuất bởi nỗi lo trước những lá thư phức tạp của chính phủ, nơi chỉ một thuật ngữ bị hiểu sai cũng có thể trở thành rào cản cho tương lai của họ.",
+  missionBody2: "Dự án này ra đời từ sự thấu hiểu sâu sắc, rất riêng tư về sự im lặng và căng thẳng đó. Tôi tin rằng sự an tâm không nên là thứ xa xỉ chỉ dành cho những ai đủ khả năng trả tiền tư vấn pháp lý đắt đỏ.",
+  missionBody3: "Tôi xây dựng ứng dụng này để đưa tay giúp đỡ bất kỳ ai đang cảm thấy lạc lối trong quy trình. Mục tiêu: để sự rõ ràng, an tâm và thấu hiểu đến được với tất cả mọi người, để không ai phải đối mặt với những giấy tờ này một mình.",
+  faqTitle: "Câu hỏi thường gặp & Mẹo",
+  faqQ1: "PathFinder không nhận ra tài liệu của tôi?",
+  faqA1: "Vui lòng tải lại trang và tải tệp lên lần nữa. Hãy đảm bảo ảnh đủ sáng và chữ rõ ràng. Nếu vẫn không được, có thể loại tài liệu này chưa được hỗ trợ.",
+  faqQ2: "Dữ liệu cá nhân của tôi có an toàn không?",
+  faqA2: "Có. Tài liệu của bạn được Google Gemini xử lý an toàn trong bộ nhớ và không được lưu lâu dài trên máy chủ của chúng tôi. Chúng tôi ưu tiên quyền riêng tư của bạn.",
+  faqQ3: "Tôi có thể dùng ứng dụng này để được tư vấn pháp lý không?",
+  faqA3: "Không. PathFinder chỉ là công cụ cung cấp thông tin. Ứng dụng giải thích tài liệu nhưng không thể tư vấn pháp lý. Hãy luôn hỏi ý kiến luật sư di trú được công nhận trước khi đưa ra quyết định pháp lý.",
+  faqQ4: "Làm sao để có kết quả tốt nhất?",
+  faqA4: "Để phân tích tốt nhất, hãy tải lên PDF kỹ thuật số hoặc ảnh chụp thẳng từ trên xuống ở nơi đủ sáng. Tránh bóng đổ hoặc góc chụp bị mờ.",
+  poweredBy: "Được hỗ trợ bởi Google Gemini. Riêng tư & An toàn.",
+
+  // Footer
+  disclaimer: "PathFinder là trợ lý AI, không phải luật sư. Thông tin này chỉ mang tính tham khảo.",
+
+  // Analysis View
+  docAnalysis: "Phân Tích Tài Liệu",
+  save: "Lưu",
+  saved: "Đã lưu!",
+  goodNews: "Tin Tốt!",
+  actionRequired: "Cần Hành Động",
+  neutralUpdate: "Cập Nhật Thông Thường",
+  analysisComplete: "Phân Tích Hoàn Tất",
+  whatIsThis: "Đây là gì?",
+  whatIsThisTooltip: "Giải thích đơn giản về tài liệu này là gì và vì sao bạn nhận được nó.",
+  todoTitle: "Việc Cần Làm & Hạn Chót",
+  todoTooltip: "Các bước bạn cần làm và những ngày quan trọng cần nhớ.",
+  caseDetails: "Chi Tiết Hồ Sơ",
+  caseDetailsTooltip: "Các số và tên dùng để nhận diện hồ sơ của bạn. Hãy để sẵn khi gọi cho USCIS hoặc kiểm tra tình trạng hồ sơ trực tuyến.",
+  receiptNumber: "Số biên nhận",
+  receiptNumberInvalid: "Số này không khớp với định dạng thông thường (3 chữ cái + 10 chữ số). Hãy đối chiếu với lá thư của bạn.",
+  aNumber: "Số A",
+  aNumberInvalid: "Số A thường có 8 hoặc 9 chữ số. Hãy đối chiếu với lá thư của bạn.",
+  priorityDate: "Ngày ưu tiên",
+  noticeDate: "Ngày thông báo",
+  serviceCenter: "Trung tâm dịch vụ",
+  beneficiary: "Người thụ hưởng",
+  petitioner: "Người bảo lãnh",
+  copy: "Sao chép",
+  copyAll: "Sao chép tất cả",
+  copied: "Đã sao chép!",
+  tasksProgress: "Đã xong {done}/{total}",
+  taskNeeds: "Cần:",
+  noActionItems: "Hiện tại bạn không cần làm gì.",
+  requiredDocs: "Giấy Tờ Cần Thiết",
+  requiredDocsTooltip: "Danh sách các giấy tờ hoặc bằng chứng được nhắc đến trong mẫu đơn mà bạn có thể cần nộp.",
+  due: "Hạn:",
+  deadlinesTitle: "Ngày Quan Trọng",
+  deadlinesTooltip: "Mọi ngày trong tài liệu mà bạn cần hành động hoặc có mặt, kèm theo thời gian còn lại.",
+  deadlineTypes: {
+    RESPOND_BY: "Trả lời trước",
+    APPOINTMENT: "Cuộc hẹn",
+    EXPIRY: "Hết hạn",
+    HEARING: "Phiên điều trần"
+  },
+  daysRemaining: "Còn {days} ngày",
+  oneDayRemaining: "Còn 1 ngày",
+  dueToday: "Hôm nay",
+  daysPast: "{days} ngày trước",
+  deadlinePast: "Đã qua",
+  deadlineSoon: "Dưới 2 tuần",
+  deadlineEstimated: "Ước tính",
+  deadlineEstimatedTooltip: "Ngày này được tính từ nội dung lá thư, không được in trong thư. Hãy kiểm tra lại.",
+  deadlineUnknownDate: "Ngày không rõ",
+  addToCalendar: "Thêm vào lịch",
+  addToCalendarHint: "Tải tệp lịch có nhắc nhở trước mỗi ngày 30, 7 và 1 ngày.",
+  remindMe: "Nhắc tôi",
+  reminderAdded: "Đã thêm nhắc nhở",
+  remindMeHint: "Tải nhắc nhở lịch cho ngày này.",
+  calendarFromLetter: "Từ lá thư của bạn:",
+  calendarWhatToDo: "Việc bạn cần làm:",
+  calendarReminder: "Nhắc nhở: {event}",
+  example: "Ví dụ",
+  noExample: "Không yêu cầu ví dụ cụ thể.",
+  noRequiredDocs: "Lá thư không liệt kê giấy tờ cụ thể nào.",
+  simpleDefinitions: "Định Nghĩa Đơn Giản",
+  keyFindings: "Điểm Chính",
+  keyFindingsTooltip: "Những chi tiết quan trọng nhất trong tài liệu và trang có chứa từng chi tiết.",
+  uploadDifferent: "Tải lên tài liệu khác",
+  supplementalTitle: "Bằng chứng hỗ trợ thường gặp (Danh sách kiểm tra)",
+  supplementalDocs: [
+    "Giấy chứng nhận kết hôn",
+    "Giấy khai sinh (bản đầy đủ)",
+    "Bằng chứng tài sản chung (tài khoản ngân hàng, hợp đồng thuê nhà)",
+    "Ảnh chụp chung (có ngày & địa điểm)",
+    "Bản khai có tuyên thệ của bạn bè/gia đình",
+    "Hộ chiếu / Giấy tờ du lịch"
+  ],
+
+  // Chat
+  chatTitle: "Trò chuyện với PathFinder",
+  chatSubtitle: "Đặt câu hỏi cụ thể về mẫu đơn của bạn",
+  typeQuestion: "Nhập câu hỏi của bạn...",
+  verifiedSources: "Nguồn đã xác minh:",
+  chatWaiting: "Vui lòng đợi trong giây lát để tôi đọc chi tiết tài liệu của bạn...",
+  chatReady: "Tôi đã đọc xong tài liệu của bạn. Hãy hỏi tôi bất kỳ câu hỏi cụ thể nào, hoặc tôi có thể tìm lệ phí và thời gian xử lý mới nhất của USCIS cho bạn!",
+  chatError: "Tôi gặp sự cố khi đọc tài liệu cho cuộc trò chuyện, nhưng tôi vẫn ở đây để trả lời các câu hỏi chung.",
+  chatConnectError: "Hiện tôi đang gặp sự cố kết nối. Vui lòng thử lại.",
+  chatSafetyBlocked: "Tôi không thể trả lời câu này vì nó bị bộ lọc an toàn chặn. Điều này đôi khi xảy ra với tài liệu pháp lý có nhắc đến hình phạt. Vui lòng thử hỏi theo cách đơn giản hơn.",
+  chatRecitationBlocked: "Tôi không thể trích dẫn nguyên văn đoạn đó do giới hạn bản quyền. Tôi có thể tóm tắt nó thay vào đó.",
+  chatEmptyReply: "Tôi đã nhận được phản hồi nhưng không hiểu được (văn bản trống). Vui lòng thử lại.",
+  chatNoReply: "Xin lỗi, tôi không hiểu hết được câu đó (không có câu trả lời).",
+  typing: "Đang nhập...",
+  sendMessage: "Gửi tin nhắn",
+  startVoiceChat: "Bắt đầu trò chuyện bằng giọng nói",
+  endVoiceChat: "Kết thúc trò chuyện bằng giọng nói",
+  stopGenerating: "Dừng trả lời",
+  callTranscriptTitle: "Cuộc gọi thoại",
+  callInProgress: "Đang gọi",
+  callSummary: "Tóm tắt cuộc gọi",
+  callStarted: "Bắt đầu lúc {date}",
+  callDuration: "Thời lượng",
+  callYourTurns: "Bạn đã nói",
+  callAnswers: "Câu trả lời",
+  callInterruptedCount: "Bị ngắt",
+  callInterrupted: "bị ngắt",
+  callSpeakerYou: "Bạn",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "Xem bản ghi",
+  exportTranscriptText: "Lưu dạng văn bản",
+  exportTranscriptJson: "Lưu dạng JSON",
+  callActionsCount: "Thao tác",
+  voiceActionCheckDocument: "Đã đánh dấu: {target}",
+  voiceActionUncheckDocument: "Đã bỏ đánh dấu: {target}",
+  voiceActionHighlightTerm: "Đã hiển thị thuật ngữ: {target}",
+  voiceActionAddReminder: "Đã thêm nhắc nhở: {target}",
+  voiceActionOpenForm: "Đã mở mẫu đơn {target}",
+  replyStopped: "Đã dừng trả lời.",
+  historyTitle: "Tài liệu của tôi",
+  historySubtitle: "Các tài liệu bạn đã phân tích trên thiết bị này. Mở một tài liệu để tiếp tục từ chỗ bạn dừng lại.",
+  historyBack: "Quay lại",
+  historyLoading: "Đang tải tài liệu của bạn...",
+  historyEmpty: "Chưa có tài liệu nào được lưu. Các tài liệu bạn phân tích sẽ xuất hiện ở đây.",
+  historyUntitled: "Tài liệu di trú",
+  historyOpened: "Mở lần cuối {date}",
+  historyPages: "{count} trang",
+  historyQuestions: "{count} câu hỏi",
+  historyOpen: "Mở",
+  historyDelete: "Xóa",
+  historyDeleteConfirm: "Xóa \"{title}\" và cuộc trò chuyện của nó khỏi thiết bị này?",
+  historyPrivacy: "Chỉ được lưu trong trình duyệt này. Không có gì được tải lên để lưu lịch sử của bạn.",
+  historyCases: "Hồ sơ của bạn",
+  glossaryNav: "Thuật ngữ",
+  glossaryPageTitle: "Thuật ngữ di trú",
+  glossaryPageSubtitle: "Định nghĩa dễ hiểu cho các thuật ngữ di trú thường gặp. Dùng được khi không có mạng: không gửi dữ liệu đi đâu.",
+  glossarySearchLabel: "Tìm thuật ngữ",
+  glossarySearchPlaceholder: "Tìm, ví dụ RFE hoặc ngày ưu tiên",
+  glossaryNoResults: "Không có thuật ngữ nào khớp với \"{query}\".",
+  glossaryAlsoCalled: "Còn gọi là: {names}",
+  glossaryInEnglish: "Bằng tiếng Anh",
+  glossaryEnglishOnly: "Một số định nghĩa chưa được dịch và được hiển thị bằng tiếng Anh.",
+  glossaryVerified: "Đã xác minh",
+  glossaryVerifiedHint: "Định nghĩa từ từ điển đã được kiểm duyệt của PathFinder",
+  glossaryVersion: "Phiên bản từ điển {version} · {count} thuật ngữ",
+  printSummary: "In bản tóm tắt",
+  downloadPdf: "Tải PDF",
+  preparingPdf: "Đang chuẩn bị PDF...",
+  exportError: "Không thể tạo bản tóm tắt. Vui lòng thử lại.",
+  summaryCreated: "Bản tóm tắt được tạo bằng PathFinder ngày {date}.",
+  caseTimeline: "Tiến trình hồ sơ",
+  caseTimelineTooltip: "Các lá thư bạn đã lưu có cùng số biên nhận, theo thứ tự USCIS gửi.",
+  timelineThisDocument: "lá thư này",
+  timelineNoDate: "Không in ngày",
+  timelineNext: "Điều thường xảy ra tiếp theo",
+  timelineOr: "hoặc",
+  timelineCurrentStage: "Bước hiện tại",
+  noticeStages: {
+    RECEIPT: "Đã nhận hồ sơ",
+    BIOMETRICS: "Hẹn lấy sinh trắc học",
+    RFE: "Yêu cầu thêm bằng chứng",
+    INTERVIEW: "Phỏng vấn",
+    APPROVAL: "Đã chấp thuận",
+    DENIAL: "Bị từ chối",
+    CARD_PRODUCED: "Đang làm thẻ",
+    OTHER: "Thông báo khác"
+  },
+  noticeStageNext: {
+    RECEIPT: "USCIS đã nhận đơn của bạn. Hầu hết mọi người sẽ nhận thư hẹn lấy sinh trắc học trong vài tuần tới. Hãy giữ số biên nhận này để kiểm tra tình trạng hồ sơ trực tuyến.",
+    BIOMETRICS: "Sau khi lấy dấu vân tay, USCIS sẽ xem xét hồ sơ. Tiếp theo bạn có thể nhận thư hẹn phỏng vấn, yêu cầu thêm bằng chứng hoặc quyết định.",
+    RFE: "USCIS cần thêm thông tin trước khi quyết định. Hãy gửi mọi thứ họ yêu cầu trước hạn chót; thường sẽ có quyết định hoặc lịch phỏng vấn sau khi họ nhận được.",
+    INTERVIEW: "Sau buổi phỏng vấn, viên chức có thể chấp thuận hồ sơ, yêu cầu thêm bằng chứng hoặc gửi quyết định qua thư.",
+    APPROVAL: "Hồ sơ của bạn đã được chấp thuận. Nếu có kèm thẻ, bạn thường sẽ nhận thông báo đang làm thẻ rồi nhận thẻ qua bưu điện.",
+    DENIAL: "Hồ sơ của bạn bị từ chối. Hãy đọc kỹ lá thư: thư giải thích lý do và bạn có thể kháng cáo hoặc nộp kiến nghị hay không, thường với hạn chót ngắn. Hãy sớm nói chuyện với luật sư di trú.",
+    CARD_PRODUCED: "Thẻ của bạn đang được làm hoặc đã được gửi. Hãy đảm bảo USCIS có địa chỉ hiện tại của bạn để thẻ đến nơi.",
+    OTHER: "Hãy lưu lá thư tiếp theo bạn nhận được với số biên nhận này để xem tiến trình hồ sơ tại đây."
+  },
+
+  // Live Chat
+  liveConnecting: "Đang kết nối...",
+  liveListening: "Đang lắng nghe...",
+  liveError: "Lỗi",
+  liveTitle: "PathFinder Trực tiếp",
+  liveEstablishing: "Đang thiết lập kết nối an toàn...",
+  liveConnectionFailed: "Kết nối thất bại. Vui lòng thử lại.",
+  liveReconnecting: "Đang kết nối lại...",
+  liveReconnectingDetail: "Mất kết nối. Đang tiếp tục từ chỗ bạn dừng lại...",
+  liveQualityGood: "Kết nối tốt",
+  liveQualityPoor: "Kết nối yếu",
+  liveErrorMicDenied: "Quyền truy cập micrô bị chặn. Hãy cho phép trong cài đặt trình duyệt rồi thử lại.",
+  liveErrorNetwork: "Đã mất kết nối. Hãy kiểm tra internet rồi thử lại.",
+  liveErrorQuota: "Dịch vụ giọng nói hiện đang bận. Vui lòng đợi một phút rồi thử lại.",
+  liveErrorAuth: "Dịch vụ giọng nói không thể đăng nhập. Vui lòng thử lại sau.",
+  endCall: "Kết thúc cuộc gọi",
+  liveSystemPrompt: "IMPORTANT: Speak in Vietnamese unless the user speaks another language. Keep responses conversational.",
+};
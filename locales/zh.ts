@@ -0,0 +1,277 @@
+import { LocaleOverrides } from './en';
+
+export const zh: LocaleOverrides = {
+  // App Header & Intro
+  subtitle: "AI 移民助手",
+  headlinePart1: "立即读懂",
+  headlinePart2: "您的 USCIS 信件",
+  description: "上传照片或 PDF。我们会把法律术语翻译成通俗易懂的语言，并回答您的问题，让您清楚知道下一步该做什么。",
+
+  // Upload Area
+  uploadTitle: "上传文件",
+  uploadSubtitle: "PDF、JPG 或 PNG（最大 10MB）",
+  selectFile: "选择文件",
+  takePhoto: "拍照",
+  readingDoc: "正在读取您的文件...",
+  loadingSteps: [
+    "正在扫描文件...",
+    "正在解读法律术语...",
+    "正在准备摘要...",
+    "正在简化内容..."
+  ],
+  patientMessage: "请耐心等待，我正在仔细分析每个细节以确保准确。",
+  analyzeNow: "立即分析",
+  removeFile: "移除文件",
+  packetTitle: "您的文件（{count} 页）",
+  packetHint: "信件是一页一页拍的吗？请在分析前添加所有页面并按顺序排列。",
+  pageLabel: "第 {n} 页",
+  viewDocument: "查看文件",
+  viewSummary: "摘要",
+  documentViewerTitle: "您的文件",
+  closeDocument: "关闭文件",
+  showPage: "显示文件第 {n} 页",
+  previousPage: "上一页",
+  nextPage: "下一页",
+  viewerPageOf: "第 {n} 页，共 {total} 页",
+  zoomIn: "放大",
+  zoomOut: "缩小",
+  zoomFit: "适应宽度",
+  rotatePage: "旋转",
+  viewerLoading: "正在打开文件…",
+  viewerError: "无法显示此文件。",
+  viewerHint: "拖动可移动。双指捏合或按住 Ctrl 滚动可缩放。",
+  addPage: "添加另一页",
+  movePageUp: "上移此页",
+  movePageDown: "下移此页",
+  removePage: "删除此页",
+  errorTooManyPages: "每份文件最多可添加 {max} 页。",
+  errorGeneric: "我们无法分析该文件。请尝试清晰的图片或 USCIS 表格的 PDF。",
+  errorNotImmigrationDoc: "错误：请上传有效的 USCIS 或移民相关文件。",
+  errorInvalidResponse: "分析结果不完整。请稍后再试。",
+  errorRateLimited: "当前请求过多。请等待一分钟后再试。",
+  errorTooLarge: "这些文件太大，无法一起分析。请减少页数或使用较小的照片。",
+  errorTranslation: "暂时无法翻译此摘要。请重试。",
+  translating: "正在翻译您的摘要...",
+  cachedResultNotice: "此文件之前已分析过，因此我们加载了已保存的分析。",
+  reanalyze: "仍然重新分析",
+  reanalyzing: "正在重新分析文件...",
+  readAloud: "朗读",
+  pauseReading: "暂停",
+  resumeReading: "继续",
+  stopReading: "停止朗读",
+  readingSpeed: "朗读速度",
+  readAloudLoading: "正在加载语音...",
+  errorInvalidFileType: "文件类型无效。请使用 PDF 或图片。",
+  errorProcessFile: "无法处理该文件。请重试。",
+  errorTitle: "出错了！",
+  tryAgain: "重试",
+  uploadAreaLabel: "文件上传区域",
+  languageLabel: "语言",
+  missionTitle: "PathFinder 的初衷",
+  missionBody1: "踏上通往新生活的道路本身就需要巨大的勇气，这段旅程不应被对文书的恐惧所定义。对于无数家庭来说，重新开始的希望常常被复杂的政府信件带来的焦虑所笼罩，一个被误解的术语就可能成为通往未来的障碍。",
+  missionBody2: "这个项目源于对那份沉默与压力深切而亲身的理解。我相信，内心的安宁不应只是负担得起昂贵法律咨询的人才能享有的奢侈品。",
+  missionBody3: "我开发这个应用，是想向每一个在流程中感到迷茫的人伸出援手。我们的目标是：让清晰、安心和理解人人可得，让没有人需要独自面对这些文件。",
+  faqTitle: "常见问题与提示",
+  faqQ1: "PathFinder 无法识别我的文件？",
+  faqA1: "请刷新页面并重新上传文件。确保照片光线充足、文字清晰。如果问题仍然存在，可能暂不支持这种文件类型。",
+  faqQ2: "我的个人数据安全吗？",
+  faqA2: "安全。您的文件由 Google Gemini 在内存中安全处理，不会永久存储在我们的服务器上。我们重视您的隐私。",
+  faqQ3: "我可以把它当作法律建议吗？",
+  faqA3: "不可以。PathFinder 仅是一个信息工具。它可以解释文件，但不能提供法律咨询。做出法律决定前，请务必咨询经认证的移民律师。",
+  faqQ4: "怎样才能获得最佳结果？",
+  faqA4: "为获得最佳分析效果，请上传电子版 PDF，或在明亮光线下从正上方拍摄的照片。避免阴影或模糊的角度。",
+  poweredBy: "由 Google Gemini 提供支持。私密且安全。",
+
+  // Footer
+  disclaimer: "PathFinder 是人工智能助手，不是律师。以上内容仅供参考。",
+
+  // Analysis View
+  docAnalysis: "文件分析",
+  save: "保存",
+  saved: "已保存！",
+  goodNews: "好消息！",
+  actionRequired: "需要采取行动",
+  neutralUpdate: "一般通知",
+  analysisComplete: "分析完成",
+  whatIsThis: "这是什么？",
+  whatIsThisTooltip: "用简单的话解释这份文件是什么，以及您为什么会收到它。",
+  todoTitle: "待办事项和截止日期",
+  todoTooltip: "您需要采取的行动步骤，以及需要记住的重要日期。",
+  caseDetails: "案件详情",
+  caseDetailsTooltip: "用于识别您案件的号码和姓名。致电 USCIS 或在线查询案件状态时请准备好这些信息。",
+  receiptNumber: "收据号码",
+  receiptNumberInvalid: "这与常见格式（3 个字母 + 10 位数字）不符。请与您的信件核对。",
+  aNumber: "A 号码",
+  aNumberInvalid: "A 号码通常为 8 或 9 位数字。请与您的信件核对。",
+  priorityDate: "优先日期",
+  noticeDate: "通知日期",
+  serviceCenter: "服务中心",
+  beneficiary: "受益人",
+  petitioner: "申请人",
+  copy: "复制",
+  copyAll: "全部复制",
+  copied: "已复制！",
+  tasksProgress: "已完成 {done}/{total}",
+  taskNeeds: "需要：",
+  noActionItems: "您目前不需要做任何事。",
+  requiredDocs: "所需文件",
+  requiredDocsTooltip: "表格中提到的、您可能需要提交的证明文件或证据清单。",
+  due: "截止：",
+  deadlinesTitle: "重要日期",
+  deadlinesTooltip: "文件中所有需要您采取行动或出席的日期，以及剩余时间。",
+  deadlineTypes: {
+    RESPOND_BY: "回复截止",
+    APPOINTMENT: "预约",
+    EXPIRY: "到期",
+    HEARING: "听证"
+  },
+  daysRemaining: "还剩 {days} 天",
+  oneDayRemaining: "还剩 1 天",
+  dueToday: "今天",
+  daysPast: "{days} 天前",
+  deadlinePast: "已过期",
+  deadlineSoon: "不到 2 周",
+  deadlineEstimated: "估算",
+  deadlineEstimatedTooltip: "这个日期是根据信件内容推算的，并未印在信上。请再次核对。",
+  deadlineUnknownDate: "日期不明",
+  addToCalendar: "添加到日历",
+  addToCalendarHint: "下载日历文件，在每个日期前 30 天、7 天和 1 天提醒您。",
+  remindMe: "提醒我",
+  reminderAdded: "已添加提醒",
+  remindMeHint: "下载此日期的日历提醒。",
+  calendarFromLetter: "来自您的信件：",
+  calendarWhatToDo: "您需要做的事：",
+  calendarReminder: "提醒：{event}",
+  example: "示例",
+  noExample: "无需具体示例。",
+  noRequiredDocs: "信中未列出具体文件。",
+  simpleDefinitions: "简单释义",
+  keyFindings: "要点",
+  keyFindingsTooltip: "文件中最重要的细节，以及每一项所在的页码。",
+  uploadDifferent: "上传其他文件",
+  supplementalTitle: "常见证明材料（清单）",
+  supplementalDocs: [
+    "民事结婚证",
+    "出生证明（详细版）",
+    "共同财产证明（银行账户、租约）",
+    "合影（注明日期和地点）",
+    "亲友的宣誓书",
+    "护照 / 旅行证件"
+  ],
+
+  // Chat
+  chatTitle: "与 PathFinder 聊天",
+  chatSubtitle: "就您的表格提出具体问题",
+  typeQuestion: "输入您的问题...",
+  verifiedSources: "已核实的来源：",
+  chatWaiting: "请稍候，我正在阅读您的文件详情，为我们的对话做准备...",
+  chatReady: "我已读完您的文件。欢迎提出具体问题，我也可以为您查询最新的 USCIS 费用和处理时间！",
+  chatError: "我在读取聊天所需的文件时遇到问题，但仍可以回答一般性问题。",
+  chatConnectError: "我现在连接遇到问题。请重试。",
+  chatSafetyBlocked: "我无法回答这个问题，因为它触发了安全过滤。涉及处罚内容的法律文件有时会出现这种情况。请尝试用更简单的方式提问。",
+  chatRecitationBlocked: "由于版权限制，我无法直接引用这段文字，但我可以为您总结。",
+  chatEmptyReply: "我收到了回复，但无法理解（内容为空）。请再试一次。",
+  chatNoReply: "抱歉，我没能完全理解（没有可用的回答）。",
+  typing: "正在输入...",
+  sendMessage: "发送消息",
+  startVoiceChat: "开始语音聊天",
+  endVoiceChat: "结束语音聊天",
+  stopGenerating: "停止回答",
+  callTranscriptTitle: "语音通话",
+  callInProgress: "通话中",
+  callSummary: "通话摘要",
+  callStarted: "开始于 {date}",
+  callDuration: "时长",
+  callYourTurns: "您的发言",
+  callAnswers: "回答",
+  callInterruptedCount: "被打断",
+  callInterrupted: "被打断",
+  callSpeakerYou: "您",
+  callSpeakerAssistant: "PathFinder",
+  showTranscript: "查看通话记录",
+  exportTranscriptText: "保存为文本",
+  exportTranscriptJson: "保存为 JSON",
+  callActionsCount: "操作",
+  voiceActionCheckDocument: "已勾选：{target}",
+  voiceActionUncheckDocument: "已取消勾选：{target}",
+  voiceActionHighlightTerm: "已显示术语：{target}",
+  voiceActionAddReminder: "已添加提醒：{target}",
+  voiceActionOpenForm: "已打开表格 {target}",
+  replyStopped: "已停止回答。",
+  historyTitle: "我的文件",
+  historySubtitle: "您在此设备上分析过的文件。打开一份即可从上次中断的地方继续。",
+  historyBack: "返回",
+  historyLoading: "正在加载您的文件...",
+  historyEmpty: "还没有保存的文件。您分析的文件会显示在这里。",
+  historyUntitled: "移民文件",
+  historyOpened: "上次打开：{date}",
+  historyPages: "{count} 页",
+  historyQuestions: "{count} 个问题",
+  historyOpen: "打开",
+  historyDelete: "删除",
+  historyDeleteConfirm: "要从此设备删除“{title}”及其聊天记录吗？",
+  historyPrivacy: "仅保存在此浏览器中。保存历史记录不会上传任何内容。",
+  historyCases: "您的案件",
+  glossaryNav: "术语表",
+  glossaryPageTitle: "移民术语表",
+  glossaryPageSubtitle: "常见移民术语的通俗解释。可离线使用：不会发送任何内容。",
+  glossarySearchLabel: "搜索术语",
+  glossarySearchPlaceholder: "搜索，例如 RFE 或优先日期",
+  glossaryNoResults: "没有与\"{query}\"匹配的术语。",
+  glossaryAlsoCalled: "又称：{names}",
+  glossaryInEnglish: "英文",
+  glossaryEnglishOnly: "部分释义尚未翻译，以英文显示。",
+  glossaryVerified: "已核实",
+  glossaryVerifiedHint: "释义来自 PathFinder 审核过的词典",
+  glossaryVersion: "词典版本 {version} · {count} 个术语",
+  printSummary: "打印摘要",
+  downloadPdf: "下载 PDF",
+  preparingPdf: "正在准备 PDF...",
+  exportError: "无法生成摘要。请再试一次。",
+  summaryCreated: "摘要由 PathFinder 于 {date} 生成。",
+  caseTimeline: "案件时间线",
+  caseTimelineTooltip: "您保存的、收据号码相同的信件，按 USCIS 寄出的顺序排列。",
+  timelineThisDocument: "这封信",
+  timelineNoDate: "信上未印日期",
+  timelineNext: "通常接下来会发生什么",
+  timelineOr: "或",
+  timelineCurrentStage: "当前步骤",
+  noticeStages: {
+    RECEIPT: "已收到案件",
+    BIOMETRICS: "生物信息采集预约",
+    RFE: "补充证据要求",
+    INTERVIEW: "面谈",
+    APPROVAL: "已批准",
+    DENIAL: "已拒绝",
+    CARD_PRODUCED: "卡片制作中",
+    OTHER: "其他通知"
+  },
+  noticeStageNext: {
+    RECEIPT: "USCIS 已收到您的申请。大多数人会在接下来几周内收到生物信息采集预约信。请保存此收据号码，以便在线查询案件状态。",
+    BIOMETRICS: "采集指纹后，USCIS 会审核案件。接下来您可能会收到面谈通知、补充证据要求或决定。",
+    RFE: "USCIS 在做出决定前需要更多信息。请在截止日期前寄出他们要求的所有材料；他们收到后通常会做出决定或安排面谈。",
+    INTERVIEW: "面谈后，移民官可能会批准案件、要求补充证据，或通过邮件寄送决定。",
+    APPROVAL: "您的案件已获批准。如果会发卡，您通常会先收到卡片制作通知，然后通过邮寄收到卡片。",
+    DENIAL: "您的案件被拒绝。请仔细阅读信件：信中说明了原因，以及您能否上诉或提出动议，截止期限通常很短。请尽快咨询移民律师。",
+    CARD_PRODUCED: "您的卡片正在制作或已寄出。请确保 USCIS 有您的最新地址，以便顺利收到。",
+    OTHER: "保存您收到的下一封同一收据号码的信件，即可在这里查看案件进展。"
+  },
+
+  // Live Chat
+  liveConnecting: "正在连接...",
+  liveListening: "正在聆听...",
+  liveError: "错误",
+  liveTitle: "PathFinder 实时通话",
+  liveEstablishing: "正在建立安全连接...",
+  liveConnectionFailed: "连接失败。请再试一次。",
+  liveReconnecting: "正在重新连接...",
+  liveReconnectingDetail: "连接已断开。正在从中断处继续...",
+  liveQualityGood: "连接良好",
+  liveQualityPoor: "连接较弱",
+  liveErrorMicDenied: "麦克风访问被阻止。请在浏览器设置中允许访问后重试。",
+  liveErrorNetwork: "连接已断开。请检查网络后重试。",
+  liveErrorQuota: "语音服务目前繁忙。请稍等一分钟后重试。",
+  liveErrorAuth: "语音服务无法登录。请稍后再试。",
+  endCall: "结束通话",
+  liveSystemPrompt: "IMPORTANT: Speak in Mandarin Chinese unless the user speaks another language. Keep responses conversational.",
+};
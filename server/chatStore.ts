@@ -0,0 +1,62 @@
+import { randomUUID } from 'node:crypto';
+import { DocumentChat } from '../services/aiProvider';
+
+interface StoredChat {
+  chat: DocumentChat;
+  lastUsed: number;
+  // Roughly what the chat holds in memory: its document pages and history
+  bytes: number;
+}
+
+// In-memory chat sessions, evicted after inactivity or when the store is full.
+// Each chat keeps its whole document, so the store is capped by size as well as by count.
+export class ChatStore {
+  private sessions = new Map<string, StoredChat>();
+  private totalBytes = 0;
+
+  constructor(private ttlMs: number, private maxSessions: number, private maxBytes: number) {}
+
+  add(chat: DocumentChat, bytes: number): string {
+    this.prune();
+
+    // Map keeps insertion order, and get() re-inserts on use, so the first key is the least recently used
+    while (this.sessions.size >= this.maxSessions || (this.sessions.size > 0 && this.totalBytes + bytes > this.maxBytes)) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) break;
+      this.delete(oldest);
+    }
+
+    const id = randomUUID();
+    this.sessions.set(id, { chat, lastUsed: Date.now(), bytes });
+    this.totalBytes += bytes;
+    return id;
+  }
+
+  get(id: string): DocumentChat | undefined {
+    const stored = this.sessions.get(id);
+    if (!stored) return undefined;
+
+    if (Date.now() - stored.lastUsed > this.ttlMs) {
+      this.delete(id);
+      return undefined;
+    }
+
+    this.sessions.delete(id);
+    this.sessions.set(id, { ...stored, lastUsed: Date.now() });
+    return stored.chat;
+  }
+
+  private delete(id: string) {
+    const stored = this.sessions.get(id);
+    if (!stored) return;
+    this.sessions.delete(id);
+    this.totalBytes -= stored.bytes;
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.sessions.forEach((stored, id) => {
+      if (now - stored.lastUsed > this.ttlMs) this.delete(id);
+    });
+  }
+}
@@ -0,0 +1,331 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { GoogleGenAI } from '@google/genai';
+import { analyzeDocument, translateAnalysis, createDocumentChat, createLiveToken, synthesizeSpeech } from '../services/geminiService';
+import { AnalysisValidationError, validateAnalysisResult } from '../services/analysisValidator';
+import { AnalysisResult, DocumentPage, Language } from '../types';
+import { ChatTurn } from '../services/aiProvider';
+import { createRateLimiter, RateLimiter } from './rateLimiter';
+import { ChatStore } from './chatStore';
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '../locales/languages';
+
+// Load GEMINI_API_KEY and friends from the same files the Vite dev server reads
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(file)) process.loadEnvFile(file);
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+// Set when the app is served from a different origin than this server
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+// Only trust X-Forwarded-For behind a known reverse proxy, otherwise clients could spoof their IP
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+if (!API_KEY) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local or the environment.");
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+// Keep in sync with MAX_PAGES in App.tsx
+const MAX_PAGES = 10;
+const MAX_HISTORY_TURNS = 100;
+// Read-aloud sends one sentence at a time; anything longer is not from the app
+const MAX_SPEECH_CHARS = 1000;
+const ALLOWED_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/bmp', 'image/tiff'];
+
+// A chat keeps its document pages for the whole session, so it gets a smaller allowance than a one-off analysis
+const MAX_CHAT_PAGE_BYTES = 10 * MB;
+
+const chatStore = new ChatStore(30 * 60 * 1000, 50, 256 * MB);
+
+class HttpError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const getClientIp = (req: IncomingMessage): string => {
+  if (TRUST_PROXY) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress || 'unknown';
+};
+
+// Every endpoint takes a JSON object; its fields are checked by the parse* helpers below
+type JsonBody = Record<string, unknown>;
+
+const isJsonBody = (value: unknown): value is JsonBody =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<JsonBody> =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+      reject(new HttpError(413, 'payload_too_large', `Request body must be under ${Math.round(maxBytes / KB)} KB`));
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let rejected = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) return;
+      received += chunk.length;
+      // Content-Length can be missing or wrong, so count what actually arrives
+      if (received > maxBytes) {
+        rejected = true;
+        reject(new HttpError(413, 'payload_too_large', `Request body must be under ${Math.round(maxBytes / KB)} KB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (rejected) return;
+      let body: unknown;
+      try {
+        body = chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {};
+      } catch (e) {
+        reject(new HttpError(400, 'bad_request', "Request body is not valid JSON"));
+        return;
+      }
+      // null, arrays and bare values are valid JSON but not a request
+      if (isJsonBody(body)) resolve(body);
+      else reject(new HttpError(400, 'bad_request', "Request body must be a JSON object"));
+    });
+    req.on('error', reject);
+  });
+
+const parseLanguage = (value: unknown): Language => {
+  if (!isSupportedLanguage(value)) {
+    throw new HttpError(400, 'bad_request', `language must be one of ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+  return value;
+};
+
+const parsePages = (value: unknown): DocumentPage[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PAGES) {
+    throw new HttpError(400, 'bad_request', `pages must be a list of 1 to ${MAX_PAGES} pages`);
+  }
+  return value.map((page, idx) => {
+    if (!page || typeof page.base64 !== 'string' || !ALLOWED_MIME_TYPES.includes(page.mimeType)) {
+      throw new HttpError(400, 'bad_request', `pages[${idx}] must have base64 data and a PDF or image mimeType`);
+    }
+    return { base64: page.base64, mimeType: page.mimeType, name: String(page.name || `page-${idx + 1}`).slice(0, 200) };
+  });
+};
+
+const parseChatMessage = (body: JsonBody) => {
+  const message = typeof body.message === 'string' ? body.message.trim() : '';
+  if (!message || message.length > 4000) {
+    throw new HttpError(400, 'bad_request', "message must be 1 to 4000 characters");
+  }
+  const chat = chatStore.get(String(body.chatId));
+  if (!chat) throw new HttpError(404, 'chat_expired', "Chat session not found or expired");
+  return { chat, message };
+};
+
+const parseChatPages = (value: unknown): DocumentPage[] => {
+  const pages = parsePages(value);
+  if (pages.reduce((sum, page) => sum + page.base64.length, 0) > MAX_CHAT_PAGE_BYTES) {
+    throw new HttpError(413, 'payload_too_large', `Chat documents must be under ${MAX_CHAT_PAGE_BYTES / MB} MB`);
+  }
+  return pages;
+};
+
+// Earlier exchanges from a restored conversation; optional, defaults to a fresh chat
+const parseHistory = (value: unknown): ChatTurn[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_TURNS) {
+    throw new HttpError(400, 'bad_request', `history must be a list of at most ${MAX_HISTORY_TURNS} turns`);
+  }
+  return value.map((turn, idx) => {
+    if (!turn || (turn.role !== 'user' && turn.role !== 'model') || typeof turn.text !== 'string' || turn.text.length > 8000) {
+      throw new HttpError(400, 'bad_request', `history[${idx}] must have a user or model role and text under 8000 characters`);
+    }
+    return { role: turn.role, text: turn.text };
+  });
+};
+
+// The client sends back a result it got from /api/analyze; re-check it rather than trusting its shape
+const parseAnalysis = (value: unknown): AnalysisResult => {
+  const { result, issues } = validateAnalysisResult(value);
+  if (!result) {
+    throw new HttpError(400, 'bad_request', `result is not a valid analysis: ${issues.join('; ')}`);
+  }
+  return result;
+};
+
+const parseSpeechText = (value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_SPEECH_CHARS) {
+    throw new HttpError(400, 'bad_request', `text must be a non-empty string of at most ${MAX_SPEECH_CHARS} characters`);
+  }
+  return value.trim();
+};
+
+interface Route {
+  bodyLimit: number;
+  rateLimiter: RateLimiter;
+  // Sends a single JSON response
+  handle?: (body: JsonBody) => Promise<unknown>;
+  // Sends newline-delimited JSON as it arrives. Validation errors must be thrown
+  // synchronously, before the iterable is returned, so they still get a proper status code.
+  stream?: (body: JsonBody, signal: AbortSignal) => AsyncIterable<unknown>;
+}
+
+// Shared so streamed and non-streamed messages count against the same budget
+const chatMessageLimiter = createRateLimiter({ windowMs: 60 * 1000, max: 30 });
+
+const routes: Record<string, Route> = {
+  '/api/analyze': {
+    bodyLimit: 25 * MB,
+    rateLimiter: createRateLimiter({ windowMs: 60 * 1000, max: 10 }),
+    handle: (body) => analyzeDocument(ai, parsePages(body.pages), parseLanguage(body.language)),
+  },
+  '/api/translate': {
+    bodyLimit: 256 * KB,
+    rateLimiter: createRateLimiter({ windowMs: 60 * 1000, max: 20 }),
+    handle: (body) => translateAnalysis(ai, parseAnalysis(body.result), parseLanguage(body.from), parseLanguage(body.to)),
+  },
+  '/api/chat': {
+    // The pages plus room for the restored history
+    bodyLimit: MAX_CHAT_PAGE_BYTES + 2 * MB,
+    rateLimiter: createRateLimiter({ windowMs: 60 * 1000, max: 10 }),
+    handle: async (body) => {
+      const pages = parseChatPages(body.pages);
+      const history = parseHistory(body.history);
+      const chat = await createDocumentChat(ai, pages, parseLanguage(body.language), history);
+      const bytes = pages.reduce((sum, page) => sum + page.base64.length, 0) + history.reduce((sum, turn) => sum + turn.text.length * 2, 0);
+      return { chatId: chatStore.add(chat, bytes) };
+    },
+  },
+  '/api/chat/message': {
+    bodyLimit: 32 * KB,
+    rateLimiter: chatMessageLimiter,
+    handle: async (body) => {
+      const { chat, message } = parseChatMessage(body);
+      return chat.sendMessage(message);
+    },
+  },
+  '/api/chat/stream': {
+    bodyLimit: 32 * KB,
+    rateLimiter: chatMessageLimiter,
+    stream: (body, signal) => {
+      const { chat, message } = parseChatMessage(body);
+      return chat.sendMessageStream(message, signal);
+    },
+  },
+  '/api/tts': {
+    bodyLimit: 8 * KB,
+    rateLimiter: createRateLimiter({ windowMs: 60 * 1000, max: 60 }),
+    handle: (body) => synthesizeSpeech(ai, parseSpeechText(body.text), parseLanguage(body.language)),
+  },
+  '/api/live-token': {
+    bodyLimit: 1 * KB,
+    // Tokens are single-use, so every reconnect after a dropped call needs a new one
+    rateLimiter: createRateLimiter({ windowMs: 60 * 1000, max: 12 }),
+    handle: async () => ({ token: await createLiveToken(ai) }),
+  },
+};
+
+const streamNdjson = async (res: ServerResponse, chunks: AsyncIterable<unknown>, signal: AbortSignal, pathname: string) => {
+  res.writeHead(200, {
+    'Content-Type': 'application/x-ndjson; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    // Stop nginx and similar proxies from buffering the whole reply
+    'X-Accel-Buffering': 'no',
+  });
+  try {
+    for await (const chunk of chunks) {
+      if (signal.aborted) break;
+      res.write(JSON.stringify(chunk) + '\n');
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      console.error(`${pathname} failed:`, error);
+      res.write(JSON.stringify({ error: 'upstream_error', message: "The AI service could not complete the request." }) + '\n');
+    }
+  }
+  res.end();
+};
+
+const server = createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+  if (pathname === '/api/health') {
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  const route = routes[pathname];
+  if (!route) {
+    sendJson(res, 404, { error: 'not_found', message: "Unknown endpoint" });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { error: 'bad_request', message: "Use POST" });
+    return;
+  }
+
+  const limit = route.rateLimiter.check(getClientIp(req));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+    sendJson(res, 429, { error: 'rate_limited', message: "Too many requests. Please wait a moment and try again." });
+    return;
+  }
+
+  // Cancel upstream work when the client goes away (e.g. the user pressed Stop)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req, route.bodyLimit);
+    if (route.stream) {
+      await streamNdjson(res, route.stream(body, controller.signal), controller.signal, pathname);
+      return;
+    }
+    sendJson(res, 200, await route.handle!(body));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.code, message: error.message });
+    } else if (error instanceof AnalysisValidationError) {
+      sendJson(res, 502, { error: 'invalid_analysis', message: error.message, issues: error.issues });
+    } else {
+      // Never forward upstream error details; they can include request metadata
+      console.error(`${pathname} failed:`, error);
+      sendJson(res, 502, { error: 'upstream_error', message: "The AI service could not complete the request." });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`PathFinder proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,45 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+interface RateLimiterOptions {
+  windowMs: number;
+  max: number;
+}
+
+// Fixed-window counter per key (client IP). Good enough for a single server instance.
+export const createRateLimiter = ({ windowMs, max }: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so memory doesn't grow with every IP ever seen
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((entry, key) => {
+      if (entry.resetAt <= now) windows.delete(key);
+    });
+  }, windowMs);
+  cleanup.unref();
+
+  return {
+    check: (key: string) => {
+      const now = Date.now();
+      let entry = windows.get(key);
+
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs };
+        windows.set(key, entry);
+      }
+
+      entry.count++;
+      return {
+        allowed: entry.count <= max,
+        retryAfterSeconds: Math.ceil((entry.resetAt - now) / 1000),
+      };
+    },
+  };
+};
@@ -0,0 +1,153 @@
+import { AnalysisResult, DocumentPage, Language } from '../types';
+import { proxyProvider } from './proxyProvider';
+import { mockProvider } from './mockProvider';
+
+export interface ChatSource {
+  title: string;
+  uri: string;
+}
+
+export interface ChatReply {
+  text: string;
+  sources: ChatSource[];
+  // Provider-reported reason the reply stopped, e.g. 'STOP', 'SAFETY', 'RECITATION'
+  finishReason?: string;
+}
+
+// One piece of a streamed reply. Text is a delta; sources and finishReason usually arrive with the last chunks.
+export interface ChatReplyChunk {
+  text: string;
+  sources?: ChatSource[];
+  finishReason?: string;
+}
+
+// A previous exchange, used to continue a saved conversation in a new chat
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// A text chat already seeded with the document pages
+export interface DocumentChat {
+  sendMessage: (text: string) => Promise<ChatReply>;
+  // Stops yielding (and cancels the upstream request where possible) once the signal aborts
+  sendMessageStream: (text: string, signal?: AbortSignal) => AsyncIterable<ChatReplyChunk>;
+}
+
+// Spoken audio for one short passage of text
+export interface SpeechAudio {
+  data: string; // base64 PCM
+  mimeType: string; // e.g. 'audio/L16;codec=pcm;rate=24000'
+}
+
+export interface LiveAudioChunk {
+  data: string; // base64 PCM
+  mimeType: string;
+}
+
+// Argument schema for a live tool, a small subset of JSON Schema
+export interface LiveToolSchema {
+  type: 'object' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, LiveToolSchema>;
+  required?: string[];
+}
+
+// A function the live model may call to act on the page
+export interface LiveToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LiveToolSchema;
+}
+
+export interface LiveToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Sent back to the model, so it can tell the user what happened
+export interface LiveToolResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  language: Language;
+  // The uploaded document, shared with the model as soon as the call opens
+  pages?: DocumentPage[];
+  // From onResumptionUpdate: reconnects to the same conversation instead of starting over
+  resumptionHandle?: string;
+  tools?: LiveToolDeclaration[];
+}
+
+// Why the socket closed, when the server said
+export interface LiveCloseInfo {
+  code?: number;
+  reason?: string;
+}
+
+export interface LiveEvents {
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void;
+  onTranscript: (text: string, role: 'user' | 'model') => void;
+  onInterrupted: () => void;
+  // The model wants to run one of the declared tools; answer with sendToolResult
+  onToolCall?: (call: LiveToolCall) => void;
+  // The latest point the conversation can be resumed from
+  onResumptionUpdate?: (handle: string) => void;
+  // The server is about to close the connection (e.g. it reached its time limit)
+  onGoAway?: () => void;
+  onClose: (info?: LiveCloseInfo) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveConnection {
+  sendAudio: (chunk: LiveAudioChunk) => void;
+  sendToolResult: (call: LiveToolCall, result: LiveToolResult) => void;
+  close: () => void;
+}
+
+export interface AIProvider {
+  name: string;
+  analyzeDocument: (pages: DocumentPage[], language: Language) => Promise<AnalysisResult>;
+  // Same result in another language, without sending the document again
+  translateAnalysis: (result: AnalysisResult, from: Language, to: Language) => Promise<AnalysisResult>;
+  createDocumentChat: (pages: DocumentPage[], language: Language, history?: ChatTurn[]) => Promise<DocumentChat>;
+  connectLive: (options: LiveConnectOptions, events: LiveEvents) => Promise<LiveConnection>;
+  // Optional: without it, read-aloud uses the browser's own speech synthesis
+  synthesizeSpeech?: (text: string, language: Language) => Promise<SpeechAudio>;
+}
+
+const providers: Record<string, AIProvider> = {
+  [proxyProvider.name]: proxyProvider,
+  [mockProvider.name]: mockProvider,
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Make an additional backend (e.g. a self-hosted model) selectable by name
+export const registerAIProvider = (provider: AIProvider) => {
+  providers[provider.name] = provider;
+};
+
+// Override the provider for the rest of the session (used by tests and dev tooling)
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+// Selected at build time with AI_PROVIDER (defaults to the Gemini proxy server)
+export const getAIProvider = (): AIProvider => {
+  if (activeProvider) return activeProvider;
+
+  const name = process.env.AI_PROVIDER || proxyProvider.name;
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown AI provider "${name}". Available: ${Object.keys(providers).join(', ')}`);
+  }
+
+  activeProvider = provider;
+  return provider;
+};
@@ -0,0 +1,101 @@
+import { AnalysisResult, Language } from '../types';
+import { getAIProvider } from './aiProvider';
+import { ANALYSIS_PROMPT_VERSION } from './geminiService';
+
+// Analyses are cached per document (content hash of the processed pages), language and prompt version,
+// so uploading the same notice again loads instantly instead of calling the model
+interface CachedAnalysis {
+  result: AnalysisResult;
+  savedAt: number;
+}
+
+const STORAGE_PREFIX = 'pathfinder:analysis:';
+const MAX_ENTRIES = 40;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Results from another provider or an older prompt never match, and get swept on the next save
+const currentVersion = () => `${getAIProvider().name}-v${ANALYSIS_PROMPT_VERSION}`;
+
+const buildKey = (hash: string, language: Language) => `${STORAGE_PREFIX}${currentVersion()}:${language}:${hash}`;
+
+const listCacheKeys = (): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_PREFIX)) keys.push(key);
+  }
+  return keys;
+};
+
+const readEntry = (key: string): CachedAnalysis | undefined => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Drop stale, unreadable and expired entries, then the oldest ones until `room` more fit under the limit
+const evict = (room: number) => {
+  const now = Date.now();
+  const prefix = `${STORAGE_PREFIX}${currentVersion()}:`;
+  const live: { key: string; savedAt: number }[] = [];
+
+  listCacheKeys().forEach(key => {
+    const entry = key.startsWith(prefix) ? readEntry(key) : undefined;
+    if (!entry?.result || !(now - entry.savedAt < MAX_AGE_MS)) {
+      localStorage.removeItem(key);
+    } else {
+      live.push({ key, savedAt: entry.savedAt });
+    }
+  });
+
+  live
+    .sort((a, b) => a.savedAt - b.savedAt)
+    .slice(0, Math.max(0, live.length + room - MAX_ENTRIES))
+    .forEach(({ key }) => localStorage.removeItem(key));
+};
+
+export const getCachedAnalysis = (hash: string, language: Language): AnalysisResult | undefined => {
+  try {
+    const key = buildKey(hash, language);
+    const entry = readEntry(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.savedAt >= MAX_AGE_MS) {
+      localStorage.removeItem(key);
+      return undefined;
+    }
+    return entry.result;
+  } catch (e) {
+    console.warn("Could not read analysis cache", e);
+    return undefined;
+  }
+};
+
+export const cacheAnalysis = (hash: string, language: Language, result: AnalysisResult) => {
+  const value = JSON.stringify({ result, savedAt: Date.now() } as CachedAnalysis);
+  try {
+    evict(1);
+    localStorage.setItem(buildKey(hash, language), value);
+  } catch (e) {
+    // Storage is full: make room by keeping only the newest half, then try once more
+    try {
+      evict(Math.ceil(MAX_ENTRIES / 2));
+      localStorage.setItem(buildKey(hash, language), value);
+    } catch (retryError) {
+      console.warn("Could not cache analysis", retryError);
+    }
+  }
+};
+
+// Forget a document in every language, e.g. before re-analyzing it or when it is deleted
+export const clearCachedAnalyses = (hash: string) => {
+  try {
+    listCacheKeys()
+      .filter(key => key.endsWith(`:${hash}`))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.warn("Could not clear analysis cache", e);
+  }
+};
@@ -0,0 +1,230 @@
+import { AnalysisResult, ActionItem, CaseMetadata, Deadline, DeadlineType, KeyFinding, NoticeStage, Sentiment, SimplifiedTerm } from '../types';
+import { parseDeadlineDate } from './deadlineService';
+
+// Thrown when the model output can't be turned into a usable AnalysisResult, even after a repair attempt
+export class AnalysisValidationError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+export interface ValidationOutcome {
+  // null when the output is unusable and needs a repair attempt
+  result: AnalysisResult | null;
+  // Everything that was wrong, including problems that were fixed with defaults
+  issues: string[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const asBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true') return true;
+    if (normalized === 'false') return false;
+  }
+  return undefined;
+};
+
+const asIsoDate = (value: unknown): string | undefined => {
+  const text = asString(value);
+  return text && parseDeadlineDate(text) ? text.slice(0, 10) : undefined;
+};
+
+const asPage = (value: unknown): number | undefined => {
+  const page = Math.round(Number(value));
+  return Number.isFinite(page) && page >= 1 ? page : undefined;
+};
+
+// Models sometimes wrap arrays in a newline-joined string instead of a list
+const asArray = (value: unknown, field: string, issues: string[]): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    issues.push(`${field} was a string, split into a list`);
+    return value.split('\n').map(line => line.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim()).filter(Boolean);
+  }
+  if (value !== undefined && value !== null) issues.push(`${field} was not a list, replaced with an empty list`);
+  else issues.push(`${field} was missing, replaced with an empty list`);
+  return [];
+};
+
+export const normalizeSentiment = (value: unknown): Sentiment => {
+  const text = (asString(value) || '').toUpperCase();
+  if (text.includes('POSITIVE') || text === 'GOOD') return Sentiment.POSITIVE;
+  if (text.includes('NEGATIVE') || text === 'BAD') return Sentiment.NEGATIVE;
+  if (text.includes('NEUTRAL')) return Sentiment.NEUTRAL;
+  return Sentiment.UNKNOWN;
+};
+
+export const normalizeDeadlineType = (value: unknown): DeadlineType | undefined => {
+  const text = (asString(value) || '').toUpperCase().replace(/[\s-]+/g, '_');
+  if (!text) return undefined;
+  if (text.includes('RESPOND') || text.includes('RESPONSE') || text.includes('FILE') || text.includes('DUE')) return DeadlineType.RESPOND_BY;
+  if (text.includes('APPOINTMENT') || text.includes('BIOMETRIC') || text.includes('INTERVIEW')) return DeadlineType.APPOINTMENT;
+  if (text.includes('EXPIR')) return DeadlineType.EXPIRY;
+  if (text.includes('HEARING') || text.includes('COURT')) return DeadlineType.HEARING;
+  return undefined;
+};
+
+// Checked in order: "Notice of Intent to Deny" is an RFE-like step, and approval notices often mention the card
+const NOTICE_STAGE_KEYWORDS: [NoticeStage, string[]][] = [
+  [NoticeStage.CARD_PRODUCED, ['CARD_PRODUCED', 'CARD PRODUCTION', 'CARD IS BEING PRODUCED', 'CARD WAS MAILED', 'PRODUCCIÓN DE TARJETA', 'TARJETA FUE ENVIADA']],
+  [NoticeStage.RFE, ['RFE', 'REQUEST FOR EVIDENCE', 'INTENT TO DENY', 'NOID', 'SOLICITUD DE EVIDENCIA', 'INTENCIÓN DE DENEGAR']],
+  [NoticeStage.DENIAL, ['DENIAL', 'DENIED', 'DENEGACIÓN', 'DENEGADA', 'DENEGADO']],
+  [NoticeStage.APPROVAL, ['APPROVAL', 'APPROVED', 'APROBACIÓN', 'APROBADA', 'APROBADO']],
+  [NoticeStage.INTERVIEW, ['INTERVIEW', 'ENTREVISTA']],
+  [NoticeStage.BIOMETRICS, ['BIOMETRIC', 'FINGERPRINT', 'BIOMÉTRICO', 'HUELLAS']],
+  [NoticeStage.RECEIPT, ['RECEIPT', 'RECIBO']],
+];
+
+// Accepts the enum value or free text such as a document title
+export const normalizeNoticeStage = (value: unknown): NoticeStage | undefined => {
+  const text = (asString(value) || '').toUpperCase();
+  if (!text) return undefined;
+  if ((Object.values(NoticeStage) as string[]).includes(text)) return text as NoticeStage;
+  const match = NOTICE_STAGE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => text.includes(keyword)));
+  return match?.[0];
+};
+
+const normalizeActionItems = (value: unknown, issues: string[]): ActionItem[] =>
+  asArray(value, 'actionItems', issues).flatMap((item, idx): ActionItem[] => {
+    if (typeof item === 'string') return [{ title: item, details: '' }];
+    if (!isRecord(item) || !asString(item.title)) {
+      issues.push(`actionItems[${idx}] had no title and was dropped`);
+      return [];
+    }
+    return [{
+      title: asString(item.title)!,
+      details: asString(item.details) || '',
+      dueDate: asIsoDate(item.dueDate),
+      requiredDocument: asString(item.requiredDocument) || undefined,
+    }];
+  });
+
+const normalizeDeadlines = (value: unknown, issues: string[]): Deadline[] =>
+  asArray(value, 'deadlines', issues).flatMap((item, idx): Deadline[] => {
+    const date = isRecord(item) ? asIsoDate(item.date) : undefined;
+    if (!isRecord(item) || !date) {
+      issues.push(`deadlines[${idx}] had no valid ISO date and was dropped`);
+      return [];
+    }
+    const type = normalizeDeadlineType(item.type);
+    if (!type) issues.push(`deadlines[${idx}].type "${String(item.type)}" is unknown, defaulted to ${DeadlineType.RESPOND_BY}`);
+    const isEstimated = asBoolean(item.isEstimated);
+    return [{
+      date,
+      type: type || DeadlineType.RESPOND_BY,
+      sourceText: asString(item.sourceText) || '',
+      // When unsure, flag the date so the UI tells the user to double-check it
+      isEstimated: isEstimated === undefined ? true : isEstimated,
+      page: asPage(item.page),
+    }];
+  });
+
+const normalizeTerms = (value: unknown, issues: string[]): SimplifiedTerm[] =>
+  asArray(value, 'simplifiedTerms', issues).flatMap((item): SimplifiedTerm[] => {
+    if (!isRecord(item) || !asString(item.term) || !asString(item.definition)) return [];
+    return [{ term: asString(item.term)!, definition: asString(item.definition)! }];
+  });
+
+const normalizeFindings = (value: unknown, issues: string[]): KeyFinding[] =>
+  asArray(value, 'keyFindings', issues).flatMap((item): KeyFinding[] => {
+    if (typeof item === 'string') return [{ finding: item, page: 1 }];
+    if (!isRecord(item) || !asString(item.finding)) return [];
+    return [{ finding: asString(item.finding)!, page: asPage(item.page) || 1 }];
+  });
+
+const CASE_METADATA_FIELDS: (keyof CaseMetadata)[] = [
+  'receiptNumber', 'aNumber', 'priorityDate', 'noticeDate', 'serviceCenter', 'beneficiaryName', 'petitionerName',
+];
+
+const normalizeCaseMetadata = (value: unknown, issues: string[]): CaseMetadata => {
+  if (!isRecord(value)) {
+    if (value !== undefined) issues.push('caseMetadata was not an object, replaced with an empty object');
+    return {};
+  }
+  const metadata: CaseMetadata = {};
+  CASE_METADATA_FIELDS.forEach(field => {
+    const text = asString(value[field]);
+    if (text) metadata[field] = text;
+  });
+  return metadata;
+};
+
+// Mirrors analysisSchema: coerces what can be coerced, fills safe defaults,
+// and only rejects output that is missing the core fields the UI can't do without.
+export const validateAnalysisResult = (raw: unknown): ValidationOutcome => {
+  const issues: string[] = [];
+
+  if (!isRecord(raw)) {
+    return { result: null, issues: ['Response is not a JSON object'] };
+  }
+
+  const isImmigrationDocument = asBoolean(raw.isImmigrationDocument);
+  if (isImmigrationDocument === undefined) {
+    return { result: null, issues: ['isImmigrationDocument is missing or not a boolean'] };
+  }
+
+  const documentType = asString(raw.documentType) || '';
+  const whatIsThis = asString(raw.whatIsThis) || '';
+  const goodOrBadNews = asString(raw.goodOrBadNews) || '';
+
+  // Placeholders are fine for non-immigration documents; real analyses need their core text
+  if (isImmigrationDocument) {
+    const missing = [
+      !documentType && 'documentType',
+      !whatIsThis && 'whatIsThis',
+      !goodOrBadNews && 'goodOrBadNews',
+    ].filter(Boolean);
+    if (missing.length > 0) {
+      return { result: null, issues: [`Required text fields are empty: ${missing.join(', ')}`] };
+    }
+  }
+
+  const noticeStage = normalizeNoticeStage(raw.noticeStage) || normalizeNoticeStage(documentType) || NoticeStage.OTHER;
+  if (noticeStage !== raw.noticeStage) issues.push(`noticeStage "${String(raw.noticeStage)}" normalized to ${noticeStage}`);
+
+  const sentiment = normalizeSentiment(raw.sentiment);
+  if (sentiment !== raw.sentiment) issues.push(`sentiment "${String(raw.sentiment)}" normalized to ${sentiment}`);
+
+  const result: AnalysisResult = {
+    isImmigrationDocument,
+    documentType,
+    noticeStage,
+    caseMetadata: normalizeCaseMetadata(raw.caseMetadata, issues),
+    whatIsThis,
+    actionItems: normalizeActionItems(raw.actionItems, issues),
+    deadlines: normalizeDeadlines(raw.deadlines, issues),
+    goodOrBadNews,
+    sentiment,
+    requiredDocuments: asArray(raw.requiredDocuments, 'requiredDocuments', issues)
+      .map(asString)
+      .filter((doc): doc is string => !!doc),
+    exampleOfRequirement: asString(raw.exampleOfRequirement) || undefined,
+    simplifiedTerms: normalizeTerms(raw.simplifiedTerms, issues),
+    keyFindings: normalizeFindings(raw.keyFindings, issues),
+  };
+
+  return { result, issues };
+};
+
+// Parse raw model text (tolerating a Markdown code fence) and validate it
+export const parseAnalysisText = (text: string): ValidationOutcome => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return validateAnalysisResult(JSON.parse(cleaned));
+  } catch (e) {
+    return { result: null, issues: [`Response is not valid JSON: ${(e as Error).message}`] };
+  }
+};
@@ -0,0 +1,158 @@
+// Microphone capture for live calls. An AudioWorklet does the work off the main thread:
+// it low-pass filters and resamples from the device rate (usually 44.1 or 48 kHz) to the 16 kHz
+// the live API expects, clamps samples to 16-bit range, and posts them in small batches.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+// 40 ms per message: short enough that speech reaches the model quickly,
+// long enough that posting and base64-encoding chunks doesn't keep the main thread busy
+const CHUNK_MS = 40;
+
+const PROCESSOR_NAME = 'pathfinder-pcm-capture';
+
+// Loaded from a Blob URL so it works without a separate static file in every build setup
+const WORKLET_SOURCE = `
+const TAP_COUNT = 31;
+
+// Windowed-sinc low-pass, cutoff given in cycles per input sample
+const buildLowPass = (cutoff) => {
+  const taps = new Float32Array(TAP_COUNT);
+  const middle = (TAP_COUNT - 1) / 2;
+  let sum = 0;
+  for (let n = 0; n < TAP_COUNT; n++) {
+    const x = n - middle;
+    const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+    const blackman = 0.42 - 0.5 * Math.cos((2 * Math.PI * n) / (TAP_COUNT - 1)) + 0.08 * Math.cos((4 * Math.PI * n) / (TAP_COUNT - 1));
+    taps[n] = sinc * blackman;
+    sum += taps[n];
+  }
+  return taps.map(tap => tap / sum);
+};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    // Input samples per output sample
+    this.step = sampleRate / targetRate;
+    // Keep 90% of the target band; nothing to filter when upsampling
+    this.taps = this.step > 1 ? buildLowPass(0.45 / this.step) : new Float32Array([1]);
+    this.history = new Float32Array(this.taps.length);
+    this.historyIndex = 0;
+    this.filtered = new Float32Array(128);
+    // Read position of the next output sample, relative to the start of the current block.
+    // -1 points at the last filtered sample of the previous block.
+    this.position = 0;
+    this.previous = 0;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.chunkLength = 0;
+  }
+
+  filter(input) {
+    if (this.filtered.length < input.length) this.filtered = new Float32Array(input.length);
+    const { taps, history } = this;
+    const size = taps.length;
+    for (let i = 0; i < input.length; i++) {
+      history[this.historyIndex] = input[i];
+      let sum = 0;
+      for (let k = 0, index = this.historyIndex; k < size; k++) {
+        sum += taps[k] * history[index];
+        index = index === 0 ? size - 1 : index - 1;
+      }
+      this.filtered[i] = sum;
+      this.historyIndex = (this.historyIndex + 1) % size;
+    }
+    return this.filtered;
+  }
+
+  emit(sample) {
+    // Clamp before converting so loud input saturates instead of wrapping around
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkLength++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (this.chunkLength === this.chunkSize) {
+      this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.chunkLength = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || input.length === 0) return true;
+
+    const filtered = this.filter(input);
+    const length = input.length;
+
+    // Linear interpolation between filtered samples at the target rate
+    while (this.position < length - 1) {
+      const index = Math.floor(this.position);
+      const fraction = this.position - index;
+      const a = index < 0 ? this.previous : filtered[index];
+      const b = filtered[index + 1];
+      this.emit(a + (b - a) * fraction);
+      this.position += this.step;
+    }
+    this.position -= length;
+    this.previous = filtered[length - 1];
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Each AudioContext needs the module once
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const loadWorklet = async (context: AudioContext) => {
+  if (loadedContexts.has(context)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export interface MicrophoneCapture {
+  stop: () => void;
+}
+
+// Stream 16 kHz mono 16-bit PCM from `stream` to `onChunk`, one CHUNK_MS batch at a time
+export const startMicrophoneCapture = async (
+  context: AudioContext,
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void
+): Promise<MicrophoneCapture> => {
+  if (!context.audioWorklet) {
+    throw new Error("This browser does not support AudioWorklet");
+  }
+  await loadWorklet(context);
+  if (context.state === 'suspended') await context.resume();
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    // No output: the node is a sink, so it keeps processing without being wired to the speakers
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      chunkSize: Math.round((CAPTURE_SAMPLE_RATE * CHUNK_MS) / 1000),
+    },
+  });
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(event.data));
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+};
@@ -0,0 +1,145 @@
+import { AnalysisResult, Deadline, Language } from '../types';
+import { translations, interpolate } from '../locales';
+import { parseDeadlineDate, daysUntil } from './deadlineService';
+
+// Alarms fire this many days before each event
+export const REMINDER_DAYS = [30, 7, 1];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (d: Date) => `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+
+const formatTimestamp = (d: Date) =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+// RFC 5545 3.3.11: escape backslashes, separators and newlines in TEXT values
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 3.1: lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'document';
+
+// Only dated deadlines that haven't passed are worth putting on a calendar
+export const getExportableDeadlines = (result: AnalysisResult, now: Date = new Date()): Deadline[] =>
+  (result.deadlines || []).filter(d => {
+    const days = daysUntil(d.date, now);
+    return days !== null && days >= 0;
+  });
+
+const buildDescription = (result: AnalysisResult, deadline: Deadline, language: Language) => {
+  const t = translations[language];
+  const lines = [
+    `${t.calendarFromLetter} "${deadline.sourceText}"`,
+    '',
+    t.calendarWhatToDo,
+    ...(result.actionItems || []).map((item, idx) => `${idx + 1}. ${item.title}`),
+    '',
+    t.disclaimer,
+  ];
+  return lines.join('\n');
+};
+
+export const buildCalendar = (
+  result: AnalysisResult,
+  language: Language,
+  now: Date = new Date(),
+  deadlines: Deadline[] = getExportableDeadlines(result, now)
+): string => {
+  const t = translations[language];
+  const stamp = formatTimestamp(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PathFinder//Immigration Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  deadlines.forEach((deadline, idx) => {
+    const start = parseDeadlineDate(deadline.date);
+    if (!start) return;
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    const summary = `${t.deadlineTypes[deadline.type] || deadline.type}: ${result.documentType}`;
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${formatDate(start)}-${deadline.type.toLowerCase()}-${idx}-${slugify(result.documentType)}@pathfinder`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(start)}`,
+      `DTEND;VALUE=DATE:${formatDate(end)}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `DESCRIPTION:${escapeText(buildDescription(result, deadline, language))}`,
+      'TRANSP:TRANSPARENT',
+    );
+
+    REMINDER_DAYS.forEach(days => {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-P${days}D`,
+        `DESCRIPTION:${escapeText(interpolate(t.calendarReminder, { event: summary }))}`,
+        'END:VALARM',
+      );
+    });
+
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const downloadIcs = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadCalendar = (result: AnalysisResult, language: Language) =>
+  downloadIcs(buildCalendar(result, language), `pathfinder-${slugify(result.documentType)}.ics`);
+
+// One deadline on its own, with the same reminders as the full calendar
+export const downloadDeadlineReminder = (result: AnalysisResult, deadline: Deadline, language: Language) =>
+  downloadIcs(
+    buildCalendar(result, language, new Date(), [deadline]),
+    `pathfinder-${slugify(result.documentType)}-${deadline.date.slice(0, 10)}.ics`
+  );
@@ -0,0 +1,165 @@
+import { CallAction, CallTranscript, CallTurn, Language } from '../types';
+import { translations, interpolate } from '../locales';
+
+export type TranscriptFormat = 'text' | 'json';
+
+export interface CallSummary {
+  durationMs: number;
+  userTurns: number;
+  modelTurns: number;
+  interruptedTurns: number;
+  actions: number;
+}
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'document';
+
+export const createCallTranscript = (language: Language, now: number = Date.now()): CallTranscript => ({
+  id: `call-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  language,
+  startedAt: now,
+  turns: [],
+});
+
+// Transcription arrives a few words at a time; words from the same speaker extend their current turn.
+// An interrupted answer stays closed, so whatever the model says next starts a new turn.
+export const addTranscriptText = (
+  call: CallTranscript,
+  text: string,
+  role: CallTurn['role'],
+  now: number = Date.now()
+): CallTranscript => {
+  const last = call.turns[call.turns.length - 1];
+  if (last && last.role === role && !last.interrupted && !last.action) {
+    return { ...call, turns: [...call.turns.slice(0, -1), { ...last, text: last.text + text, endedAt: now }] };
+  }
+  return { ...call, turns: [...call.turns, { role, text, startedAt: now, endedAt: now }] };
+};
+
+// Recorded as its own turn, between the words that led to it and the reply about it
+export const addCallAction = (call: CallTranscript, action: CallAction, now: number = Date.now()): CallTranscript => ({
+  ...call,
+  turns: [...call.turns, { role: 'model', text: action.target, startedAt: now, endedAt: now, action }],
+});
+
+// The user started talking over the answer that was playing: the latest one
+export const markInterrupted = (call: CallTranscript, now: number = Date.now()): CallTranscript => {
+  let index = -1;
+  call.turns.forEach((turn, i) => {
+    if (turn.role === 'model' && !turn.action) index = i;
+  });
+  if (index === -1 || call.turns[index].interrupted) return call;
+  const turns = call.turns.map((turn, i) => (i === index ? { ...turn, interrupted: true, endedAt: Math.max(turn.endedAt, now) } : turn));
+  return { ...call, turns };
+};
+
+export const endCall = (call: CallTranscript, now: number = Date.now()): CallTranscript => ({
+  ...call,
+  endedAt: call.endedAt ?? now,
+  // Transcription sometimes sends stray whitespace on its own
+  turns: call.turns
+    .map(turn => ({ ...turn, text: turn.text.trim() }))
+    .filter(turn => turn.text),
+});
+
+export const summarizeCall = (call: CallTranscript, now: number = Date.now()): CallSummary => ({
+  durationMs: Math.max(0, (call.endedAt ?? now) - call.startedAt),
+  userTurns: call.turns.filter(turn => turn.role === 'user').length,
+  modelTurns: call.turns.filter(turn => turn.role === 'model' && !turn.action).length,
+  interruptedTurns: call.turns.filter(turn => turn.interrupted).length,
+  actions: call.turns.filter(turn => turn.action).length,
+});
+
+// "Checked off: Birth certificate", in the reader's language
+export const describeCallAction = (action: CallAction, language: Language): string => {
+  const t = translations[language];
+  const labels: Record<CallAction['kind'], string> = {
+    check_document: t.voiceActionCheckDocument,
+    uncheck_document: t.voiceActionUncheckDocument,
+    highlight_term: t.voiceActionHighlightTerm,
+    add_reminder: t.voiceActionAddReminder,
+    open_form: t.voiceActionOpenForm,
+  };
+  return interpolate(labels[action.kind], { target: action.target });
+};
+
+// "4:05", or "1:02:09" for very long calls
+export const formatCallDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Where in the call a turn started, e.g. "2:31"
+export const formatTurnOffset = (call: CallTranscript, turn: CallTurn) =>
+  formatCallDuration(turn.startedAt - call.startedAt);
+
+const formatDateTime = (time: number, language: Language) =>
+  new Date(time).toLocaleString(language, { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Plain text for reading or printing, labelled in the reader's language
+export const buildTranscriptText = (call: CallTranscript, documentType: string, language: Language): string => {
+  const t = translations[language];
+  const summary = summarizeCall(call);
+  const lines = [
+    `${t.callTranscriptTitle}: ${documentType}`,
+    interpolate(t.callStarted, { date: formatDateTime(call.startedAt, language) }),
+    `${t.callDuration}: ${formatCallDuration(summary.durationMs)}`,
+    '',
+    ...call.turns.map(turn => {
+      const speaker = turn.role === 'user' ? t.callSpeakerYou : t.callSpeakerAssistant;
+      if (turn.action) {
+        const link = turn.action.url ? ` <${turn.action.url}>` : '';
+        return `[${formatTurnOffset(call, turn)}] ${speaker} → ${describeCallAction(turn.action, language)}${link}`;
+      }
+      const marker = turn.interrupted ? ` (${t.callInterrupted})` : '';
+      return `[${formatTurnOffset(call, turn)}] ${speaker}: ${turn.text}${marker}`;
+    }),
+    '',
+    t.disclaimer,
+  ];
+  return lines.join('\n');
+};
+
+// Machine-readable, with absolute times, for records or an attorney's case file
+export const buildTranscriptJson = (call: CallTranscript, documentType: string): string => {
+  const summary = summarizeCall(call);
+  return JSON.stringify({
+    type: 'pathfinder-call-transcript',
+    version: 1,
+    document: documentType,
+    language: call.language,
+    startedAt: new Date(call.startedAt).toISOString(),
+    endedAt: call.endedAt ? new Date(call.endedAt).toISOString() : null,
+    durationSeconds: Math.round(summary.durationMs / 1000),
+    turns: call.turns.map(turn => ({
+      speaker: turn.role === 'user' ? 'user' : 'assistant',
+      text: turn.text,
+      startedAt: new Date(turn.startedAt).toISOString(),
+      endedAt: new Date(turn.endedAt).toISOString(),
+      offsetSeconds: Math.round((turn.startedAt - call.startedAt) / 1000),
+      interrupted: !!turn.interrupted,
+      ...(turn.action && { action: { type: turn.action.kind, target: turn.action.target, url: turn.action.url } }),
+    })),
+  }, null, 2);
+};
+
+export const downloadTranscript = (call: CallTranscript, documentType: string, language: Language, format: TranscriptFormat) => {
+  const content = format === 'json' ? buildTranscriptJson(call, documentType) : buildTranscriptText(call, documentType, language);
+  const type = format === 'json' ? 'application/json;charset=utf-8' : 'text/plain;charset=utf-8';
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const date = new Date(call.startedAt).toISOString().slice(0, 10);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `pathfinder-call-${slugify(documentType)}-${date}.${format === 'json' ? 'json' : 'txt'}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,58 @@
+import { CaseMetadata } from '../types';
+
+// Three-letter receipt prefixes and the USCIS office each one belongs to
+export const RECEIPT_CENTERS: Record<string, string> = {
+  EAC: 'Vermont Service Center',
+  VSC: 'Vermont Service Center',
+  WAC: 'California Service Center',
+  CSC: 'California Service Center',
+  LIN: 'Nebraska Service Center',
+  NSC: 'Nebraska Service Center',
+  SRC: 'Texas Service Center',
+  TSC: 'Texas Service Center',
+  YSC: 'Potomac Service Center',
+  NBC: 'National Benefits Center',
+  MSC: 'National Benefits Center',
+  IOE: 'USCIS Online (ELIS)',
+};
+
+const RECEIPT_PATTERN = /^[A-Z]{3}\d{10}$/;
+const A_NUMBER_PATTERN = /^A\d{7,9}$/;
+
+export interface ReceiptNumberCheck {
+  value: string;
+  isValid: boolean;
+  center?: string;
+}
+
+// Receipt numbers are often printed with dashes or spaces (e.g., "EAC-21-900-12345")
+export const normalizeReceiptNumber = (raw: string): string =>
+  raw.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const checkReceiptNumber = (raw: string): ReceiptNumberCheck => {
+  const value = normalizeReceiptNumber(raw);
+  // Any three-letter prefix is valid: field offices and newer systems use codes outside the table,
+  // which only names the office when it knows it
+  const isValid = RECEIPT_PATTERN.test(value);
+  return {
+    value,
+    isValid,
+    center: isValid ? RECEIPT_CENTERS[value.slice(0, 3)] : undefined,
+  };
+};
+
+export const normalizeANumber = (raw: string): string => {
+  const digits = raw.replace(/\D/g, '');
+  return digits ? `A${digits}` : '';
+};
+
+export const isValidANumber = (raw: string): boolean => A_NUMBER_PATTERN.test(normalizeANumber(raw));
+
+// Display format used on USCIS notices: A-123-456-789
+export const formatANumber = (raw: string): string => {
+  const digits = normalizeANumber(raw).slice(1).padStart(9, '0');
+  return `A-${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+};
+
+export const hasCaseMetadata = (metadata?: CaseMetadata): boolean =>
+  !!metadata && Object.values(metadata).some(value => typeof value === 'string' && value.trim().length > 0);
@@ -0,0 +1,80 @@
+import { AnalysisResult, Language, NoticeStage } from '../types';
+import { HistoryEntry } from './historyService';
+import { normalizeNoticeStage } from './analysisValidator';
+import { checkReceiptNumber } from './caseMetadataService';
+import { parseDeadlineDate } from './deadlineService';
+
+export interface TimelineEvent {
+  documentId: string;
+  documentType: string;
+  stage: NoticeStage;
+  noticeDate?: string; // ISO 8601 calendar date (YYYY-MM-DD)
+  // Notice date when printed, otherwise when the document was first analyzed
+  time: number;
+}
+
+// All saved notices that share one receipt number, oldest first
+export interface CaseTimeline {
+  receiptNumber: string;
+  events: TimelineEvent[];
+  currentStage: NoticeStage;
+  nextStages: NoticeStage[];
+}
+
+// What usually follows each step. Real cases can skip steps (e.g. no interview) or repeat them.
+const NEXT_STAGES: Record<NoticeStage, NoticeStage[]> = {
+  [NoticeStage.RECEIPT]: [NoticeStage.BIOMETRICS],
+  [NoticeStage.BIOMETRICS]: [NoticeStage.INTERVIEW, NoticeStage.RFE, NoticeStage.APPROVAL],
+  [NoticeStage.RFE]: [NoticeStage.APPROVAL, NoticeStage.INTERVIEW, NoticeStage.DENIAL],
+  [NoticeStage.INTERVIEW]: [NoticeStage.APPROVAL, NoticeStage.RFE, NoticeStage.DENIAL],
+  [NoticeStage.APPROVAL]: [NoticeStage.CARD_PRODUCED],
+  [NoticeStage.CARD_PRODUCED]: [],
+  [NoticeStage.DENIAL]: [],
+  [NoticeStage.OTHER]: [],
+};
+
+// Use the result in the reader's language, falling back to whichever one was saved
+const pickResult = (entry: HistoryEntry, language: Language): AnalysisResult | undefined =>
+  entry.results[language] || Object.values(entry.results)[0];
+
+export const getNoticeStage = (result: AnalysisResult): NoticeStage =>
+  result.noticeStage || normalizeNoticeStage(result.documentType) || NoticeStage.OTHER;
+
+// Only well-formed receipt numbers link documents, so a misread digit can't merge two cases
+export const getCaseKey = (result: AnalysisResult): string | undefined => {
+  const raw = result.caseMetadata?.receiptNumber;
+  if (!raw) return undefined;
+  const receipt = checkReceiptNumber(raw);
+  return receipt.isValid ? receipt.value : undefined;
+};
+
+const toEvent = (entry: HistoryEntry, result: AnalysisResult): TimelineEvent => {
+  const noticeDate = result.caseMetadata?.noticeDate;
+  const parsed = noticeDate ? parseDeadlineDate(noticeDate) : null;
+  return {
+    documentId: entry.id,
+    documentType: result.documentType,
+    stage: getNoticeStage(result),
+    noticeDate: parsed ? noticeDate : undefined,
+    time: parsed ? parsed.getTime() : entry.createdAt,
+  };
+};
+
+export const buildCaseTimelines = (entries: HistoryEntry[], language: Language): CaseTimeline[] => {
+  const cases = new Map<string, TimelineEvent[]>();
+
+  entries.forEach(entry => {
+    const result = pickResult(entry, language);
+    const key = result && getCaseKey(result);
+    if (!key) return;
+    cases.set(key, [...(cases.get(key) || []), toEvent(entry, result)]);
+  });
+
+  return Array.from(cases, ([receiptNumber, events]) => {
+    const sorted = [...events].sort((a, b) => a.time - b.time);
+    // A generic letter (e.g. a transfer notice) shouldn't hide the last real step
+    const latest = [...sorted].reverse().find(event => event.stage !== NoticeStage.OTHER);
+    const currentStage = latest?.stage || NoticeStage.OTHER;
+    return { receiptNumber, events: sorted, currentStage, nextStages: NEXT_STAGES[currentStage] };
+  }).sort((a, b) => b.events[b.events.length - 1].time - a.events[a.events.length - 1].time);
+};
@@ -0,0 +1,47 @@
+import { Deadline } from '../types';
+
+// Deadlines closer than this are flagged as urgent in the UI
+export const URGENT_THRESHOLD_DAYS = 14;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type DeadlineStatus = 'past' | 'urgent' | 'upcoming';
+
+// Parse "YYYY-MM-DD" as a local calendar date so the countdown doesn't shift with the user's timezone
+export const parseDeadlineDate = (iso: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec((iso || '').trim());
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  // Date rolls impossible dates over ("2025-02-30" becomes March 2); those aren't the date on the letter
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+// Whole days from today until the deadline (negative once it has passed)
+export const daysUntil = (iso: string, now: Date = new Date()): number | null => {
+  const date = parseDeadlineDate(iso);
+  if (!date) return null;
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  // Round to absorb the one-hour daylight saving shift
+  return Math.round((date.getTime() - today.getTime()) / MS_PER_DAY);
+};
+
+export const getDeadlineStatus = (days: number): DeadlineStatus => {
+  if (days < 0) return 'past';
+  if (days < URGENT_THRESHOLD_DAYS) return 'urgent';
+  return 'upcoming';
+};
+
+// Chronological order; entries with unreadable dates go last
+export const sortDeadlines = (deadlines: Deadline[]): Deadline[] =>
+  [...deadlines].sort((a, b) => {
+    const dateA = parseDeadlineDate(a.date);
+    const dateB = parseDeadlineDate(b.date);
+    if (!dateA && !dateB) return 0;
+    if (!dateA) return 1;
+    if (!dateB) return -1;
+    return dateA.getTime() - dateB.getTime();
+  });
@@ -0,0 +1,190 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { DocumentPage } from '../types';
+
+// One page on screen: an uploaded image, or one page of an uploaded PDF.
+// The analysis' "page" numbers count these in upload order, starting at 1.
+export interface ViewerPage {
+  // Index into the uploaded files
+  file: number;
+  // 1-based page within a PDF; always 1 for images
+  page: number;
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface RenderOptions {
+  // CSS pixels the page should fill across at 100% zoom
+  width: number;
+  zoom: number;
+  rotation: Rotation;
+}
+
+export interface RenderHandle {
+  promise: Promise<void>;
+  cancel: () => void;
+}
+
+// Past this many canvas pixels mobile browsers start dropping the canvas; sharpness gives way first
+const MAX_CANVAS_PIXELS = 16_000_000;
+// Longest side of a PDF page turned into a picture: sharp enough to read small print, small enough to send
+const MAX_IMAGE_SIDE = 1600;
+
+const isPdf = (file: DocumentPage) => file.mimeType === 'application/pdf';
+
+const toBytes = (base64: string) => Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+
+// pdf.js is large, so it's only loaded once someone opens a PDF. Its worker code is imported as a module
+// (it registers itself on globalThis) rather than started from a URL, which works the same through the
+// import map and through Vite. Letters are a few pages, so parsing on the main thread is fine.
+// The legacy build runs on the older phones many of our users have; the default one needs the newest browsers.
+let pdfjsPromise: Promise<typeof import('pdfjs-dist/legacy/build/pdf.mjs')> | null = null;
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.worker.min.mjs').then(() => import('pdfjs-dist/legacy/build/pdf.mjs'));
+    // Let a later attempt retry, e.g. after the connection comes back
+    pdfjsPromise.catch(() => {
+      pdfjsPromise = null;
+    });
+  }
+  return pdfjsPromise;
+};
+
+// Keyed by the page object itself, so a document is parsed once however often it's shown
+const pdfCache = new WeakMap<DocumentPage, Promise<PDFDocumentProxy>>();
+const imageCache = new WeakMap<DocumentPage, Promise<HTMLImageElement>>();
+
+const loadPdf = (file: DocumentPage): Promise<PDFDocumentProxy> => {
+  let pdf = pdfCache.get(file);
+  if (!pdf) {
+    pdf = loadPdfjs().then(pdfjs => pdfjs.getDocument({ data: toBytes(file.base64) }).promise);
+    pdf.catch(() => pdfCache.delete(file));
+    pdfCache.set(file, pdf);
+  }
+  return pdf;
+};
+
+const loadImage = (file: DocumentPage): Promise<HTMLImageElement> => {
+  let image = imageCache.get(file);
+  if (!image) {
+    image = new Promise((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Could not load ${file.name}`));
+      img.src = `data:${file.mimeType};base64,${file.base64}`;
+    });
+    image.catch(() => imageCache.delete(file));
+    imageCache.set(file, image);
+  }
+  return image;
+};
+
+// How many pages each file has: 1 for an image, the real page count for a PDF
+export const countFilePages = (files: DocumentPage[]): Promise<number[]> =>
+  Promise.all(files.map(async file => (isPdf(file) ? (await loadPdf(file)).numPages : 1)));
+
+// Every page of every file, in upload order
+export const listViewerPages = async (files: DocumentPage[]): Promise<ViewerPage[]> => {
+  const counts = await countFilePages(files);
+  return counts.flatMap((count, file) => Array.from({ length: count }, (_, i) => ({ file, page: i + 1 })));
+};
+
+// Every PDF page as a JPEG, for models that take images but not PDFs; images are kept as they are.
+// The result lists one picture per page, in the same order the viewer and the analysis number them.
+export const rasterizePdfPages = async (files: DocumentPage[]): Promise<DocumentPage[]> => {
+  const converted = await Promise.all(files.map(async (file): Promise<DocumentPage[]> => {
+    if (!isPdf(file)) return [file];
+    const pdf = await loadPdf(file);
+    const images: DocumentPage[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(2, MAX_IMAGE_SIDE / Math.max(base.width, base.height)) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      images.push({
+        name: `${file.name}, page ${number}`,
+        mimeType: 'image/jpeg',
+        base64: canvas.toDataURL('image/jpeg', 0.85).split(',')[1],
+      });
+    }
+    return images;
+  }));
+  return converted.flat();
+};
+
+// Device pixels per CSS pixel for a canvas of this size, lowered if the canvas would get too big
+const getOutputScale = (cssWidth: number, cssHeight: number) =>
+  Math.min(window.devicePixelRatio || 1, Math.sqrt(MAX_CANVAS_PIXELS / Math.max(1, cssWidth * cssHeight)));
+
+const sizeCanvas = (canvas: HTMLCanvasElement, cssWidth: number, cssHeight: number, outputScale: number) => {
+  canvas.width = Math.floor(cssWidth * outputScale);
+  canvas.height = Math.floor(cssHeight * outputScale);
+  canvas.style.width = `${Math.floor(cssWidth)}px`;
+  canvas.style.height = `${Math.floor(cssHeight)}px`;
+};
+
+const renderImage = async (file: DocumentPage, canvas: HTMLCanvasElement, options: RenderOptions, isCancelled: () => boolean) => {
+  const img = await loadImage(file);
+  if (isCancelled()) return;
+  const sideways = options.rotation === 90 || options.rotation === 270;
+  const rotatedWidth = sideways ? img.naturalHeight : img.naturalWidth;
+  const rotatedHeight = sideways ? img.naturalWidth : img.naturalHeight;
+  const scale = (options.width / rotatedWidth) * options.zoom;
+  const outputScale = getOutputScale(rotatedWidth * scale, rotatedHeight * scale);
+  sizeCanvas(canvas, rotatedWidth * scale, rotatedHeight * scale, outputScale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((options.rotation * Math.PI) / 180);
+  const drawScale = scale * outputScale;
+  ctx.drawImage(img, (-img.naturalWidth * drawScale) / 2, (-img.naturalHeight * drawScale) / 2, img.naturalWidth * drawScale, img.naturalHeight * drawScale);
+};
+
+// Draws a page into the canvas at the given width, zoom and rotation. Cancel before starting another render on the same canvas.
+export const renderViewerPage = (
+  files: DocumentPage[],
+  target: ViewerPage,
+  canvas: HTMLCanvasElement,
+  options: RenderOptions
+): RenderHandle => {
+  let cancelled = false;
+  let cancelTask: (() => void) | null = null;
+  const file = files[target.file];
+
+  const promise = (async () => {
+    if (!file) throw new Error(`No file ${target.file + 1}`);
+    if (!isPdf(file)) return renderImage(file, canvas, options, () => cancelled);
+
+    const pdf = await loadPdf(file);
+    const page = await pdf.getPage(target.page);
+    if (cancelled) return;
+    // getViewport's rotation replaces the page's own /Rotate, which scanners use to store the orientation
+    const rotation = (page.rotate + options.rotation) % 360;
+    const base = page.getViewport({ scale: 1, rotation });
+    const scale = (options.width / base.width) * options.zoom;
+    const outputScale = getOutputScale(base.width * scale, base.height * scale);
+    const viewport = page.getViewport({ scale: scale * outputScale, rotation });
+    sizeCanvas(canvas, base.width * scale, base.height * scale, outputScale);
+
+    const task = page.render({ canvas, viewport });
+    cancelTask = () => task.cancel();
+    try {
+      await task.promise;
+    } catch (e) {
+      // Cancelling is how a newer zoom or page replaces this render; it isn't a failure
+      if (!cancelled) throw e;
+    }
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      cancelTask?.();
+    },
+  };
+};
@@ -0,0 +1,124 @@
+import { AnalysisResult, DeadlineType, Language, NoticeStage, Sentiment } from '../../types';
+
+// A biometrics appointment notice (I-797C) used by the offline mock provider.
+// Fixtures exist in English and Spanish; other languages use the English ones.
+export type MockFixture<T> = { en: T } & Partial<Record<Language, T>>;
+
+export const mockAnalysisResults: MockFixture<AnalysisResult> = {
+  en: {
+    isImmigrationDocument: true,
+    documentType: "I-797C Notice of Action (Biometrics Appointment)",
+    noticeStage: NoticeStage.BIOMETRICS,
+    caseMetadata: {
+      receiptNumber: "IOE0912345678",
+      aNumber: "A123456789",
+      noticeDate: "2027-01-04",
+      serviceCenter: "National Benefits Center",
+      beneficiaryName: "Maria Lopez Garcia",
+    },
+    whatIsThis: "This is an appointment letter from USCIS. They want to take your fingerprints, photo and signature to run a background check for your application.",
+    actionItems: [
+      {
+        title: "Go to your biometrics appointment",
+        details: "Arrive 15 minutes early at the Application Support Center listed on the letter.",
+        dueDate: "2027-02-10",
+      },
+      {
+        title: "Bring this notice and a photo ID",
+        details: "Bring the original letter and a valid passport, driver's license or green card.",
+        requiredDocument: "Photo identification",
+      },
+    ],
+    deadlines: [
+      {
+        date: "2027-02-10",
+        type: DeadlineType.APPOINTMENT,
+        sourceText: "Please appear at the Application Support Center on February 10, 2027 at 9:00 AM.",
+        isEstimated: false,
+        page: 1,
+      },
+    ],
+    goodOrBadNews: "This is routine, neutral news. Everyone applying for this benefit gets this appointment. It means your case is moving forward.",
+    sentiment: Sentiment.NEUTRAL,
+    requiredDocuments: ["This appointment notice (Form I-797C)", "Photo identification"],
+    exampleOfRequirement: "A valid, unexpired passport works as photo identification.",
+    simplifiedTerms: [
+      { term: "Biometrics", definition: "Your fingerprints, photo and signature." },
+      { term: "Application Support Center (ASC)", definition: "The USCIS office where biometrics are taken." },
+      { term: "Notice of Action", definition: "An official letter from USCIS about your case." },
+    ],
+    keyFindings: [
+      { finding: "Biometrics appointment on February 10, 2027 at 9:00 AM", page: 1 },
+      { finding: "Receipt number IOE0912345678", page: 1 },
+    ],
+  },
+  es: {
+    isImmigrationDocument: true,
+    documentType: "I-797C Aviso de Acción (Cita de Datos Biométricos)",
+    noticeStage: NoticeStage.BIOMETRICS,
+    caseMetadata: {
+      receiptNumber: "IOE0912345678",
+      aNumber: "A123456789",
+      noticeDate: "2027-01-04",
+      serviceCenter: "National Benefits Center",
+      beneficiaryName: "Maria Lopez Garcia",
+    },
+    whatIsThis: "Esta es una carta de cita de USCIS. Quieren tomar sus huellas, foto y firma para hacer una verificación de antecedentes para su solicitud.",
+    actionItems: [
+      {
+        title: "Vaya a su cita de datos biométricos",
+        details: "Llegue 15 minutos antes al Centro de Apoyo de Solicitudes indicado en la carta.",
+        dueDate: "2027-02-10",
+      },
+      {
+        title: "Lleve este aviso y una identificación con foto",
+        details: "Lleve la carta original y un pasaporte, licencia de conducir o tarjeta verde vigente.",
+        requiredDocument: "Identificación con foto",
+      },
+    ],
+    deadlines: [
+      {
+        date: "2027-02-10",
+        type: DeadlineType.APPOINTMENT,
+        sourceText: "Please appear at the Application Support Center on February 10, 2027 at 9:00 AM.",
+        isEstimated: false,
+        page: 1,
+      },
+    ],
+    goodOrBadNews: "Es una noticia rutinaria y neutral. Todas las personas que solicitan este beneficio reciben esta cita. Significa que su caso avanza.",
+    sentiment: Sentiment.NEUTRAL,
+    requiredDocuments: ["Este aviso de cita (Formulario I-797C)", "Identificación con foto"],
+    exampleOfRequirement: "Un pasaporte vigente sirve como identificación con foto.",
+    simplifiedTerms: [
+      { term: "Datos biométricos", definition: "Sus huellas digitales, foto y firma." },
+      { term: "Centro de Apoyo de Solicitudes (ASC)", definition: "La oficina de USCIS donde se toman los datos biométricos." },
+      { term: "Aviso de Acción", definition: "Una carta oficial de USCIS sobre su caso." },
+    ],
+    keyFindings: [
+      { finding: "Cita de datos biométricos el 10 de febrero de 2027 a las 9:00 AM", page: 1 },
+      { finding: "Número de recibo IOE0912345678", page: 1 },
+    ],
+  },
+};
+
+// Canned chat replies, matched by keyword in order
+export const mockChatReplies: MockFixture<{ keywords: string[]; reply: string }[]> = {
+  en: [
+    { keywords: ['when', 'date', 'deadline', 'appointment'], reply: "Your biometrics appointment is on **February 10, 2027 at 9:00 AM** (page 1)." },
+    { keywords: ['bring', 'document', 'id'], reply: "Bring:\n- **This notice** (Form I-797C)\n- **A photo ID**, such as your passport" },
+  ],
+  es: [
+    { keywords: ['cuándo', 'cuando', 'fecha', 'cita'], reply: "Su cita de datos biométricos es el **10 de febrero de 2027 a las 9:00 AM** (página 1)." },
+    { keywords: ['llevar', 'documento', 'identificación'], reply: "Lleve:\n- **Este aviso** (Formulario I-797C)\n- **Una identificación con foto**, como su pasaporte" },
+  ],
+};
+
+export const mockChatFallback: MockFixture<string> = {
+  en: "This is an offline demo reply. In the real app I would answer using your document.",
+  es: "Esta es una respuesta de demostración sin conexión. En la aplicación real respondería usando su documento.",
+};
+
+export const mockLiveGreeting: MockFixture<string> = {
+  en: "Hi, this is the PathFinder offline demo. I can't hear you, but the call is working.",
+  es: "Hola, esta es la demostración sin conexión de PathFinder. No puedo escucharle, pero la llamada funciona.",
+};
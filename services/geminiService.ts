@@ -1,6 +1,20 @@
 
-import { GoogleGenAI, Type, Schema, Chat, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { AnalysisResult, Sentiment, Language } from '../types';
+import { GoogleGenAI, Type, Schema, HarmCategory, HarmBlockThreshold, GenerateContentResponse, LiveServerMessage, Modality, FunctionDeclaration, Tool } from "@google/genai";
+import { AnalysisResult, Sentiment, Language, DocumentPage, DeadlineType, NoticeStage } from '../types';
+import { parseAnalysisText, AnalysisValidationError } from './analysisValidator';
+import { getLanguageInfo } from '../locales/languages';
+import { collectTranslatableText, applyTranslatedText } from './translationService';
+import { countFilePages } from './documentRenderService';
+import { ChatReply, ChatReplyChunk, ChatSource, ChatTurn, DocumentChat, LiveConnection, LiveConnectOptions, LiveEvents, LiveToolDeclaration, LiveToolSchema, SpeechAudio } from './aiProvider';
+
+// Every function here takes a GoogleGenAI client so the API key stays wherever the client was built.
+// The proxy server (server/index.ts) owns the key; the browser only ever gets short-lived live tokens.
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Bump whenever the analysis prompt or schema changes, so cached results from the old prompt aren't reused
+export const ANALYSIS_PROMPT_VERSION = 2;
 
 const analysisSchema: Schema = {
   type: Type.OBJECT,
@@ -13,17 +27,102 @@ const analysisSchema: Schema = {
       type: Type.STRING,
       description: "The official name of the document (e.g., I-797C Notice of Action).",
     },
+    noticeStage: {
+      type: Type.STRING,
+      enum: Object.values(NoticeStage),
+      description: "The case step this notice represents: RECEIPT (case received), BIOMETRICS (fingerprint appointment), RFE (request for evidence or notice of intent to deny), INTERVIEW, APPROVAL, DENIAL, CARD_PRODUCED (card being made or mailed), or OTHER.",
+    },
+    caseMetadata: {
+      type: Type.OBJECT,
+      properties: {
+        receiptNumber: {
+          type: Type.STRING,
+          description: "The USCIS receipt number exactly as printed: 3 letters followed by 10 digits (e.g., EAC2190012345). Omit if not present.",
+        },
+        aNumber: {
+          type: Type.STRING,
+          description: "The Alien Registration Number (A-Number), e.g., A123456789. Omit if not present.",
+        },
+        priorityDate: {
+          type: Type.STRING,
+          description: "The priority date in ISO 8601 format (YYYY-MM-DD). Omit if not present.",
+        },
+        noticeDate: {
+          type: Type.STRING,
+          description: "The date the notice was issued in ISO 8601 format (YYYY-MM-DD). Omit if not present.",
+        },
+        serviceCenter: {
+          type: Type.STRING,
+          description: "The USCIS service center or office handling the case (e.g., Vermont Service Center). Omit if not present.",
+        },
+        beneficiaryName: {
+          type: Type.STRING,
+          description: "The full name of the beneficiary or applicant. Omit if not present.",
+        },
+        petitionerName: {
+          type: Type.STRING,
+          description: "The full name of the petitioner. Omit if not present.",
+        },
+      },
+      description: "Identifying case details printed on the document. Copy values exactly; never guess.",
+    },
     whatIsThis: {
       type: Type.STRING,
       description: "A simple, empathetic explanation of what the document is for a layperson.",
     },
     actionItems: {
-      type: Type.STRING,
-      description: "A specific, numbered list of actions the user needs to take. Use newlines to separate items.",
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: {
+            type: Type.STRING,
+            description: "A short, specific instruction (e.g., 'Go to your biometrics appointment').",
+          },
+          details: {
+            type: Type.STRING,
+            description: "One or two sentences explaining how to complete the step.",
+          },
+          dueDate: {
+            type: Type.STRING,
+            description: "The date this step must be done by, in ISO 8601 format (YYYY-MM-DD). Omit if there is none.",
+          },
+          requiredDocument: {
+            type: Type.STRING,
+            description: "If this step needs one of the required documents, its name exactly as it appears in requiredDocuments. Omit otherwise.",
+          },
+        },
+        required: ["title", "details"],
+      },
+      description: "The specific steps the user needs to take, in the order they should be done.",
     },
-    deadline: {
-      type: Type.STRING,
-      description: "Any specific dates mentioned for action. If none, leave empty.",
+    deadlines: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          date: {
+            type: Type.STRING,
+            description: "The date in ISO 8601 format (YYYY-MM-DD).",
+          },
+          type: {
+            type: Type.STRING,
+            enum: [DeadlineType.RESPOND_BY, DeadlineType.APPOINTMENT, DeadlineType.EXPIRY, DeadlineType.HEARING],
+            description: "RESPOND_BY for response/filing deadlines, APPOINTMENT for biometrics or interviews, EXPIRY for documents or status that expire, HEARING for court hearings.",
+          },
+          sourceText: {
+            type: Type.STRING,
+            description: "The exact sentence or phrase from the document the date was taken from.",
+          },
+          isEstimated: {
+            type: Type.BOOLEAN,
+            description: "TRUE if the date was calculated (e.g., '87 days from the notice date') rather than printed on the document.",
+          },
+          page: { type: Type.INTEGER, description: "The 1-based page number (from the 'Page N' labels, counting every page of a PDF) where the date appears." },
+        },
+        required: ["date", "type", "sourceText", "isEstimated"],
+      },
+      description: "Every date the user must act on or attend. If none, return an empty list.",
     },
     goodOrBadNews: {
       type: Type.STRING,
@@ -53,20 +152,76 @@ const analysisSchema: Schema = {
         },
       },
       description: "A list of at least 20 complex legal terms found in the text with simple definitions.",
+    },
+    keyFindings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          finding: { type: Type.STRING, description: "One important fact, date, amount or request found in the document." },
+          page: { type: Type.INTEGER, description: "The 1-based page number (from the 'Page N' labels, counting every page of a PDF) where this finding appears." },
+        },
+        required: ["finding", "page"],
+      },
+      description: "The most important facts in the document, each tagged with the page it came from.",
     }
   },
-  required: ["isImmigrationDocument", "documentType", "whatIsThis", "actionItems", "goodOrBadNews", "sentiment", "requiredDocuments", "simplifiedTerms"],
+  required: ["isImmigrationDocument", "documentType", "noticeStage", "caseMetadata", "whatIsThis", "actionItems", "deadlines", "goodOrBadNews", "sentiment", "requiredDocuments", "simplifiedTerms", "keyFindings"],
 };
 
+// How many pages each file has. A PDF pdf.js can't read still goes to the model; it just counts as one page.
+const countPages = (pages: DocumentPage[]): Promise<number[]> =>
+  countFilePages(pages).catch(e => {
+    console.warn("Could not count PDF pages", e);
+    return pages.map(() => 1);
+  });
+
+// Put a "Page N" label before every file so the model can cite where each finding came from.
+// Pages are numbered across the whole upload, counting every page of a PDF, the same way the document viewer does.
+const buildPageParts = async (pages: DocumentPage[]) => {
+  const counts = await countPages(pages);
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  let first = 1;
+  return pages.flatMap((page, index) => {
+    const count = counts[index];
+    const label = count > 1
+      ? `Pages ${first}-${first + count - 1} of ${total} (${page.name}, a ${count}-page PDF: its first page is page ${first}, its second page ${first + 1}, and so on)`
+      : `Page ${first} of ${total} (${page.name})`;
+    first += count;
+    return [
+      { text: label },
+      {
+        inlineData: {
+          mimeType: page.mimeType,
+          data: page.base64,
+        },
+      },
+    ];
+  });
+};
+
+const buildRepairPrompt = (originalPrompt: string, invalidOutput: string, issues: string[]) => `
+    ${originalPrompt}
+
+    Your previous answer could not be used because:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+
+    Previous answer:
+    ${invalidOutput.slice(0, 4000)}
+
+    Return a corrected, complete JSON answer that follows the schema exactly. Do not include any text outside the JSON.
+  `;
+
 export const analyzeDocument = async (
-  base64Data: string,
-  mimeType: string,
+  ai: GoogleGenAI,
+  pages: DocumentPage[],
   language: Language
 ): Promise<AnalysisResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   
   const prompt = `
     You are PathFinder, an expert immigration assistant. Analyze the attached image/PDF.
+    The document may have been uploaded as several pages (images and/or PDFs). Each one is preceded by a "Page N of M" label.
+    Treat all pages together, in the given order, as ONE document.
     
     STEP 1: VALIDATION CHECK (Critical)
     Determine if this is a valid US Immigration document. Look for these specific features:
@@ -78,35 +233,34 @@ export const analyzeDocument = async (
     If the document DOES NOT contain these features (e.g., it is a food menu, a selfie, a landscape, or a random text), set 'isImmigrationDocument' to FALSE and fill the other fields with generic placeholders.
 
     STEP 2: ANALYSIS (Only if Valid)
-    Target Language: ${language === 'es' ? 'SPANISH (Español)' : 'ENGLISH'}.
-    ALL output values in the JSON must be in ${language === 'es' ? 'Spanish' : 'English'}.
+    Target Language: ${getLanguageInfo(language).englishName.toUpperCase()} (${getLanguageInfo(language).nativeName}).
+    ALL output values in the JSON must be in ${getLanguageInfo(language).englishName}.
     
     Treat the user like a family member you are helping. Use a calm, reassuring, and clear tone.
     
-    1. Identify what the document is.
+    1. Identify what the document is, and copy its case details (receipt number, A-Number, priority date, notice date, service center, beneficiary and petitioner names).
     2. Explain "What is this?" in simple terms.
-    3. Identify "What do I need to do by when?". Format this as a clear numbered list.
+    3. Identify "What do I need to do by when?". Break it into individual steps, in order, each with its due date if there is one.
+       List every deadline, appointment, expiry or hearing date as a structured entry with an ISO date (YYYY-MM-DD).
+       If a deadline is relative (e.g., "within 87 days"), calculate the date from the notice date and mark it as estimated.
     4. Determine "Is this good or bad news?" and classify the sentiment.
     5. List any "Required Documents" or evidence mentioned.
     6. Provide an "Example" of what they might need to provide or what happens next.
     7. Extract and simplify at least 24 complex legal terms found in the text.
+    8. List the key findings (dates, amounts, names, requests) and the page number each one came from.
 
     Return the result in strictly structured JSON format.
   `;
 
-  try {
+  const pageParts = await buildPageParts(pages);
+  const requestAnalysis = async (instructions: string) => {
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: {
         parts: [
+          ...pageParts,
           {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Data,
-            },
-          },
-          {
-            text: prompt,
+            text: instructions,
           },
         ],
       },
@@ -118,27 +272,129 @@ export const analyzeDocument = async (
 
     const text = response.text;
     if (!text) throw new Error("No response from Gemini");
+    return text;
+  };
+
+  try {
+    const text = await requestAnalysis(prompt);
+    let outcome = parseAnalysisText(text);
 
-    return JSON.parse(text) as AnalysisResult;
+    // One repair attempt: show the model its own output and what was wrong with it
+    if (!outcome.result) {
+      console.warn("Invalid analysis output, retrying with repair prompt:", outcome.issues);
+      const repairedText = await requestAnalysis(buildRepairPrompt(prompt, text, outcome.issues));
+      outcome = parseAnalysisText(repairedText);
+    }
+
+    if (!outcome.result) {
+      throw new AnalysisValidationError("Gemini returned an invalid analysis", outcome.issues);
+    }
+
+    if (outcome.issues.length > 0) {
+      console.warn("Analysis output normalized:", outcome.issues);
+    }
+    return outcome.result;
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
     throw error;
   }
 };
 
+const translationSchema: Schema = {
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+  description: "The translated texts, one for each input text, in the same order.",
+};
+
+// Translates only the text of an existing analysis. The structure, sentiment, dates and
+// action items stay exactly as they were, and the document isn't sent again.
+export const translateAnalysis = async (
+  ai: GoogleGenAI,
+  result: AnalysisResult,
+  from: Language,
+  to: Language
+): Promise<AnalysisResult> => {
+  const texts = collectTranslatableText(result);
+  if (from === to || texts.length === 0) return result;
+
+  const source = getLanguageInfo(from).englishName;
+  const target = getLanguageInfo(to).englishName;
+  const prompt = `
+    You are PathFinder, an expert immigration assistant. Translate the following ${texts.length} texts from ${source} to ${target}.
+    They are parts of a plain-language explanation of a US Immigration document, written for a family member.
+
+    RULES:
+    - Return a JSON array with exactly ${texts.length} strings, one translation per input text, in the same order.
+    - Keep the same calm, reassuring and simple tone. Do not add, drop or merge information.
+    - Do NOT translate form numbers (e.g. "I-797C"), receipt numbers, A-Numbers, dates, amounts, names or addresses.
+    - Keep agency and program names recognizable (e.g. "USCIS") and keep any Markdown formatting.
+
+    Texts:
+    ${JSON.stringify(texts)}
+  `;
+
+  const requestTranslation = async (instructions: string) => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: instructions,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: translationSchema,
+      },
+    });
+    const text = response.text;
+    if (!text) throw new Error("No response from Gemini");
+    return text;
+  };
+
+  const parseTranslation = (text: string): { translated: string[] | null; issues: string[] } => {
+    try {
+      const parsed = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+      if (!Array.isArray(parsed) || parsed.some(item => typeof item !== 'string')) {
+        return { translated: null, issues: ['Response is not a list of strings'] };
+      }
+      if (parsed.length !== texts.length) {
+        return { translated: null, issues: [`Expected ${texts.length} texts, got ${parsed.length}`] };
+      }
+      return { translated: parsed, issues: [] };
+    } catch (e) {
+      return { translated: null, issues: [`Response is not valid JSON: ${(e as Error).message}`] };
+    }
+  };
+
+  try {
+    const text = await requestTranslation(prompt);
+    let outcome = parseTranslation(text);
+
+    // Same single repair attempt as a fresh analysis
+    if (!outcome.translated) {
+      console.warn("Invalid translation output, retrying with repair prompt:", outcome.issues);
+      outcome = parseTranslation(await requestTranslation(buildRepairPrompt(prompt, text, outcome.issues)));
+    }
+
+    if (!outcome.translated) {
+      throw new AnalysisValidationError("Gemini returned an invalid translation", outcome.issues);
+    }
+    return applyTranslatedText(result, outcome.translated);
+  } catch (error) {
+    console.error("Gemini Translation Error:", error);
+    throw error;
+  }
+};
+
 export const createDocumentChat = async (
-  base64Data: string,
-  mimeType: string,
-  language: Language
-): Promise<Chat> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const langName = language === 'es' ? 'SPANISH' : 'ENGLISH';
+  ai: GoogleGenAI,
+  pages: DocumentPage[],
+  language: Language,
+  history: ChatTurn[] = []
+): Promise<DocumentChat> => {
+  const langName = getLanguageInfo(language).englishName.toUpperCase();
 
   // Optimized system instruction for structured, grammatical responses
   const systemInstruction = `You are PathFinder, an empathetic immigration assistant.
   
   CONTEXT:
-  - The user has uploaded a US Immigration document (image/PDF) to this chat.
+  - The user has uploaded a US Immigration document (image/PDF) to this chat. It may span several pages, each labelled "Page N of M".
   - You MUST analyze the uploaded document in the chat history to answer questions.
   - Do NOT ask the user to upload the document again. It is already provided in the first message.
   
@@ -163,12 +419,28 @@ export const createDocumentChat = async (
   CAPABILITIES:
   - Use **Google Search** to verify REAL-TIME info (fees, addresses, processing times).
   - Base answers on the document image provided + general knowledge.
+  - When you cite something from the document, mention which page it is on.
   
   DISCLAIMER:
   - Provide information, not legal advice.`;
 
+  const seedMessage = [
+    ...(await buildPageParts(pages)),
+    {
+      text: `This is the document I need help with. Please briefly confirm you can see it and what type of document it is. Reply in ${langName}.`
+    }
+  ];
+
+  // A restored conversation replays the document and every earlier exchange instead of asking again
+  const restoredHistory = history.length > 0 ? [
+    { role: 'user', parts: seedMessage },
+    { role: 'model', parts: [{ text: "I can see the document and I'm ready to help." }] },
+    ...history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+  ] : undefined;
+
   const chat = ai.chats.create({
     model: "gemini-2.5-flash", // Using 2.5 Flash for reliable multimodal context retention
+    history: restoredHistory,
     config: {
       systemInstruction: systemInstruction,
       tools: [{ googleSearch: {} }],
@@ -183,19 +455,183 @@ export const createDocumentChat = async (
   });
 
   // Seed the chat with the document and a confirmation prompt
-  await chat.sendMessage({
-    message: [
-      {
-        inlineData: {
-          mimeType: mimeType,
-          data: base64Data
+  if (!restoredHistory) {
+    await chat.sendMessage({ message: seedMessage });
+  }
+
+  return {
+    sendMessage: async (text: string) => toChatReply(await chat.sendMessage({ message: text })),
+    sendMessageStream: async function* (text: string, signal?: AbortSignal): AsyncGenerator<ChatReplyChunk> {
+      const stream = await chat.sendMessageStream({ message: text, config: { abortSignal: signal } });
+      for await (const response of stream) {
+        if (signal?.aborted) return;
+        yield toChatReply(response);
+      }
+    },
+  };
+};
+
+// Flatten a Gemini response into the provider-neutral reply shape
+const toChatReply = (response: GenerateContentResponse): ChatReply => {
+  const candidate = response.candidates?.[0];
+  const sources: ChatSource[] = [];
+
+  candidate?.groundingMetadata?.groundingChunks?.forEach(chunk => {
+    if (chunk.web) {
+      sources.push({ title: chunk.web.title || '', uri: chunk.web.uri || "#" });
+    }
+  });
+
+  return {
+    text: response.text || '',
+    sources,
+    finishReason: candidate?.finishReason,
+  };
+};
+
+// Single-use token the browser can open one live session with, instead of the real key
+export const createLiveToken = async (ai: GoogleGenAI): Promise<string> => {
+  const now = Date.now();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + 30 * 60 * 1000).toISOString(),
+      newSessionExpireTime: new Date(now + 60 * 1000).toISOString(),
+      liveConnectConstraints: { model: LIVE_MODEL },
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+  if (!token.name) throw new Error("Gemini did not return a live token");
+  return token.name;
+};
+
+// Read one passage aloud with the same voice as live calls. The text is already in the reader's language.
+export const synthesizeSpeech = async (ai: GoogleGenAI, text: string, language: Language): Promise<SpeechAudio> => {
+  const response = await ai.models.generateContent({
+    model: TTS_MODEL,
+    contents: [{ parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+      },
+    },
+  });
+
+  const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!audio?.data) throw new Error(`Gemini returned no speech for ${getLanguageInfo(language).englishName} text`);
+  return { data: audio.data, mimeType: audio.mimeType || 'audio/L16;codec=pcm;rate=24000' };
+};
+
+const toGeminiSchema = (schema: LiveToolSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  properties: schema.properties &&
+    Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+});
+
+const toFunctionDeclaration = (tool: LiveToolDeclaration): FunctionDeclaration => ({
+  name: tool.name,
+  description: tool.description,
+  parameters: toGeminiSchema(tool.parameters),
+});
+
+export const connectLive = async (
+  ai: GoogleGenAI,
+  options: LiveConnectOptions,
+  events: LiveEvents
+): Promise<LiveConnection> => {
+  const tools: Tool[] = [{ googleSearch: {} }];
+  if (options.tools?.length) {
+    tools.push({ functionDeclarations: options.tools.map(toFunctionDeclaration) });
+  }
+
+  const session = await ai.live.connect({
+    model: LIVE_MODEL,
+    callbacks: {
+      onopen: () => events.onOpen(),
+      onmessage: (message: LiveServerMessage) => {
+        // 1. Audio Output Handling
+        const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) {
+          events.onAudio(base64Audio);
         }
+
+        // 2. Transcription Handling
+        if (message.serverContent?.outputTranscription?.text) {
+          events.onTranscript(message.serverContent.outputTranscription.text, 'model');
+        }
+        if (message.serverContent?.inputTranscription?.text) {
+          events.onTranscript(message.serverContent.inputTranscription.text, 'user');
+        }
+
+        // 3. Interruption Handling
+        if (message.serverContent?.interrupted) {
+          events.onInterrupted();
+        }
+
+        // 4. Session resumption
+        const resumption = message.sessionResumptionUpdate;
+        if (resumption?.resumable && resumption.newHandle) {
+          events.onResumptionUpdate?.(resumption.newHandle);
+        }
+        if (message.goAway) {
+          events.onGoAway?.();
+        }
+
+        // 5. Tool calls
+        message.toolCall?.functionCalls?.forEach(call => {
+          if (!call.name) return;
+          events.onToolCall?.({ id: call.id || '', name: call.name, args: call.args || {} });
+        });
       },
-      {
-        text: `This is the document I need help with. Please briefly confirm you can see it and what type of document it is. Reply in ${langName}.`
-      }
-    ]
+      onclose: (event: CloseEvent) => events.onClose({ code: event?.code, reason: event?.reason }),
+      onerror: (err) => events.onError(err),
+    },
+    config: {
+      responseModalities: [Modality.AUDIO],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+      },
+      systemInstruction: options.systemInstruction,
+      tools,
+      sessionResumption: { handle: options.resumptionHandle },
+    }
   });
 
-  return chat;
+  // Show the model the letter itself, like the text chat. Sent as context only (turnComplete: false),
+  // so it doesn't start talking until the user does. Live models take images but not PDFs; LiveSession
+  // turns PDF pages into images first, and any it couldn't are left out (the analysis still covers them).
+  // A resumed session has already seen them
+  const pages = options.resumptionHandle ? [] : options.pages || [];
+  const pageParts = await buildPageParts(pages);
+  // Each page is a label part plus a data part; keep the original "Page N of M" labels
+  const imageParts = pages.flatMap((page, index) =>
+    page.mimeType.startsWith('image/') ? pageParts.slice(index * 2, index * 2 + 2) : []
+  );
+  if (imageParts.length > 0) {
+    session.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [...imageParts, { text: "These are the pages of my document. Use them to answer my questions. You don't need to reply to this message." }],
+      }],
+      turnComplete: false,
+    });
+  }
+
+  return {
+    sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+    sendToolResult: (call, result) => session.sendToolResponse({
+      functionResponses: [{
+        id: call.id,
+        name: call.name,
+        response: result.ok ? { output: result.message } : { error: result.message },
+      }],
+    }),
+    close: () => session.close(),
+  };
 };
@@ -0,0 +1,153 @@
+import { AnalysisResult, Language, SimplifiedTerm } from '../types';
+import { DictionaryEntry, DictionaryText, IMMIGRATION_DICTIONARY } from './immigrationDictionary';
+
+// A piece of text, with the glossary entry it matches if any
+export interface GlossarySegment {
+  text: string;
+  term?: SimplifiedTerm;
+}
+
+export type GlossaryMatcher = (text: string) => GlossarySegment[];
+
+// Scripts written without spaces between words, where a term can sit right next to other letters
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Terms shorter than this cause too many false matches (e.g. "A" in "A-Number (A)")
+const MIN_TERM_LENGTH = 2;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Ways a term shows up in running text: "Request for Evidence (RFE)" is also written
+// "Request for Evidence" or just "RFE"
+const getVariants = (term: string): string[] => {
+  const variants = [term.trim()];
+  const parenthetical = /^(.+?)\s*[(（]([^)）]+)[)）]\s*$/u.exec(term.trim());
+  if (parenthetical) variants.push(parenthetical[1].trim(), parenthetical[2].trim());
+  return variants.filter(variant => variant.length >= MIN_TERM_LENGTH);
+};
+
+const toPattern = (variant: string) => {
+  // Any run of spaces in the term matches any run of whitespace in the text
+  const body = variant.split(/\s+/).map(escapeRegExp).join('\\s+');
+  return UNSPACED_SCRIPT.test(variant) ? body : `(?<![\\p{L}\\p{N}])${body}(?![\\p{L}\\p{N}])`;
+};
+
+// Finds glossary terms in text, ignoring case (Unicode-aware, so it works for every supported script).
+// Longer terms win, so "Notice of Action" isn't split up by a shorter "Notice".
+export const createGlossaryMatcher = (terms: SimplifiedTerm[], language: Language): GlossaryMatcher => {
+  const byVariant = new Map<string, SimplifiedTerm>();
+  (terms || []).forEach(term => {
+    if (!term.term || !term.definition) return;
+    getVariants(term.term).forEach(variant => {
+      const key = variant.toLocaleLowerCase(language).replace(/\s+/g, ' ');
+      if (!byVariant.has(key)) byVariant.set(key, term);
+    });
+  });
+
+  if (byVariant.size === 0) return text => [{ text }];
+
+  const variants = Array.from(byVariant.keys()).sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(variants.map(toPattern).join('|'), 'giu');
+
+  return (text: string) => {
+    const segments: GlossarySegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const term = byVariant.get(match[0].toLocaleLowerCase(language).replace(/\s+/g, ' '));
+      if (!term) continue;
+      if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+      segments.push({ text: match[0], term });
+      last = match.index! + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+  };
+};
+
+// A glossary term as shown with an analysis; verified definitions come from the built-in dictionary
+export interface GlossaryEntry extends SimplifiedTerm {
+  verified: boolean;
+}
+
+// Lookup key that ignores case, accents and spacing, so "Solicitud de Evidencia" finds "solicitud de evidencia"
+const toKey = (value: string) =>
+  value.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const getDictionaryTranslation = (entry: DictionaryEntry, language: Language): DictionaryText | undefined =>
+  language === 'en' ? entry : entry.translations[language];
+
+// Every name an entry goes by, in any language
+const getEntryNames = (entry: DictionaryEntry): string[] =>
+  [entry, ...Object.values(entry.translations)].flatMap(text =>
+    text ? [...getVariants(text.term), ...(text.aliases || [])] : []
+  );
+
+let dictionaryIndex: Map<string, DictionaryEntry> | null = null;
+
+const findDictionaryEntry = (term: string): DictionaryEntry | undefined => {
+  if (!dictionaryIndex) {
+    dictionaryIndex = new Map();
+    IMMIGRATION_DICTIONARY.forEach(entry => {
+      getEntryNames(entry).forEach(name => {
+        const key = toKey(name);
+        if (!dictionaryIndex!.has(key)) dictionaryIndex!.set(key, entry);
+      });
+    });
+  }
+  for (const variant of getVariants(term)) {
+    const entry = dictionaryIndex.get(toKey(variant));
+    if (entry) return entry;
+  }
+  return undefined;
+};
+
+// The model's terms keep their order (voice actions and page anchors use their index), with the vetted
+// definition swapped in when the dictionary has one in this language. Dictionary terms that the analysis
+// mentions but the model left out are added after them.
+export const mergeWithDictionary = (result: AnalysisResult, language: Language): GlossaryEntry[] => {
+  const used = new Set<string>();
+  const merged: GlossaryEntry[] = (result.simplifiedTerms || []).map(item => {
+    const entry = findDictionaryEntry(item.term);
+    const vetted = entry && getDictionaryTranslation(entry, language);
+    if (entry) used.add(entry.id);
+    return vetted ? { term: item.term, definition: vetted.definition, verified: true } : { ...item, verified: false };
+  });
+
+  const candidates = IMMIGRATION_DICTIONARY.flatMap(entry => {
+    const text = getDictionaryTranslation(entry, language);
+    return !used.has(entry.id) && text ? [{ term: text.term, definition: text.definition }] : [];
+  });
+  const analysisText = [
+    result.whatIsThis,
+    result.goodOrBadNews,
+    result.exampleOfRequirement,
+    ...(result.actionItems || []).flatMap(item => [item.title, item.details]),
+  ].filter(Boolean).join('\n');
+
+  const mentioned = new Set<SimplifiedTerm>();
+  createGlossaryMatcher(candidates, language)(analysisText).forEach(segment => {
+    if (segment.term) mentioned.add(segment.term);
+  });
+  candidates.forEach(term => {
+    if (mentioned.has(term)) merged.push({ ...term, verified: true });
+  });
+  return merged;
+};
+
+// Entries whose name matches come before those that only mention the query in their definition
+export const searchDictionary = (query: string, language: Language): DictionaryEntry[] => {
+  const wanted = toKey(query);
+  const displayTerm = (entry: DictionaryEntry) => (getDictionaryTranslation(entry, language) || entry).term;
+  const rank = (entry: DictionaryEntry) => {
+    if (!wanted) return 0;
+    if (getEntryNames(entry).some(name => toKey(name).includes(wanted))) return 1;
+    const definitions = [entry, ...Object.values(entry.translations)].map(text => toKey(text?.definition || ''));
+    return definitions.some(definition => definition.includes(wanted)) ? 2 : 0;
+  };
+
+  return IMMIGRATION_DICTIONARY
+    .map(entry => ({ entry, rank: rank(entry) }))
+    .filter(item => !wanted || item.rank > 0)
+    .sort((a, b) => a.rank - b.rank || displayTerm(a.entry).localeCompare(displayTerm(b.entry), language))
+    .map(item => item.entry);
+};
@@ -0,0 +1,14 @@
+import { DocumentPage } from '../types';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+
+// SHA-256 over every processed page in order, so the same packet always maps to the same id
+export const hashPages = async (pages: DocumentPage[]): Promise<string> => {
+  const encoder = new TextEncoder();
+  const payload = encoder.encode(pages.map(page => `${page.mimeType}:${page.base64}`).join('|'));
+  const digest = await crypto.subtle.digest('SHA-256', payload);
+  return toHex(digest);
+};
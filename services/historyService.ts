@@ -0,0 +1,152 @@
+import { AnalysisResult, ChatMessage, DocumentPage, Language } from '../types';
+import { ChatTurn } from './aiProvider';
+import { DocumentProgress, clearProgress, createEmptyProgress } from './progressService';
+
+// Everything needed to reopen a document exactly where the user left it
+export interface HistoryEntry {
+  id: string; // content hash of the pages, same as the progress key
+  pages: DocumentPage[];
+  // The analysis plus its translations, filled in as the user views the document in each language
+  results: Partial<Record<Language, AnalysisResult>>;
+  messages: ChatMessage[];
+  progress: DocumentProgress;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'pathfinder';
+const DB_VERSION = 1;
+const STORE = 'documents';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user frees up storage)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Read and write one entry in a single transaction so concurrent saves don't overwrite each other
+const mutateEntry = async (id: string, mutate: (existing?: HistoryEntry) => HistoryEntry | undefined) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const read = store.get(id);
+    read.onsuccess = () => {
+      const next = mutate(read.result as HistoryEntry | undefined);
+      if (next) store.put(next);
+    };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const readStore = async <T>(read: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = read(db.transaction(STORE, 'readonly').objectStore(STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Most recently used first. Failures (private browsing, storage disabled) show an empty history.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  try {
+    const entries = await readStore<HistoryEntry[]>(store => store.getAll());
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    console.warn("Could not load document history", e);
+    return [];
+  }
+};
+
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | undefined> => {
+  try {
+    return await readStore<HistoryEntry | undefined>(store => store.get(id));
+  } catch (e) {
+    console.warn("Could not load history entry", e);
+    return undefined;
+  }
+};
+
+// Create the entry on first analysis. A fresh analysis replaces the saved results in every language,
+// since translations of the previous one may no longer match it.
+export const saveAnalysis = async (id: string, pages: DocumentPage[], language: Language, result: AnalysisResult) => {
+  const now = Date.now();
+  try {
+    await mutateEntry(id, existing => ({
+      id,
+      pages,
+      results: { [language]: result },
+      messages: existing?.messages || [],
+      progress: existing?.progress || createEmptyProgress(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    }));
+  } catch (e) {
+    console.warn("Could not save document history", e);
+  }
+};
+
+// Add another language's version of the saved analysis
+export const saveTranslation = async (id: string, language: Language, result: AnalysisResult) => {
+  try {
+    await mutateEntry(id, existing => existing && {
+      ...existing,
+      results: { ...existing.results, [language]: result },
+      updatedAt: Date.now(),
+    });
+  } catch (e) {
+    console.warn("Could not save translation", e);
+  }
+};
+
+// Only updates documents that were already saved by saveAnalysis
+export const updateHistoryEntry = async (id: string, patch: Partial<Pick<HistoryEntry, 'messages' | 'progress'>>) => {
+  try {
+    await mutateEntry(id, existing => existing && { ...existing, ...patch, updatedAt: Date.now() });
+  } catch (e) {
+    console.warn("Could not update document history", e);
+  }
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  clearProgress(id);
+};
+
+// The conversation to re-seed a chat with: real exchanges only, starting at the first question
+// (the greeting, errors, half-streamed and stopped replies were never part of the model's history).
+// What was said on a voice call counts too.
+export const toChatHistory = (messages: ChatMessage[]): ChatTurn[] => {
+  const turns: ChatTurn[] = messages
+    .flatMap(msg => {
+      if (msg.call) return msg.call.turns.filter(turn => !turn.action).map(turn => ({ role: turn.role, text: turn.text }));
+      return msg.isError || msg.isStreaming || msg.isStopped ? [] : [{ role: msg.role, text: msg.text }];
+    })
+    .filter(turn => turn.text.trim());
+  const firstQuestion = turns.findIndex(turn => turn.role === 'user');
+  return firstQuestion === -1 ? [] : turns.slice(firstQuestion);
+};
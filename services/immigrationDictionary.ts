@@ -0,0 +1,347 @@
+import { Language } from '../types';
+
+// A term as written in one language; aliases are abbreviations and other names for the same thing
+export interface DictionaryText {
+  term: string;
+  definition: string;
+  aliases?: string[];
+}
+
+// English is what appears on USCIS notices; translations are reviewed alongside it and may be missing
+export interface DictionaryEntry extends DictionaryText {
+  id: string;
+  translations: Partial<Record<Exclude<Language, 'en'>, DictionaryText>>;
+}
+
+// Bump when an entry is added or its wording changes, so exports and the glossary page show which edition was used
+export const DICTIONARY_VERSION = '2026.10';
+
+export const IMMIGRATION_DICTIONARY: DictionaryEntry[] = [
+  {
+    id: 'adjustment-of-status',
+    term: 'Adjustment of Status (AOS)',
+    definition: 'Applying for a green card from inside the United States, without going back to your home country for a visa interview. It is usually filed on Form I-485.',
+    aliases: ['Form I-485'],
+    translations: {
+      es: {
+        term: 'Ajuste de estatus (AOS)',
+        definition: 'Solicitar la tarjeta verde desde dentro de Estados Unidos, sin regresar a su país para una entrevista de visa. Normalmente se presenta con el Formulario I-485.',
+        aliases: ['Ajuste de estado'],
+      },
+    },
+  },
+  {
+    id: 'advance-parole',
+    term: 'Advance Parole',
+    definition: 'Permission to travel outside the United States and come back while an application such as a green card case is still pending. Leaving without it can cancel your application.',
+    aliases: ['Form I-131', 'Travel document'],
+    translations: {
+      es: {
+        term: 'Permiso adelantado (Advance Parole)',
+        definition: 'Permiso para viajar fuera de Estados Unidos y regresar mientras una solicitud, como la de tarjeta verde, sigue pendiente. Salir sin él puede cancelar su solicitud.',
+        aliases: ['Permiso de viaje', 'Documento de viaje'],
+      },
+    },
+  },
+  {
+    id: 'a-number',
+    term: 'Alien Registration Number (A-Number)',
+    definition: 'The personal file number USCIS gives you, starting with "A" followed by 8 or 9 digits. It stays the same for your whole immigration history.',
+    aliases: ['A-Number', 'USCIS Number', 'Alien Number'],
+    translations: {
+      es: {
+        term: 'Número de registro de extranjero (A-Number)',
+        definition: 'El número personal de expediente que le da USCIS. Empieza con "A" seguida de 8 o 9 dígitos y no cambia durante todo su historial migratorio.',
+        aliases: ['Número A', 'Número de USCIS'],
+      },
+    },
+  },
+  {
+    id: 'affidavit-of-support',
+    term: 'Affidavit of Support',
+    definition: "A sponsor's signed promise to support you financially so you do not need public benefits. It is usually Form I-864 and is required in most family green card cases.",
+    aliases: ['Form I-864', 'I-864'],
+    translations: {
+      es: {
+        term: 'Declaración jurada de patrocinio económico',
+        definition: 'La promesa firmada de un patrocinador de mantenerle económicamente para que no necesite beneficios públicos. Suele ser el Formulario I-864 y se exige en la mayoría de los casos familiares de tarjeta verde.',
+        aliases: ['Declaración jurada de manutención', 'Affidavit of Support'],
+      },
+    },
+  },
+  {
+    id: 'applicant',
+    term: 'Applicant',
+    definition: 'The person asking USCIS for an immigration benefit for themselves, such as a green card, work permit or citizenship.',
+    translations: {
+      es: {
+        term: 'Solicitante',
+        definition: 'La persona que pide a USCIS un beneficio migratorio para sí misma, como una tarjeta verde, un permiso de trabajo o la ciudadanía.',
+      },
+    },
+  },
+  {
+    id: 'asylum',
+    term: 'Asylum',
+    definition: 'Protection for people in the United States who fear harm in their home country because of race, religion, nationality, political opinion or membership in a particular social group. It is usually requested within one year of arrival.',
+    aliases: ['Asylee', 'Form I-589'],
+    translations: {
+      es: {
+        term: 'Asilo',
+        definition: 'Protección para personas en Estados Unidos que temen sufrir daño en su país por su raza, religión, nacionalidad, opinión política o pertenencia a un grupo social determinado. Normalmente se pide dentro del primer año de llegada.',
+        aliases: ['Asilado'],
+      },
+    },
+  },
+  {
+    id: 'beneficiary',
+    term: 'Beneficiary',
+    definition: 'The person who will receive the immigration benefit when someone else files a petition for them, for example the relative in a family petition.',
+    translations: {
+      es: {
+        term: 'Beneficiario',
+        definition: 'La persona que recibirá el beneficio migratorio cuando otra persona presenta una petición a su favor, por ejemplo el familiar en una petición familiar.',
+        aliases: ['Beneficiaria'],
+      },
+    },
+  },
+  {
+    id: 'biometrics',
+    term: 'Biometrics Appointment',
+    definition: 'A short visit to a USCIS Application Support Center to take your fingerprints, photo and signature for background checks. Bring the appointment notice and a photo ID.',
+    aliases: ['Biometrics', 'ASC appointment', 'Application Support Center'],
+    translations: {
+      es: {
+        term: 'Cita de datos biométricos',
+        definition: 'Una visita corta a un Centro de Asistencia de Solicitudes de USCIS para tomar sus huellas, foto y firma para la revisión de antecedentes. Lleve el aviso de la cita y una identificación con foto.',
+        aliases: ['Biométricos', 'Cita de biometría'],
+      },
+    },
+  },
+  {
+    id: 'conditional-residence',
+    term: 'Conditional Permanent Resident',
+    definition: 'A green card holder whose card lasts only 2 years, usually after a recent marriage or an investment. You must ask to remove the conditions (Form I-751 or I-829) in the 90 days before the card expires.',
+    aliases: ['Removal of Conditions', 'Form I-751', 'Conditional resident'],
+    translations: {
+      es: {
+        term: 'Residente permanente condicional',
+        definition: 'Titular de una tarjeta verde que dura solo 2 años, normalmente tras un matrimonio reciente o una inversión. Debe pedir que se eliminen las condiciones (Formulario I-751 o I-829) en los 90 días antes de que venza la tarjeta.',
+        aliases: ['Eliminación de condiciones', 'Residente condicional'],
+      },
+    },
+  },
+  {
+    id: 'consular-processing',
+    term: 'Consular Processing',
+    definition: 'Getting an immigrant visa at a U.S. embassy or consulate abroad, instead of adjusting status inside the United States. The case moves to the National Visa Center after USCIS approves the petition.',
+    aliases: ['National Visa Center', 'NVC'],
+    translations: {
+      es: {
+        term: 'Trámite consular',
+        definition: 'Obtener una visa de inmigrante en una embajada o consulado de EE. UU. en el extranjero, en lugar de ajustar el estatus dentro de Estados Unidos. El caso pasa al Centro Nacional de Visas cuando USCIS aprueba la petición.',
+        aliases: ['Procesamiento consular', 'Centro Nacional de Visas'],
+      },
+    },
+  },
+  {
+    id: 'daca',
+    term: 'Deferred Action for Childhood Arrivals (DACA)',
+    definition: 'A program that protects some people who came to the United States as children from deportation and lets them apply for a work permit. It must be renewed every 2 years.',
+    aliases: ['Deferred Action'],
+    translations: {
+      es: {
+        term: 'Acción Diferida para los Llegados en la Infancia (DACA)',
+        definition: 'Un programa que protege de la deportación a algunas personas que llegaron a Estados Unidos de niños y les permite pedir un permiso de trabajo. Debe renovarse cada 2 años.',
+        aliases: ['Acción diferida'],
+      },
+    },
+  },
+  {
+    id: 'derivative-beneficiary',
+    term: 'Derivative Beneficiary',
+    definition: "A spouse or unmarried child under 21 who can immigrate together with the main beneficiary on the same petition, without a petition of their own.",
+    aliases: ['Derivative'],
+    translations: {
+      es: {
+        term: 'Beneficiario derivado',
+        definition: 'El cónyuge o un hijo soltero menor de 21 años que puede inmigrar junto con el beneficiario principal en la misma petición, sin necesitar una petición propia.',
+      },
+    },
+  },
+  {
+    id: 'ead',
+    term: 'Employment Authorization Document (EAD)',
+    definition: 'A card that proves you are allowed to work in the United States for a set time. It is requested on Form I-765 and shows its expiration date on the front.',
+    aliases: ['Work permit', 'Form I-765'],
+    translations: {
+      es: {
+        term: 'Documento de autorización de empleo (EAD)',
+        definition: 'Una tarjeta que demuestra que puede trabajar en Estados Unidos durante un tiempo determinado. Se pide con el Formulario I-765 y su fecha de vencimiento aparece en el frente.',
+        aliases: ['Permiso de trabajo'],
+      },
+    },
+  },
+  {
+    id: 'green-card',
+    term: 'Lawful Permanent Resident (LPR)',
+    definition: 'Someone allowed to live and work in the United States permanently. The proof is the Permanent Resident Card, known as the green card.',
+    aliases: ['Green Card', 'Permanent Resident Card', 'Form I-551', 'Permanent resident'],
+    translations: {
+      es: {
+        term: 'Residente permanente legal (LPR)',
+        definition: 'Persona autorizada a vivir y trabajar en Estados Unidos de forma permanente. La prueba es la Tarjeta de Residente Permanente, conocida como tarjeta verde.',
+        aliases: ['Tarjeta verde', 'Green card', 'Tarjeta de residente permanente', 'Residente permanente'],
+      },
+    },
+  },
+  {
+    id: 'naturalization',
+    term: 'Naturalization',
+    definition: 'The process of becoming a U.S. citizen after being a permanent resident, usually for 5 years (3 if married to a U.S. citizen). It is filed on Form N-400 and includes an interview and a civics test.',
+    aliases: ['Form N-400', 'Citizenship'],
+    translations: {
+      es: {
+        term: 'Naturalización',
+        definition: 'El proceso para hacerse ciudadano de EE. UU. después de ser residente permanente, normalmente por 5 años (3 si está casado con un ciudadano). Se presenta con el Formulario N-400 e incluye una entrevista y un examen de educación cívica.',
+        aliases: ['Ciudadanía'],
+      },
+    },
+  },
+  {
+    id: 'noid',
+    term: 'Notice of Intent to Deny (NOID)',
+    definition: 'A letter saying USCIS plans to deny your case and explaining why. You get one last chance to respond with evidence or arguments before the deadline in the letter.',
+    translations: {
+      es: {
+        term: 'Aviso de intención de negar (NOID)',
+        definition: 'Una carta en la que USCIS dice que piensa negar su caso y explica por qué. Tiene una última oportunidad de responder con pruebas o argumentos antes de la fecha límite de la carta.',
+        aliases: ['Aviso de intención de denegar'],
+      },
+    },
+  },
+  {
+    id: 'notice-of-action',
+    term: 'Notice of Action (Form I-797)',
+    definition: 'The official USCIS letter used for receipts, appointments, approvals and other case updates. The box at the top tells you which kind it is.',
+    aliases: ['I-797', 'I-797C', 'Approval notice'],
+    translations: {
+      es: {
+        term: 'Aviso de acción (Formulario I-797)',
+        definition: 'La carta oficial de USCIS que se usa para recibos, citas, aprobaciones y otras novedades del caso. El recuadro de arriba indica de qué tipo es.',
+        aliases: ['Aviso de aprobación'],
+      },
+    },
+  },
+  {
+    id: 'notice-to-appear',
+    term: 'Notice to Appear (NTA)',
+    definition: 'The document that starts a case in immigration court. It lists why the government says you can be removed and when to appear before a judge. Talk to a lawyer right away.',
+    aliases: ['Form I-862'],
+    translations: {
+      es: {
+        term: 'Notificación de comparecencia (NTA)',
+        definition: 'El documento que inicia un caso en la corte de inmigración. Indica por qué el gobierno dice que puede ser deportado y cuándo debe presentarse ante un juez. Hable con un abogado de inmediato.',
+        aliases: ['Aviso de comparecencia'],
+      },
+    },
+  },
+  {
+    id: 'petitioner',
+    term: 'Petitioner',
+    definition: 'The U.S. citizen, permanent resident or employer who files a petition asking USCIS to let someone else immigrate or work.',
+    aliases: ['Sponsor'],
+    translations: {
+      es: {
+        term: 'Peticionario',
+        definition: 'El ciudadano, residente permanente o empleador que presenta una petición para que USCIS permita a otra persona inmigrar o trabajar.',
+        aliases: ['Peticionaria', 'Patrocinador'],
+      },
+    },
+  },
+  {
+    id: 'priority-date',
+    term: 'Priority Date',
+    definition: 'Your place in line for a green card, usually the date USCIS received the petition. When the Visa Bulletin reaches this date, you can take the next step.',
+    translations: {
+      es: {
+        term: 'Fecha de prioridad',
+        definition: 'Su lugar en la fila para la tarjeta verde, normalmente la fecha en que USCIS recibió la petición. Cuando el Boletín de Visas llega a esa fecha, puede dar el siguiente paso.',
+      },
+    },
+  },
+  {
+    id: 'receipt-number',
+    term: 'Receipt Number',
+    definition: 'The 13-character case number on your receipt notice, starting with three letters such as IOE, EAC or MSC. Use it to check your case status online.',
+    aliases: ['Case number'],
+    translations: {
+      es: {
+        term: 'Número de recibo',
+        definition: 'El número de caso de 13 caracteres en su aviso de recibo, que empieza con tres letras como IOE, EAC o MSC. Úselo para consultar el estado de su caso en línea.',
+        aliases: ['Número de caso'],
+      },
+    },
+  },
+  {
+    id: 'removal-proceedings',
+    term: 'Removal Proceedings',
+    definition: 'A case in immigration court where a judge decides whether you must leave the United States. Missing a hearing can lead to an automatic removal order.',
+    aliases: ['Deportation', 'Immigration court'],
+    translations: {
+      es: {
+        term: 'Proceso de deportación',
+        definition: 'Un caso en la corte de inmigración donde un juez decide si debe salir de Estados Unidos. Faltar a una audiencia puede causar una orden de deportación automática.',
+        aliases: ['Procedimiento de expulsión', 'Deportación', 'Corte de inmigración'],
+      },
+    },
+  },
+  {
+    id: 'rfe',
+    term: 'Request for Evidence (RFE)',
+    definition: 'A letter from USCIS asking for more documents or information before it can decide your case. Send everything it lists before the deadline, or the case may be denied.',
+    translations: {
+      es: {
+        term: 'Solicitud de evidencia (RFE)',
+        definition: 'Una carta de USCIS que pide más documentos o información antes de decidir su caso. Envíe todo lo que pide antes de la fecha límite, o el caso podría ser negado.',
+        aliases: ['Solicitud de pruebas', 'Petición de evidencia'],
+      },
+    },
+  },
+  {
+    id: 'tps',
+    term: 'Temporary Protected Status (TPS)',
+    definition: 'Temporary permission to stay and work in the United States for people from certain countries facing war or disaster. It must be re-registered during each announced period.',
+    translations: {
+      es: {
+        term: 'Estatus de Protección Temporal (TPS)',
+        definition: 'Permiso temporal para quedarse y trabajar en Estados Unidos para personas de ciertos países en guerra o desastre. Hay que volver a inscribirse en cada período anunciado.',
+        aliases: ['Estado de protección temporal'],
+      },
+    },
+  },
+  {
+    id: 'visa-bulletin',
+    term: 'Visa Bulletin',
+    definition: 'A monthly list from the State Department showing which priority dates can move forward in each green card category and country.',
+    translations: {
+      es: {
+        term: 'Boletín de Visas',
+        definition: 'Una lista mensual del Departamento de Estado que muestra qué fechas de prioridad pueden avanzar en cada categoría de tarjeta verde y país.',
+      },
+    },
+  },
+  {
+    id: 'waiver',
+    term: 'Waiver',
+    definition: 'A request asking the government to forgive a problem that would otherwise stop you from getting a visa or green card, such as past unlawful presence. Forms include I-601 and I-601A.',
+    aliases: ['Form I-601', 'Form I-601A'],
+    translations: {
+      es: {
+        term: 'Perdón migratorio (Waiver)',
+        definition: 'Una solicitud para que el gobierno perdone un problema que de otro modo le impediría obtener una visa o tarjeta verde, como una presencia ilegal anterior. Los formularios incluyen el I-601 y el I-601A.',
+        aliases: ['Perdón', 'Dispensa'],
+      },
+    },
+  },
+];
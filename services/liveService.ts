@@ -1,5 +1,9 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { getAIProvider, LiveCloseInfo, LiveConnection, LiveConnectOptions, LiveToolCall, LiveToolDeclaration, LiveToolResult } from './aiProvider';
+import { ProxyError } from './proxyProvider';
+import { DocumentPage, Language } from '../types';
+import { CAPTURE_SAMPLE_RATE, MicrophoneCapture, startMicrophoneCapture } from './audioCapture';
+import { rasterizePdfPages } from './documentRenderService';
 
 // Audio utilities
 export const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -15,25 +19,19 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-export const createPcmBlob = (data: Float32Array): { data: string; mimeType: string } => {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  
+// Samples are already clamped 16-bit PCM from the capture worklet
+export const createPcmBlob = (pcm: Int16Array, sampleRate: number = CAPTURE_SAMPLE_RATE): { data: string; mimeType: string } => {
   // Custom manual encoding to avoid external library dependency
   let binary = '';
-  const bytes = new Uint8Array(int16.buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
   const base64 = btoa(binary);
 
   return {
     data: base64,
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 };
 
@@ -60,129 +58,302 @@ export const decodeAudioData = async (
   return buffer;
 };
 
-// Live Session Manager
+export type LiveErrorKind = 'mic_denied' | 'network' | 'quota' | 'auth' | 'unknown';
+export type LiveConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+export type LiveConnectionQuality = 'good' | 'poor';
+
+export interface LiveStatus {
+  state: LiveConnectionState;
+  quality: LiveConnectionQuality;
+  // Set when state is 'failed'
+  error?: LiveErrorKind;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+// Show the connection as weak for this long after it dropped
+const RECENT_DROP_MS = 60 * 1000;
+const QUALITY_CHECK_MS = 5000;
+// A resumption handle that keeps failing is dropped; the analysis is in the instructions anyway
+const MAX_RESUME_ATTEMPTS = 2;
+
+// Sort a failure into something the user can act on. The socket error itself says almost nothing,
+// so this also looks at close codes and reasons from the server.
+export const classifyLiveError = (error: unknown, close?: LiveCloseInfo): LiveErrorKind => {
+  const name = (error as { name?: string } | null)?.name;
+  if (name === 'NotAllowedError' || name === 'SecurityError' || name === 'NotFoundError' || name === 'NotReadableError') {
+    return 'mic_denied';
+  }
+  if (error instanceof ProxyError) {
+    if (error.code === 'rate_limited') return 'quota';
+    if (error.code === 'network_error') return 'network';
+    if (error.status === 401 || error.status === 403) return 'auth';
+  }
+
+  const text = `${close?.reason || ''} ${(error as { message?: string } | null)?.message || ''}`.toLowerCase();
+  if (/quota|resource.?exhausted|rate.?limit|too many/.test(text)) return 'quota';
+  if (/api.?key|unauthori[sz]ed|unauthenticated|permission|forbidden|token/.test(text)) return 'auth';
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network';
+  // 1006: the socket dropped without a close frame, which is what a lost connection looks like
+  if (close?.code === 1006 || /network|fetch|socket|connection|timed? ?out/.test(text)) return 'network';
+  return 'unknown';
+};
+
+// Worth trying again: the same request could succeed in a moment
+const isRetryable = (kind: LiveErrorKind) => kind === 'network' || kind === 'unknown';
+
+// Exponential backoff with jitter, so many clients dropped at once don't all come back together
+const reconnectDelay = (attempt: number) =>
+  Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+
+// The parts of the Network Information API we read; TypeScript's DOM types don't include it yet
+interface NetworkInformation {
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  rtt?: number;
+}
+
+const isSlowNetwork = () => {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  if (!connection) return false;
+  return connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g' || (connection.rtt ?? 0) > 500;
+};
+
+// Live Session Manager. The microphone and speakers stay open for the whole call;
+// if the connection drops it reconnects with backoff and resumes the same conversation.
 export class LiveSession {
   private nextStartTime = 0;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
-  private inputNode: ScriptProcessorNode | null = null;
+  private capture: MicrophoneCapture | null = null;
   private sources = new Set<AudioBufferSourceNode>();
-  private session: any = null;
+  private connection: LiveConnection | null = null;
   private stream: MediaStream | null = null;
-  private isConnecting = false;
+  private options: LiveConnectOptions | null = null;
+  // Between connect() and disconnect() or a failure
+  private isActive = false;
+  // Bumped for every connection attempt so events from a dropped connection are ignored
+  private connectionId = 0;
+  private resumptionHandle?: string;
+  private resumeAttempts = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private qualityTimer: ReturnType<typeof setInterval> | null = null;
+  private isGoingAway = false;
+  private lastDropAt = 0;
+  private status: LiveStatus = { state: 'closed', quality: 'good' };
 
   constructor(
-    private onConnect: () => void,
-    private onDisconnect: () => void,
-    private onError: (e: any) => void,
-    private onTranscript: (text: string, role: 'user' | 'model') => void
+    private onStatusChange: (status: LiveStatus) => void,
+    private onTranscript: (text: string, role: 'user' | 'model') => void,
+    // The user talked over the answer that was playing
+    private onInterrupted: () => void = () => {},
+    // Runs one of the tools passed to connect(); the result goes back to the model
+    private onToolCall: (call: LiveToolCall) => LiveToolResult | Promise<LiveToolResult> = () => ({ ok: false, message: "Not available" })
   ) {}
 
-  async connect(systemInstruction: string) {
-    if (this.isConnecting || this.session) {
+  async connect(systemInstruction: string, language: Language, pages: DocumentPage[] = [], tools: LiveToolDeclaration[] = []) {
+    if (this.isActive) {
         console.warn("Already connected or connecting");
         return;
     }
 
-    if (!process.env.API_KEY) {
-        this.onError(new Error("API Key not found"));
+    this.isActive = true;
+    this.options = { systemInstruction, language, pages, tools };
+    this.resumptionHandle = undefined;
+    this.resumeAttempts = 0;
+    this.reconnectAttempts = 0;
+    this.lastDropAt = 0;
+    this.setStatus({ state: 'connecting', quality: 'good', error: undefined });
+    window.addEventListener('online', this.handleOnline);
+    this.qualityTimer = setInterval(() => this.updateQuality(), QUALITY_CHECK_MS);
+
+    try {
+      // Capture at the device's own rate; the capture worklet resamples to 16 kHz
+      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+
+      // Resume audio contexts if suspended (browser policy)
+      if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
+      if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      if (!this.isActive) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      this.stream = stream;
+
+      // Audio goes to whichever connection is open; it is dropped while reconnecting
+      const capture = await startMicrophoneCapture(this.inputAudioContext, stream, pcm => {
+        this.connection?.sendAudio(createPcmBlob(pcm));
+      });
+      // Hung up while the worklet was loading
+      if (!this.isActive) {
+        capture.stop();
         return;
+      }
+      this.capture = capture;
+    } catch (err) {
+      console.error("Could not start the microphone", err);
+      if (this.isActive) this.fail(classifyLiveError(err));
+      return;
     }
 
-    this.isConnecting = true;
+    // Live models take images but not PDFs, so a PDF is sent as a picture of each page.
+    // If that fails the call still starts; the PDF pages are left out and the analysis covers them.
+    const images = await rasterizePdfPages(pages).catch(e => {
+      console.warn("Could not turn the PDF pages into images for the call", e);
+      return pages;
+    });
+    if (!this.isActive || !this.options) return;
+    this.options = { ...this.options, pages: images };
 
-    // Initialize AI client here to ensure env vars are ready
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    await this.openConnection();
+  }
 
-    this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    // Resume audio contexts if suspended (browser policy)
-    if (this.inputAudioContext.state === 'suspended') await this.inputAudioContext.resume();
-    if (this.outputAudioContext.state === 'suspended') await this.outputAudioContext.resume();
+  private async openConnection() {
+    if (!this.isActive || !this.options) return;
+    const id = ++this.connectionId;
+    const isCurrent = () => this.isActive && id === this.connectionId;
+    const resumptionHandle = this.resumptionHandle;
+    if (resumptionHandle) this.resumeAttempts++;
 
     try {
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            console.log('Live session connected');
-            this.isConnecting = false;
-            this.onConnect();
-            this.startAudioInput(sessionPromise);
+      const connection = await getAIProvider().connectLive(
+        { ...this.options, resumptionHandle },
+        {
+          onOpen: () => {
+            if (!isCurrent()) return;
+            console.log(resumptionHandle ? 'Live session resumed' : 'Live session connected');
+            this.setStatus({ state: 'connected' });
+            this.updateQuality();
           },
-          onmessage: async (message: LiveServerMessage) => {
-            // 1. Audio Output Handling
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && this.outputAudioContext) {
+          onAudio: (base64Audio) => {
+            if (isCurrent() && this.outputAudioContext) {
                 this.playAudioChunk(base64Audio);
             }
-            
-            // 2. Transcription Handling
-            if (message.serverContent?.outputTranscription?.text) {
-                this.onTranscript(message.serverContent.outputTranscription.text, 'model');
-            }
-            if (message.serverContent?.inputTranscription?.text) {
-                this.onTranscript(message.serverContent.inputTranscription.text, 'user');
-            }
-
-            // 3. Interruption Handling
-            if (message.serverContent?.interrupted) {
-                this.stopAudioPlayback();
-            }
           },
-          onclose: () => {
-            console.log('Live session closed');
-            this.isConnecting = false;
-            this.onDisconnect();
+          onTranscript: (text, role) => {
+            if (isCurrent()) this.onTranscript(text, role);
+          },
+          onInterrupted: () => {
+            if (!isCurrent()) return;
+            this.stopAudioPlayback();
+            this.onInterrupted();
+          },
+          onToolCall: (call) => {
+            if (isCurrent()) this.runTool(call, isCurrent);
+          },
+          onResumptionUpdate: (handle) => {
+            if (!isCurrent()) return;
+            this.resumptionHandle = handle;
+            this.resumeAttempts = 0;
+          },
+          onGoAway: () => {
+            if (isCurrent()) this.isGoingAway = true;
           },
-          onerror: (err) => {
+          onClose: (info) => {
+            if (!isCurrent()) return;
+            console.log('Live session closed', info);
+            this.handleDrop(undefined, info);
+          },
+          onError: (err) => {
+            if (!isCurrent()) return;
             console.error('Live session error', err);
-            this.isConnecting = false;
-            this.onError(err);
+            this.handleDrop(err);
           }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          systemInstruction: systemInstruction,
-          tools: [{ googleSearch: {} }],
         }
-      });
-      
-      this.session = sessionPromise;
+      );
 
+      if (!isCurrent()) {
+        connection.close();
+        return;
+      }
+      this.connection = connection;
     } catch (err) {
       console.error("Connection failed", err);
-      this.isConnecting = false;
-      this.onError(err);
+      if (isCurrent()) this.handleDrop(err);
     }
   }
 
-  private startAudioInput(sessionPromise: Promise<any>) {
-    if (!this.inputAudioContext || !this.stream) return;
+  private async runTool(call: LiveToolCall, isCurrent: () => boolean) {
+    let result: LiveToolResult;
+    try {
+      result = await this.onToolCall(call);
+    } catch (err) {
+      console.error("Live tool failed", call.name, err);
+      result = { ok: false, message: "Something went wrong on the page. Tell the user it didn't work." };
+    }
+    // Answering a dropped connection would go nowhere
+    if (isCurrent()) this.connection?.sendToolResult(call, result);
+  }
 
-    const source = this.inputAudioContext.createMediaStreamSource(this.stream);
-    // 4096 buffer size is standard for script processor to balance latency and overhead
-    this.inputNode = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
-    
-    this.inputNode.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createPcmBlob(inputData);
-      
-      sessionPromise.then(session => {
-         session.sendRealtimeInput({ media: pcmBlob });
-      });
-    };
+  private handleDrop(error: unknown, close?: LiveCloseInfo) {
+    // Anything more from the dropped connection is stale
+    this.connectionId++;
+    const dropped = this.connection;
+    this.connection = null;
+    try {
+      dropped?.close();
+    } catch (e) {
+      // Already closed
+    }
+    this.stopAudioPlayback();
 
-    source.connect(this.inputNode);
-    this.inputNode.connect(this.inputAudioContext.destination);
+    // The server warned it was closing (e.g. the session reached its time limit): come straight back
+    const wasGoingAway = this.isGoingAway;
+    this.isGoingAway = false;
+    const kind = wasGoingAway ? 'network' : classifyLiveError(error, close);
+    // Count attempts per stretch of trouble, not per call, so a connection that keeps flapping still gives up
+    if (Date.now() - this.lastDropAt > RECENT_DROP_MS) this.reconnectAttempts = 0;
+    if (!isRetryable(kind) || this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.fail(kind);
+      return;
+    }
+
+    if (this.resumeAttempts >= MAX_RESUME_ATTEMPTS) {
+      this.resumptionHandle = undefined;
+      this.resumeAttempts = 0;
+    }
+
+    const delay = wasGoingAway ? 0 : reconnectDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.lastDropAt = Date.now();
+    this.setStatus({ state: 'reconnecting', quality: 'poor' });
+    this.scheduleReconnect(delay);
+  }
+
+  private scheduleReconnect(delay: number) {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openConnection();
+    }, delay);
+  }
+
+  // Don't sit out the rest of the backoff once the browser is back online
+  private handleOnline = () => {
+    if (this.status.state === 'reconnecting' && this.reconnectTimer) this.scheduleReconnect(0);
+  };
+
+  private updateQuality() {
+    if (this.status.state !== 'connected') return;
+    const recentlyDropped = this.lastDropAt > 0 && Date.now() - this.lastDropAt < RECENT_DROP_MS;
+    const quality: LiveConnectionQuality = recentlyDropped || isSlowNetwork() ? 'poor' : 'good';
+    if (quality !== this.status.quality) this.setStatus({ quality });
+  }
+
+  private setStatus(update: Partial<LiveStatus>) {
+    this.status = { ...this.status, ...update };
+    this.onStatusChange(this.status);
+  }
+
+  private fail(error: LiveErrorKind) {
+    this.release();
+    this.setStatus({ state: 'failed', error });
   }
 
   private async playAudioChunk(base64Audio: string) {
@@ -216,23 +387,37 @@ export class LiveSession {
   }
 
   async disconnect() {
-    this.isConnecting = false;
-    
-    if (this.session) {
+    await this.release();
+    // Keep a failure on screen until the user closes it
+    if (this.status.state !== 'failed') this.setStatus({ state: 'closed' });
+  }
+
+  // Close the connection and the audio devices, and stop reconnecting
+  private async release() {
+    this.isActive = false;
+    this.connectionId++;
+    window.removeEventListener('online', this.handleOnline);
+    if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+    }
+    if (this.qualityTimer) {
+        clearInterval(this.qualityTimer);
+        this.qualityTimer = null;
+    }
+
+    if (this.connection) {
       try {
-        const s = await this.session;
-        if (s && typeof s.close === 'function') {
-            s.close();
-        }
+        this.connection.close();
       } catch (e) {
         console.error("Error closing session", e);
       }
+      this.connection = null;
     }
 
-    if (this.inputNode) {
-        this.inputNode.disconnect();
-        this.inputNode.onaudioprocess = null;
-        this.inputNode = null;
+    if (this.capture) {
+        this.capture.stop();
+        this.capture = null;
     }
     
     if (this.stream) {
@@ -240,15 +425,10 @@ export class LiveSession {
         this.stream = null;
     }
 
-    if (this.inputAudioContext) {
-        await this.inputAudioContext.close();
-        this.inputAudioContext = null;
-    }
-    if (this.outputAudioContext) {
-        await this.outputAudioContext.close();
-        this.outputAudioContext = null;
-    }
-
-    this.onDisconnect();
+    this.stopAudioPlayback();
+    const contexts = [this.inputAudioContext, this.outputAudioContext];
+    this.inputAudioContext = null;
+    this.outputAudioContext = null;
+    await Promise.all(contexts.map(context => context?.close().catch(() => {})));
   }
 }
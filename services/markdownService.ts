@@ -0,0 +1,399 @@
+// A small Markdown parser for model replies: CommonMark blocks and GFM tables, task lists and autolinks.
+// It builds a tree instead of HTML, so nothing the model writes can become markup.
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  blocks: MarkdownBlock[];
+  // Set for task list items ("- [ ]" / "- [x]")
+  checked?: boolean;
+}
+
+export type MarkdownBlock = (
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: string[]; rows: string[][] }
+  | { type: 'rule' }
+) & {
+  // The lines the block came from; unchanged source means an unchanged block while a reply streams in
+  raw: string;
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( *)([-*+•]|\d{1,9}[.)])(?:[ \t]+(.*)|[ \t]*$)/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK = /^\[([ xX])\]\s+/;
+
+const isBlank = (line: string) => line.trim() === '';
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// Split a table row on pipes, leaving escaped pipes and pipes inside code spans alone
+const splitRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-') &&
+  splitRow(lines[i]).length === splitRow(lines[i + 1]).length;
+
+// A line that ends a paragraph without a blank line in between
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  if (FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || isTableStart(lines, i)) return true;
+  const item = LIST_ITEM.exec(line);
+  // "2020. was a year" shouldn't start a list mid-paragraph, and neither should an empty item
+  return !!item && !!item[3] && (!/^\d/.test(item[2]) || /^1[.)]$/.test(item[2]));
+};
+
+const parseList = (lines: string[], start: number): { block: MarkdownBlock; next: number } => {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /^\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+  let itemLines: string[] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  const finishItem = () => {
+    const blocks = parseBlocks(itemLines);
+    const firstBlock = blocks[0];
+    const task = firstBlock?.type === 'paragraph' ? TASK.exec(firstBlock.text) : null;
+    if (task && firstBlock.type === 'paragraph') {
+      blocks[0] = { ...firstBlock, text: firstBlock.text.slice(task[0].length) };
+      items.push({ blocks, checked: task[1] !== ' ' });
+    } else {
+      items.push({ blocks });
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = LIST_ITEM.exec(line);
+
+    if (item && item[1].length === baseIndent && i !== start) {
+      // A different kind of marker at the same level starts a new list
+      if (/^\d/.test(item[2]) !== ordered) break;
+      finishItem();
+    }
+    if (item && (i === start || item[1].length === baseIndent)) {
+      itemLines = [item[3] || ''];
+      contentIndent = item[0].length - (item[3] || '').length;
+      i++;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      // A blank line only continues the item if the next text is indented under it
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      if (next < lines.length && indentOf(lines[next]) > baseIndent) {
+        itemLines.push('');
+        i++;
+        continue;
+      }
+      break;
+    }
+
+    // Models often indent nested lists by two spaces under "1. ", so anything indented past the marker belongs to the item
+    if (indentOf(line) > baseIndent) {
+      itemLines.push(line.slice(Math.min(indentOf(line), contentIndent)));
+      i++;
+      continue;
+    }
+
+    // An unindented line right after text is a lazy continuation of that text
+    if (!isBlank(itemLines[itemLines.length - 1] || '') && !startsBlock(lines, i)) {
+      itemLines.push(line.trimStart());
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  finishItem();
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items, raw: lines.slice(start, i).join('\n') },
+    next: i,
+  };
+};
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const start = i;
+    const raw = () => lines.slice(start, i).join('\n');
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end, which is what a streaming reply looks like halfway through
+      while (i < lines.length && !closing.test(lines[i])) code.push(lines[i++]);
+      if (i < lines.length) i++;
+      else while (code.length > 0 && isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: code.join('\n'), raw: raw() });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      i++;
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] || '', raw: raw() });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      i++;
+      blocks.push({ type: 'rule', raw: raw() });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(quoted), raw: raw() });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, col) => cells[col] || ''));
+        i++;
+      }
+      blocks.push({ type: 'table', align, header, rows, raw: raw() });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { block, next } = parseList(lines, i);
+      i = next;
+      blocks.push(block);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (i === start || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n'), raw: raw() });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] =>
+  parseBlocks(markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+// Only web, email and phone links survive; "javascript:", "data:" and friends come back null and render as text
+export const sanitizeUrl = (url: string): string | null => {
+  // Browsers ignore control characters and whitespace inside a scheme, so "java\tscript:" must not slip through
+  const cleaned = url.replace(/[\u0000-\u001F\u007F\s]+/g, '');
+  if (!cleaned) return null;
+  if (/^www\./i.test(cleaned)) return `https://${cleaned}`;
+  try {
+    const parsed = new URL(cleaned);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<*~]*[^\s<*~_.,:;"')\]!?]/i;
+const EMAIL = /^[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+
+// "*" and "_" only open emphasis before text and close it after text; "_" also not inside a word (snake_case)
+const canOpen = (text: string, i: number, marker: string) =>
+  !!text[i + marker.length] && !/\s/.test(text[i + marker.length]) && (marker[0] !== '_' || !/[\p{L}\p{N}]/u.test(text[i - 1] || ''));
+
+const findClosing = (text: string, from: number, marker: string): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    if (
+      text.startsWith(marker, i) &&
+      i > from &&
+      !/\s/.test(text[i - 1]) &&
+      // Neither half of a "**" closes a "*", and "_" must not close mid-word
+      (marker.length === 2 || (text[i + 1] !== marker[0] && text[i - 1] !== marker[0])) &&
+      (marker[0] !== '_' || !/[\p{L}\p{N}]/u.test(text[i + marker.length] || ''))
+    ) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = /^`+/.exec(rest)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const marker = rest.startsWith(char + char) ? char + char : char;
+      const type = char === '~' ? 'del' : marker.length === 2 ? 'strong' : 'em';
+      if ((char !== '~' || marker.length === 2) && canOpen(text, i, marker)) {
+        const end = findClosing(text, i + marker.length, marker);
+        if (end !== -1) {
+          push({ type, children: parseInline(text.slice(i + marker.length, end)) });
+          i = end + marker.length;
+          continue;
+        }
+      }
+      buffer += marker;
+      i += marker.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = /^\[((?:\\.|[^\\\]])*)\]\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"[^"]*")?\s*\)/.exec(rest);
+      if (link) {
+        const href = sanitizeUrl(link[2]);
+        const children = parseInline(link[1]);
+        if (href) push({ type: 'link', href, children });
+        else children.forEach(push);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = /^<((?:https?|mailto|tel):[^\s<>]+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+)>/i.exec(rest);
+      if (autolink) {
+        const target = autolink[1].includes(':') ? autolink[1] : `mailto:${autolink[1]}`;
+        const href = sanitizeUrl(target);
+        if (href) push({ type: 'link', href, children: [{ type: 'text', text: autolink[1] }] });
+        else buffer += autolink[0];
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    // Bare URLs and email addresses, when they start a word
+    if (!/[\p{L}\p{N}]/u.test(text[i - 1] || '')) {
+      const url = BARE_URL.exec(rest);
+      const href = url && sanitizeUrl(url[0]);
+      if (url && href) {
+        push({ type: 'link', href, children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+      const email = EMAIL.exec(rest);
+      if (email && /\.[a-z]{2,}$/i.test(email[0])) {
+        push({ type: 'link', href: `mailto:${email[0]}`, children: [{ type: 'text', text: email[0] }] });
+        i += email[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
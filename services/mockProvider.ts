@@ -0,0 +1,102 @@
+import { AnalysisResult, DocumentPage, Language } from '../types';
+import { AIProvider, ChatReply, ChatReplyChunk, ChatTurn, DocumentChat, LiveConnection, LiveConnectOptions, LiveEvents } from './aiProvider';
+import { mockAnalysisResults, mockChatReplies, mockChatFallback, mockLiveGreeting, MockFixture } from './fixtures/mockAnalysis';
+import { collectTranslatableText, applyTranslatedText } from './translationService';
+
+// Small fixed delay so loading states are visible during development
+const MOCK_LATENCY_MS = 300;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Deep copy so callers can't mutate the shared fixtures
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const forLanguage = <T>(fixture: MockFixture<T>, language: Language): T => fixture[language] || fixture.en;
+
+const analyzeDocument = async (pages: DocumentPage[], language: Language) => {
+  await delay(MOCK_LATENCY_MS);
+  return clone(forLanguage(mockAnalysisResults, language));
+};
+
+// The fixtures line up field by field across languages, so a lookup stands in for the model.
+// Text that isn't from a fixture is left as it was.
+const translateAnalysis = async (result: AnalysisResult, from: Language, to: Language) => {
+  await delay(MOCK_LATENCY_MS);
+  const source = collectTranslatableText(forLanguage(mockAnalysisResults, from));
+  const target = collectTranslatableText(forLanguage(mockAnalysisResults, to));
+  return applyTranslatedText(result, collectTranslatableText(result).map(text => {
+    const index = source.indexOf(text);
+    return index >= 0 && target[index] ? target[index] : text;
+  }));
+};
+
+// Delay between streamed words
+const MOCK_STREAM_INTERVAL_MS = 40;
+
+// Replies are keyword-based, so a restored history doesn't change anything offline
+const createDocumentChat = async (pages: DocumentPage[], language: Language, history?: ChatTurn[]): Promise<DocumentChat> => {
+  await delay(MOCK_LATENCY_MS);
+
+  const buildReply = (text: string): ChatReply => {
+    const normalized = text.toLowerCase();
+    const match = forLanguage(mockChatReplies, language).find(entry => entry.keywords.some(k => normalized.includes(k)));
+    return {
+      text: match ? match.reply : forLanguage(mockChatFallback, language),
+      sources: [],
+      finishReason: 'STOP',
+    };
+  };
+
+  return {
+    sendMessage: async (text: string) => {
+      await delay(MOCK_LATENCY_MS);
+      return buildReply(text);
+    },
+    sendMessageStream: async function* (text: string, signal?: AbortSignal): AsyncGenerator<ChatReplyChunk> {
+      const reply = buildReply(text);
+      await delay(MOCK_LATENCY_MS);
+
+      // Split after whitespace so the chunks join back into the exact reply
+      const words = reply.text.match(/\S+\s*|\s+/g) || [];
+      for (const word of words) {
+        if (signal?.aborted) return;
+        yield { text: word };
+        await delay(MOCK_STREAM_INTERVAL_MS);
+      }
+      yield { text: '', sources: reply.sources, finishReason: reply.finishReason };
+    },
+  };
+};
+
+const connectLive = async (options: LiveConnectOptions, events: LiveEvents): Promise<LiveConnection> => {
+  let isOpen = true;
+
+  // Fire callbacks asynchronously, like a real socket
+  setTimeout(() => {
+    if (!isOpen) return;
+    events.onOpen();
+    events.onTranscript(forLanguage(mockLiveGreeting, options.language), 'model');
+  }, MOCK_LATENCY_MS);
+
+  return {
+    sendAudio: () => {
+      // Microphone audio is discarded offline
+    },
+    sendToolResult: () => {
+      // The mock never calls tools
+    },
+    close: () => {
+      if (!isOpen) return;
+      isOpen = false;
+      events.onClose();
+    },
+  };
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  analyzeDocument,
+  translateAnalysis,
+  createDocumentChat,
+  connectLive,
+};
@@ -0,0 +1,55 @@
+// Checklist progress is stored per document (content hash) so it survives reloads
+export interface DocumentProgress {
+  completedTasks: number[];
+  checkedDocuments: number[];
+  checkedSupplementalDocuments: number[];
+  // Deadlines (by position in the analysis) the user asked to be reminded of
+  remindedDeadlines: number[];
+  // When the user last changed any of it; 0 for progress saved before this was tracked
+  updatedAt: number;
+}
+
+// The checklists inside DocumentProgress
+export type ProgressList = Exclude<keyof DocumentProgress, 'updatedAt'>;
+
+const STORAGE_PREFIX = 'pathfinder:progress:';
+
+export const createEmptyProgress = (): DocumentProgress => ({
+  completedTasks: [],
+  checkedDocuments: [],
+  checkedSupplementalDocuments: [],
+  remindedDeadlines: [],
+  updatedAt: 0,
+});
+
+export const loadProgress = (documentId: string): DocumentProgress => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + documentId);
+    if (!raw) return createEmptyProgress();
+    return { ...createEmptyProgress(), ...JSON.parse(raw) };
+  } catch (e) {
+    // Private browsing or corrupted data: start fresh rather than breaking the view
+    console.warn("Could not load checklist progress", e);
+    return createEmptyProgress();
+  }
+};
+
+export const saveProgress = (documentId: string, progress: DocumentProgress) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + documentId, JSON.stringify(progress));
+  } catch (e) {
+    console.warn("Could not save checklist progress", e);
+  }
+};
+
+export const clearProgress = (documentId: string) => {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + documentId);
+  } catch (e) {
+    console.warn("Could not clear checklist progress", e);
+  }
+};
+
+// Add or remove an index from one of the checklist lists
+export const toggleIndex = (list: number[], index: number): number[] =>
+  list.includes(index) ? list.filter(i => i !== index) : [...list, index].sort((a, b) => a - b);
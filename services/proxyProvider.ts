@@ -0,0 +1,185 @@
+import { GoogleGenAI } from '@google/genai';
+import { AnalysisResult, DocumentPage, Language } from '../types';
+import { AIProvider, ChatReply, ChatReplyChunk, ChatTurn, DocumentChat, LiveConnection, LiveConnectOptions, LiveEvents, SpeechAudio } from './aiProvider';
+import { AnalysisValidationError } from './analysisValidator';
+import { connectLive as connectGeminiLive } from './geminiService';
+
+// Error codes sent back by the proxy server, plus 'network_error' when it can't be reached
+export type ProxyErrorCode =
+  | 'bad_request'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'not_found'
+  | 'chat_expired'
+  | 'invalid_analysis'
+  | 'upstream_error'
+  | 'network_error';
+
+export class ProxyError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: ProxyErrorCode,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const API_BASE = process.env.API_BASE_URL || '/api';
+
+const postJson = async <T>(path: string, body: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (e) {
+    throw new ProxyError("Could not reach the PathFinder server", 0, 'network_error');
+  }
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw toError(response, payload);
+  return payload as T;
+};
+
+const toError = (response: Response, payload: unknown): Error => {
+  // Error bodies come from our server, but a proxy in between can answer with anything
+  const body = typeof payload === 'object' && payload !== null ? (payload as Record<string, unknown>) : {};
+  const message = typeof body.message === 'string' ? body.message : undefined;
+  const code = typeof body.error === 'string' ? body.error : undefined;
+  // Keep the same error type the app already handles for bad model output
+  if (code === 'invalid_analysis') {
+    const issues = Array.isArray(body.issues) ? body.issues.filter((issue): issue is string => typeof issue === 'string') : [];
+    return new AnalysisValidationError(message || "Invalid analysis", issues);
+  }
+  return new ProxyError(
+    message || `Request failed (${response.status})`,
+    response.status,
+    (code || 'upstream_error') as ProxyErrorCode,
+    Number(response.headers.get('Retry-After')) || undefined
+  );
+};
+
+// Read a newline-delimited JSON response as it arrives. Aborting ends the stream quietly.
+async function* postNdjson<T>(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) return;
+    throw new ProxyError("Could not reach the PathFinder server", 0, 'network_error');
+  }
+
+  if (!response.ok || !response.body) {
+    throw toError(response, await response.json().catch(() => ({})));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        // Errors after the headers were sent arrive as a final line
+        if (event.error) throw new ProxyError(event.message || "Stream failed", response.status, event.error);
+        yield event as T;
+      }
+    }
+  } catch (e) {
+    if (signal?.aborted) return;
+    throw e;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const analyzeDocument = (pages: DocumentPage[], language: Language) =>
+  postJson<AnalysisResult>('/analyze', { pages, language });
+
+const translateAnalysis = (result: AnalysisResult, from: Language, to: Language) =>
+  postJson<AnalysisResult>('/translate', { result, from, to });
+
+const createDocumentChat = async (pages: DocumentPage[], language: Language, history: ChatTurn[] = []): Promise<DocumentChat> => {
+  // Kept in step with the server-side chat so an expired one can be rebuilt without losing context
+  const transcript: ChatTurn[] = [...history];
+  const startChat = async () => (await postJson<{ chatId: string }>('/chat', { pages, language, history: transcript })).chatId;
+  let chatId = await startChat();
+
+  const remember = (question: string, answer: string) => {
+    if (answer) transcript.push({ role: 'user', text: question }, { role: 'model', text: answer });
+  };
+
+  return {
+    sendMessage: async (text: string) => {
+      let reply: ChatReply;
+      try {
+        reply = await postJson<ChatReply>('/chat/message', { chatId, message: text });
+      } catch (e) {
+        // The server forgets idle chats (and all chats on restart): open a new one and retry once
+        if (!(e instanceof ProxyError && e.code === 'chat_expired')) throw e;
+        chatId = await startChat();
+        reply = await postJson<ChatReply>('/chat/message', { chatId, message: text });
+      }
+      remember(text, reply.text);
+      return reply;
+    },
+    sendMessageStream: async function* (text: string, signal?: AbortSignal) {
+      let answer = '';
+      const stream = async function* () {
+        for await (const chunk of postNdjson<ChatReplyChunk>('/chat/stream', { chatId, message: text }, signal)) {
+          answer += chunk.text;
+          yield chunk;
+        }
+      };
+
+      try {
+        yield* stream();
+      } catch (e) {
+        // chat_expired is only sent before the first chunk, so retrying can't duplicate text
+        if (!(e instanceof ProxyError && e.code === 'chat_expired')) throw e;
+        chatId = await startChat();
+        yield* stream();
+      }
+      // A stopped stream ends quietly, but the server never finished that turn, so a rebuilt chat mustn't include it
+      if (!signal?.aborted) remember(text, answer);
+    },
+  };
+};
+
+const synthesizeSpeech = (text: string, language: Language) =>
+  postJson<SpeechAudio>('/tts', { text, language });
+
+// Live audio goes straight to Gemini over WebSocket, authorized by a single-use token from the proxy
+const connectLive = async (options: LiveConnectOptions, events: LiveEvents): Promise<LiveConnection> => {
+  const { token } = await postJson<{ token: string }>('/live-token', {});
+  const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+  return connectGeminiLive(ai, options, events);
+};
+
+export const proxyProvider: AIProvider = {
+  name: 'proxy',
+  analyzeDocument,
+  translateAnalysis,
+  createDocumentChat,
+  connectLive,
+  synthesizeSpeech,
+};
@@ -0,0 +1,294 @@
+import { Language } from '../types';
+import { getAIProvider } from './aiProvider';
+import { getLanguageInfo } from '../locales/languages';
+
+export type ReadAloudState = 'idle' | 'loading' | 'playing' | 'paused';
+
+// Which sentence of which text is being spoken
+export interface ReadAloudPosition {
+  segment: number;
+  sentence: number;
+}
+
+interface QueuedSentence extends ReadAloudPosition {
+  text: string;
+}
+
+export const READ_ALOUD_RATES = [0.75, 1, 1.25, 1.5];
+
+const RATE_STORAGE_KEY = 'pathfinder:readAloudRate';
+
+// Sentences with their trailing spaces, so joining them gives back the exact text.
+// Intl.Segmenter knows the sentence rules of each language (e.g. Chinese and Arabic punctuation).
+export const splitSentences = (text: string, language: Language): string[] => {
+  if (!text) return [];
+  if (typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), part => part.segment);
+  }
+  return text.match(/[^.!?。！？؟\n]+(?:[.!?。！？؟]+|\n|$)\s*|\s+/g) || [text];
+};
+
+// Chat replies are Markdown; the voice should read the words, not the symbols
+export const toSpeakableText = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    // Table delimiter rows and horizontal rules have nothing to say; cell borders become pauses
+    .replace(/^[ \t]*\|?[ \t:|-]*-[ \t:|-]*$/gm, '')
+    .replace(/^[ \t]*\|[ \t]*|[ \t]*\|[ \t]*$/gm, '')
+    .replace(/[ \t]*\|[ \t]*/g, ', ')
+    .replace(/^\s*(?:[-*•]\s+\[[ xX]\]|[-*•])\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|`|~~)/g, '')
+    .trim();
+
+export const loadReadAloudRate = (): number => {
+  try {
+    const rate = Number(localStorage.getItem(RATE_STORAGE_KEY));
+    return READ_ALOUD_RATES.includes(rate) ? rate : 1;
+  } catch (e) {
+    return 1;
+  }
+};
+
+export const saveReadAloudRate = (rate: number) => {
+  try {
+    localStorage.setItem(RATE_STORAGE_KEY, String(rate));
+  } catch (e) {
+    console.warn("Could not save reading speed", e);
+  }
+};
+
+const hasWebSpeech = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export const isReadAloudSupported = () => hasWebSpeech() || !!getAIProvider().synthesizeSpeech;
+
+// Wrap raw 16-bit mono PCM in a WAV header so an <audio> element can play it
+// (which keeps the pitch natural when the speed changes)
+const pcmToWavUrl = (base64: string, mimeType: string): string => {
+  const sampleRate = Number(/rate=(\d+)/.exec(mimeType)?.[1]) || 24000;
+  const pcm = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) =>
+    text.split('').forEach((char, i) => header.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeText(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeText(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  return URL.createObjectURL(new Blob([header.buffer, pcm], { type: 'audio/wav' }));
+};
+
+// Only one passage is read at a time across the whole page
+let activePlayer: ReadAloudPlayer | null = null;
+
+// Reads a list of texts sentence by sentence: the provider's voice when it has one and we're online,
+// otherwise (or as soon as that fails) the browser's speech synthesis
+export class ReadAloudPlayer {
+  private queue: QueuedSentence[] = [];
+  private index = 0;
+  private language: Language = 'en';
+  private state: ReadAloudState = 'idle';
+  private useWebSpeech = false;
+  private audio: HTMLAudioElement | null = null;
+  private utterance: SpeechSynthesisUtterance | null = null;
+  // Audio for upcoming sentences, requested one ahead so playback doesn't stall between them
+  private audioUrls = new Map<number, Promise<string>>();
+  // Bumped on every stop so late callbacks from an earlier run are ignored
+  private run = 0;
+
+  constructor(
+    private onStateChange: (state: ReadAloudState) => void,
+    private onPositionChange: (position: ReadAloudPosition | null) => void,
+    private rate: number = 1
+  ) {}
+
+  play(segments: string[], language: Language) {
+    if (activePlayer && activePlayer !== this) activePlayer.stop();
+    activePlayer = this;
+    this.stop();
+
+    this.language = language;
+    this.queue = segments.flatMap((segment, segmentIndex) =>
+      splitSentences(segment, language)
+        .map((text, sentence) => ({ segment: segmentIndex, sentence, text: text.trim() }))
+        .filter(item => item.text)
+    );
+    this.index = 0;
+    const online = typeof navigator === 'undefined' || navigator.onLine !== false;
+    this.useWebSpeech = !(online && getAIProvider().synthesizeSpeech);
+    this.speakCurrent();
+  }
+
+  pause() {
+    if (this.state !== 'playing' && this.state !== 'loading') return;
+    this.setState('paused');
+    if (this.audio) {
+      this.audio.pause();
+    } else if (this.utterance) {
+      // speechSynthesis.pause() is unreliable across browsers; resume restarts the sentence instead
+      this.utterance = null;
+      window.speechSynthesis.cancel();
+    }
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    if (activePlayer && activePlayer !== this) activePlayer.stop();
+    activePlayer = this;
+
+    if (this.audio) {
+      this.setState('playing');
+      this.audio.play().catch(() => this.fallBackToWebSpeech(this.run));
+    } else {
+      this.speakCurrent();
+    }
+  }
+
+  setRate(rate: number) {
+    this.rate = rate;
+    if (this.audio) {
+      this.audio.playbackRate = rate;
+    } else if (this.utterance && this.state === 'playing') {
+      // Browser voices can't change speed mid-sentence, so start the sentence again
+      this.utterance = null;
+      window.speechSynthesis.cancel();
+      this.speakCurrent();
+    }
+  }
+
+  stop() {
+    this.run++;
+    if (this.audio) {
+      this.audio.pause();
+      this.audio = null;
+    }
+    if (this.utterance) {
+      this.utterance = null;
+      window.speechSynthesis.cancel();
+    }
+    this.audioUrls.forEach(url => url.then(URL.revokeObjectURL, () => {}));
+    this.audioUrls.clear();
+    if (activePlayer === this) activePlayer = null;
+    if (this.state !== 'idle') {
+      this.setState('idle');
+      this.onPositionChange(null);
+    }
+  }
+
+  private setState(state: ReadAloudState) {
+    this.state = state;
+    this.onStateChange(state);
+  }
+
+  private next(run: number) {
+    if (run !== this.run) return;
+    this.audio = null;
+    this.utterance = null;
+    this.index++;
+    this.speakCurrent();
+  }
+
+  private speakCurrent() {
+    const sentence = this.queue[this.index];
+    if (!sentence) {
+      this.stop();
+      return;
+    }
+    this.onPositionChange({ segment: sentence.segment, sentence: sentence.sentence });
+
+    if (this.useWebSpeech) {
+      this.speakWithWebSpeech(sentence.text);
+    } else {
+      this.playCloudAudio(this.run);
+    }
+  }
+
+  private fetchAudio(index: number): Promise<string> | undefined {
+    const sentence = this.queue[index];
+    const synthesize = getAIProvider().synthesizeSpeech;
+    if (!sentence || !synthesize) return undefined;
+    if (!this.audioUrls.has(index)) {
+      const url = synthesize(sentence.text, this.language).then(audio => pcmToWavUrl(audio.data, audio.mimeType));
+      // Failures are handled where the audio is played
+      url.catch(() => {});
+      this.audioUrls.set(index, url);
+    }
+    return this.audioUrls.get(index);
+  }
+
+  private async playCloudAudio(run: number) {
+    if (this.state !== 'paused') this.setState('loading');
+    try {
+      const url = await this.fetchAudio(this.index)!;
+      if (run !== this.run) return;
+      this.fetchAudio(this.index + 1);
+
+      const audio = new Audio(url);
+      audio.playbackRate = this.rate;
+      audio.onended = () => this.next(run);
+      audio.onerror = () => this.fallBackToWebSpeech(run);
+      this.audio = audio;
+
+      // Paused while the audio was loading: resume() will start it
+      if (this.state === 'paused') return;
+      await audio.play();
+      if (run === this.run) this.setState('playing');
+    } catch (e) {
+      console.warn("Cloud voice unavailable, using the browser voice", e);
+      this.fallBackToWebSpeech(run);
+    }
+  }
+
+  private fallBackToWebSpeech(run: number) {
+    if (run !== this.run) return;
+    this.audio = null;
+    if (!hasWebSpeech()) {
+      this.stop();
+      return;
+    }
+    this.useWebSpeech = true;
+    if (this.state !== 'paused') this.speakCurrent();
+  }
+
+  private speakWithWebSpeech(text: string) {
+    if (!hasWebSpeech()) {
+      this.stop();
+      return;
+    }
+    const run = this.run;
+    const speechLang = getLanguageInfo(this.language).speechLang;
+    const base = speechLang.split('-')[0];
+    const voices = window.speechSynthesis.getVoices();
+    const voice = voices.find(v => v.lang === speechLang) || voices.find(v => v.lang.toLowerCase().startsWith(base));
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = speechLang;
+    if (voice) utterance.voice = voice;
+    utterance.rate = this.rate;
+    // Cancelling fires these too; only the sentence that is still current may move on
+    utterance.onend = () => {
+      if (this.utterance === utterance) this.next(run);
+    };
+    utterance.onerror = () => {
+      if (this.utterance === utterance) this.next(run);
+    };
+
+    this.utterance = utterance;
+    this.setState('playing');
+    window.speechSynthesis.speak(utterance);
+  }
+}
@@ -0,0 +1,213 @@
+import { AnalysisResult, Language, Sentiment } from '../types';
+import { translations, interpolate, getLanguageInfo } from '../locales';
+import { parseDeadlineDate, sortDeadlines } from './deadlineService';
+import { hasCaseMetadata } from './caseMetadataService';
+import { mergeWithDictionary } from './glossaryService';
+
+// A4 at 96 dpi; the PDF is rendered at this width so it matches the print layout
+const PAGE_WIDTH_PX = 794;
+const PAGE_MARGIN_MM = 12;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'document';
+
+const getSentimentLabel = (sentiment: Sentiment, language: Language) => {
+  const t = translations[language];
+  if (sentiment === Sentiment.POSITIVE) return t.goodNews;
+  if (sentiment === Sentiment.NEGATIVE) return t.actionRequired;
+  if (sentiment === Sentiment.NEUTRAL) return t.neutralUpdate;
+  return t.analysisComplete;
+};
+
+const SENTIMENT_COLORS: Record<Sentiment, string> = {
+  [Sentiment.POSITIVE]: '#166534',
+  [Sentiment.NEGATIVE]: '#9a3412',
+  [Sentiment.NEUTRAL]: '#334155',
+  [Sentiment.UNKNOWN]: '#334155',
+};
+
+// Print-friendly styles only: no Tailwind, so the page looks the same printed, saved or rendered to PDF
+const SUMMARY_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px 40px; font-family: Helvetica, Arial, sans-serif; color: #0f172a; font-size: 13px; line-height: 1.5; background: #fff; }
+  header { border-bottom: 3px solid #0284c7; padding-bottom: 12px; margin-bottom: 20px; }
+  .eyebrow { font-size: 11px; font-weight: bold; letter-spacing: 0.08em; text-transform: uppercase; color: #0369a1; margin: 0 0 4px; }
+  h1 { font-size: 24px; margin: 0 0 8px; line-height: 1.25; }
+  h2 { font-size: 15px; margin: 22px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; break-after: avoid; }
+  .news { border: 1px solid #cbd5e1; border-radius: 8px; padding: 10px 12px; margin-top: 8px; }
+  .news strong { display: block; margin-bottom: 2px; }
+  ul, ol { margin: 0; padding-inline-start: 20px; }
+  li { margin-bottom: 6px; break-inside: avoid; }
+  .meta { color: #475569; font-size: 12px; }
+  .checklist { list-style: none; padding-inline-start: 0; }
+  .checklist li::before { content: "\\2610"; margin-inline-end: 8px; font-size: 15px; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: start; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { width: 34%; color: #475569; font-weight: bold; }
+  .example { background: #f8fafc; border-inline-start: 3px solid #7dd3fc; padding: 8px 12px; font-style: italic; }
+  footer { margin-top: 28px; padding-top: 10px; border-top: 1px solid #cbd5e1; color: #475569; font-size: 11px; }
+  @page { size: A4; margin: 14mm; }
+  @media print { body { padding: 0; } }
+`;
+
+const formatDate = (iso: string, language: Language) => {
+  const date = parseDeadlineDate(iso);
+  return date ? date.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' }) : iso;
+};
+
+// A standalone HTML page with the whole analysis, in the reader's language
+export const buildSummaryHtml = (result: AnalysisResult, language: Language, now: Date = new Date()): string => {
+  const t = translations[language];
+  const e = escapeHtml;
+  const sections: string[] = [];
+
+  if (hasCaseMetadata(result.caseMetadata)) {
+    const metadata = result.caseMetadata;
+    const rows = [
+      [t.receiptNumber, metadata.receiptNumber],
+      [t.aNumber, metadata.aNumber],
+      [t.priorityDate, metadata.priorityDate && formatDate(metadata.priorityDate, language)],
+      [t.noticeDate, metadata.noticeDate && formatDate(metadata.noticeDate, language)],
+      [t.serviceCenter, metadata.serviceCenter],
+      [t.beneficiary, metadata.beneficiaryName],
+      [t.petitioner, metadata.petitionerName],
+    ].filter(([, value]) => value);
+    sections.push(`<h2>${e(t.caseDetails)}</h2><table>${rows.map(([label, value]) => `<tr><th>${e(label!)}</th><td>${e(value!)}</td></tr>`).join('')}</table>`);
+  }
+
+  sections.push(`<h2>${e(t.whatIsThis)}</h2><p>${e(result.whatIsThis)}</p>`);
+
+  const actionItems = result.actionItems || [];
+  sections.push(`<h2>${e(t.todoTitle)}</h2>${actionItems.length === 0
+    ? `<p>${e(t.noActionItems)}</p>`
+    : `<ol>${actionItems.map(item => `<li><strong>${e(item.title)}</strong>${item.details ? `<br>${e(item.details)}` : ''}${
+        item.dueDate ? `<br><span class="meta">${e(t.due)} ${e(formatDate(item.dueDate, language))}</span>` : ''
+      }${item.requiredDocument ? `<br><span class="meta">${e(t.taskNeeds)} ${e(item.requiredDocument)}</span>` : ''}</li>`).join('')}</ol>`}`);
+
+  const deadlines = sortDeadlines(result.deadlines || []);
+  if (deadlines.length > 0) {
+    sections.push(`<h2>${e(t.deadlinesTitle)}</h2><table>${deadlines.map(deadline => `<tr><th>${e(formatDate(deadline.date, language))}${
+      deadline.isEstimated ? ` <span class="meta">(${e(t.deadlineEstimated)})</span>` : ''
+    }</th><td><strong>${e(t.deadlineTypes[deadline.type] || deadline.type)}</strong>${
+      deadline.sourceText ? `<br><span class="meta">"${e(deadline.sourceText)}"</span>` : ''
+    }</td></tr>`).join('')}</table>`);
+  }
+
+  if (result.requiredDocuments?.length > 0) {
+    sections.push(`<h2>${e(t.requiredDocs)}</h2><ul class="checklist">${result.requiredDocuments.map(doc => `<li>${e(doc)}</li>`).join('')}</ul>`);
+  }
+
+  if (result.exampleOfRequirement) {
+    sections.push(`<h2>${e(t.example)}</h2><p class="example">${e(result.exampleOfRequirement)}</p>`);
+  }
+
+  const terms = mergeWithDictionary(result, language);
+  if (terms.length > 0) {
+    sections.push(`<h2>${e(t.simpleDefinitions)}</h2><table>${terms.map(term => `<tr><th>${e(term.term)}</th><td>${e(term.definition)}</td></tr>`).join('')}</table>`);
+  }
+
+  const created = now.toLocaleDateString(language, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return `<!DOCTYPE html>
+<html lang="${language}" dir="${getLanguageInfo(language).dir}">
+<head>
+<meta charset="UTF-8">
+<title>${e(result.documentType)} - ${e(t.appTitle)}</title>
+<style>${SUMMARY_STYLES}</style>
+</head>
+<body>
+<header>
+<p class="eyebrow">${e(t.docAnalysis)}</p>
+<h1>${e(result.documentType)}</h1>
+<div class="news" style="color: ${SENTIMENT_COLORS[result.sentiment] || SENTIMENT_COLORS[Sentiment.UNKNOWN]}">
+<strong>${e(getSentimentLabel(result.sentiment, language))}</strong>${e(result.goodOrBadNews)}
+</div>
+</header>
+${sections.join('\n')}
+<footer>
+<p>${e(interpolate(t.summaryCreated, { date: created }))}</p>
+<p>${e(t.disclaimer)}</p>
+</footer>
+</body>
+</html>`;
+};
+
+// Render the summary in an off-screen frame so the app's own styles don't leak in
+const withSummaryFrame = <T>(html: string, width: number, use: (frame: HTMLIFrameElement) => Promise<T>): Promise<T> => {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${width}px; height: 1000px; border: 0;`;
+  document.body.appendChild(frame);
+
+  return new Promise<T>((resolve, reject) => {
+    frame.onload = () => {
+      use(frame).then(resolve, reject);
+    };
+    frame.srcdoc = html;
+  }).finally(() => {
+    // Printing is asynchronous in some browsers; wait before pulling the frame out from under it
+    setTimeout(() => frame.remove(), 1000);
+  });
+};
+
+export const printSummary = (result: AnalysisResult, language: Language) =>
+  withSummaryFrame(buildSummaryHtml(result, language), PAGE_WIDTH_PX, async frame => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+  });
+
+// Rendered as images of the print layout, so every script (including right-to-left ones) looks right
+export const downloadSummaryPdf = (result: AnalysisResult, language: Language) =>
+  withSummaryFrame(buildSummaryHtml(result, language), PAGE_WIDTH_PX, async frame => {
+    // Loaded on demand; they are only needed when someone exports
+    const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import('html2canvas'), import('jspdf')]);
+
+    const body = frame.contentDocument!.body;
+    const canvas = await html2canvas(body, {
+      scale: 2,
+      backgroundColor: '#ffffff',
+      windowWidth: PAGE_WIDTH_PX,
+      windowHeight: body.scrollHeight,
+    });
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+    const pageHeight = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+    // Canvas pixels that fit on one page at the page's width
+    const sliceHeight = Math.floor(canvas.width * (pageHeight / pageWidth));
+
+    // Break pages below a whole block (line item, table row, paragraph) instead of through a line of text
+    const scale = canvas.width / body.scrollWidth;
+    const blockEnds = Array.from(body.querySelectorAll('header, h2, p, li, tr'))
+      .map(el => Math.ceil((el as HTMLElement).getBoundingClientRect().bottom * scale))
+      .sort((a, b) => a - b);
+    const nextBreak = (top: number) => {
+      const limit = top + sliceHeight;
+      if (limit >= canvas.height) return canvas.height;
+      const end = blockEnds.filter(y => y > top + sliceHeight / 2 && y <= limit).pop();
+      return end || limit;
+    };
+
+    for (let top = 0, page = 0; top < canvas.height; page++) {
+      const bottom = nextBreak(top);
+      const height = bottom - top;
+      const slice = document.createElement('canvas');
+      slice.width = canvas.width;
+      slice.height = height;
+      slice.getContext('2d')!.drawImage(canvas, 0, top, canvas.width, height, 0, 0, canvas.width, height);
+
+      if (page > 0) pdf.addPage();
+      pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE_MARGIN_MM, PAGE_MARGIN_MM, pageWidth, height * (pageWidth / canvas.width));
+      top = bottom;
+    }
+
+    pdf.save(`pathfinder-${slugify(result.documentType)}.pdf`);
+  });
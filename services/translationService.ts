@@ -0,0 +1,55 @@
+import { AnalysisResult } from '../types';
+
+// Apply `translate` to every reader-facing text field, always in the same order.
+// Dates, enums, case numbers, names, page numbers and quotes from the letter are copied as they are,
+// so a translated result can't disagree with the original about what the document says.
+const mapText = (result: AnalysisResult, translate: (text: string) => string): AnalysisResult => {
+  const optional = (text?: string) => (text ? translate(text) : text);
+  // Each document is translated once. Action items name their document exactly as it appears in
+  // requiredDocuments, so they reuse that translation by index and still point at the same checklist entry.
+  const originalDocuments = result.requiredDocuments || [];
+  const requiredDocuments = originalDocuments.map(doc => translate(doc));
+  const documentFor = (name?: string) => {
+    if (!name) return name;
+    const index = originalDocuments.indexOf(name);
+    return index === -1 ? translate(name) : requiredDocuments[index];
+  };
+  return {
+    ...result,
+    caseMetadata: { ...result.caseMetadata },
+    documentType: translate(result.documentType),
+    whatIsThis: translate(result.whatIsThis),
+    goodOrBadNews: translate(result.goodOrBadNews),
+    actionItems: (result.actionItems || []).map(item => ({
+      ...item,
+      title: translate(item.title),
+      details: optional(item.details) as string,
+      requiredDocument: documentFor(item.requiredDocument),
+    })),
+    deadlines: (result.deadlines || []).map(deadline => ({ ...deadline })),
+    requiredDocuments,
+    exampleOfRequirement: optional(result.exampleOfRequirement),
+    simplifiedTerms: (result.simplifiedTerms || []).map(term => ({ term: translate(term.term), definition: translate(term.definition) })),
+    keyFindings: (result.keyFindings || []).map(finding => ({ ...finding, finding: translate(finding.finding) })),
+  };
+};
+
+// The texts to send for translation, in the order applyTranslatedText expects them back
+export const collectTranslatableText = (result: AnalysisResult): string[] => {
+  const texts: string[] = [];
+  mapText(result, text => {
+    texts.push(text);
+    return text;
+  });
+  return texts;
+};
+
+// A copy of `result` with its texts replaced, one for one, by `translated`
+export const applyTranslatedText = (result: AnalysisResult, translated: string[]): AnalysisResult => {
+  const expected = collectTranslatableText(result).length;
+  if (translated.length !== expected) {
+    throw new Error(`Expected ${expected} translated texts, got ${translated.length}`);
+  }
+  let next = 0;
+  return mapText(result, () => translated[next++]);
+};
@@ -0,0 +1,126 @@
+import { AnalysisResult, DeadlineType, SimplifiedTerm } from '../types';
+import { LiveToolCall, LiveToolDeclaration } from './aiProvider';
+import { parseDeadlineDate } from './deadlineService';
+
+// What the voice assistant can do on the page. Indexes point into the analysis lists.
+export type VoiceAction =
+  | { kind: 'check_document' | 'uncheck_document'; index: number }
+  | { kind: 'highlight_term'; index: number }
+  | { kind: 'add_reminder'; index: number }
+  | { kind: 'open_form'; form: string; url: string };
+
+// The call can't be carried out; the message goes back to the model so it can explain or ask again
+export class VoiceActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceActionError';
+  }
+}
+
+// Form numbers like I-130, N-400 or I-864A
+const FORM_NUMBER = /\b([A-Z]{1,3}-\d{2,3}[A-Z]*)\b/;
+
+export const findFormNumber = (text: string): string | null => FORM_NUMBER.exec(text.toUpperCase())?.[1] || null;
+
+export const getUscisFormUrl = (form: string) => `https://www.uscis.gov/${form.toLowerCase()}`;
+
+export const VOICE_ACTION_TOOLS: LiveToolDeclaration[] = [
+  {
+    name: 'set_document_checked',
+    description: "Tick or untick a document on the user's checklist of required documents, e.g. when they say they already have it.",
+    parameters: {
+      type: 'object',
+      properties: {
+        document: { type: 'integer', description: "Position of the document in requiredDocuments, starting at 1." },
+        checked: { type: 'boolean', description: "True to tick it (the default), false to untick it." },
+      },
+      required: ['document'],
+    },
+  },
+  {
+    name: 'show_glossary_term',
+    description: "Scroll to a term in the glossary on screen and highlight it, so the user can read its definition.",
+    parameters: {
+      type: 'object',
+      properties: {
+        term: { type: 'string', description: "The term as it appears in the glossary on screen." },
+      },
+      required: ['term'],
+    },
+  },
+  {
+    name: 'add_deadline_reminder',
+    description: "Add a calendar reminder for one of the deadlines in the letter.",
+    parameters: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: "The deadline's date as YYYY-MM-DD, from deadlines." },
+        type: { type: 'string', enum: Object.values(DeadlineType), description: "The deadline's type, if several share the date." },
+      },
+      required: ['date'],
+    },
+  },
+  {
+    name: 'open_uscis_form',
+    description: "Open the official USCIS page for a form, where the user can download it and read its instructions.",
+    parameters: {
+      type: 'object',
+      properties: {
+        form: { type: 'string', description: "The form number, e.g. I-130 or N-400." },
+      },
+      required: ['form'],
+    },
+  },
+];
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Check the model's arguments against the analysis on screen before anything changes.
+// `glossary` is the glossary as shown, which adds dictionary terms to the model's own.
+export const parseVoiceAction = (result: AnalysisResult, glossary: SimplifiedTerm[], call: LiveToolCall): VoiceAction => {
+  const args = call.args;
+
+  if (call.name === 'set_document_checked') {
+    const documents = result.requiredDocuments || [];
+    const position = Number(args.document);
+    if (!Number.isInteger(position) || position < 1 || position > documents.length) {
+      throw new VoiceActionError(`There is no required document number ${args.document}. The list has ${documents.length}.`);
+    }
+    return { kind: args.checked === false ? 'uncheck_document' : 'check_document', index: position - 1 };
+  }
+
+  if (call.name === 'show_glossary_term') {
+    const wanted = normalize(String(args.term || ''));
+    const terms = glossary.map(item => normalize(item.term));
+    let index = terms.indexOf(wanted);
+    if (index === -1 && wanted) index = terms.findIndex(term => term.includes(wanted) || wanted.includes(term));
+    if (index === -1) {
+      throw new VoiceActionError(`"${args.term}" is not in the glossary.`);
+    }
+    return { kind: 'highlight_term', index };
+  }
+
+  if (call.name === 'add_deadline_reminder') {
+    const wanted = parseDeadlineDate(String(args.date || ''));
+    const sameDay = wanted
+      ? (result.deadlines || [])
+          .map((deadline, index) => ({ deadline, index }))
+          .filter(({ deadline }) => parseDeadlineDate(deadline.date)?.getTime() === wanted.getTime())
+      : [];
+    const match = sameDay.find(({ deadline }) => deadline.type === args.type) || sameDay[0];
+    if (!match) {
+      throw new VoiceActionError(`No deadline in the letter falls on ${args.date}.`);
+    }
+    return { kind: 'add_reminder', index: match.index };
+  }
+
+  if (call.name === 'open_uscis_form') {
+    const form = findFormNumber(String(args.form || ''));
+    if (!form) {
+      throw new VoiceActionError(`"${args.form}" is not a USCIS form number.`);
+    }
+    return { kind: 'open_form', form, url: getUscisFormUrl(form) };
+  }
+
+  throw new VoiceActionError(`Unknown action "${call.name}".`);
+};
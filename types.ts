@@ -6,24 +6,113 @@ export enum Sentiment {
   UNKNOWN = 'UNKNOWN'
 }
 
-export type Language = 'en' | 'es';
+export enum DeadlineType {
+  RESPOND_BY = 'RESPOND_BY',
+  APPOINTMENT = 'APPOINTMENT',
+  EXPIRY = 'EXPIRY',
+  HEARING = 'HEARING'
+}
+
+// Where a notice sits in the usual life of a USCIS case
+export enum NoticeStage {
+  RECEIPT = 'RECEIPT',
+  BIOMETRICS = 'BIOMETRICS',
+  RFE = 'RFE',
+  INTERVIEW = 'INTERVIEW',
+  APPROVAL = 'APPROVAL',
+  DENIAL = 'DENIAL',
+  CARD_PRODUCED = 'CARD_PRODUCED',
+  OTHER = 'OTHER'
+}
+
+// Keep in sync with LANGUAGES in locales/languages.ts
+export type Language = 'en' | 'es' | 'ar' | 'ht' | 'vi' | 'zh' | 'tl';
 
 export interface SimplifiedTerm {
   term: string;
   definition: string;
 }
 
+export interface DocumentPage {
+  base64: string;
+  mimeType: string;
+  name: string;
+}
+
+export interface KeyFinding {
+  finding: string;
+  page: number;
+}
+
+export interface ActionItem {
+  title: string;
+  details: string;
+  dueDate?: string; // ISO 8601 calendar date (YYYY-MM-DD)
+  requiredDocument?: string;
+}
+
+export interface Deadline {
+  date: string; // ISO 8601 calendar date (YYYY-MM-DD)
+  type: DeadlineType;
+  sourceText: string;
+  isEstimated: boolean;
+  page?: number;
+}
+
+export interface CaseMetadata {
+  receiptNumber?: string;
+  aNumber?: string;
+  priorityDate?: string; // ISO 8601 calendar date (YYYY-MM-DD)
+  noticeDate?: string; // ISO 8601 calendar date (YYYY-MM-DD)
+  serviceCenter?: string;
+  beneficiaryName?: string;
+  petitionerName?: string;
+}
+
 export interface AnalysisResult {
   isImmigrationDocument: boolean;
   documentType: string;
+  // Missing on results saved before stages were extracted; derive it from documentType then
+  noticeStage?: NoticeStage;
+  caseMetadata: CaseMetadata;
   whatIsThis: string;
-  actionItems: string;
-  deadline?: string;
+  actionItems: ActionItem[];
+  deadlines: Deadline[];
   goodOrBadNews: string;
   sentiment: Sentiment;
   requiredDocuments: string[];
   exampleOfRequirement?: string;
   simplifiedTerms: SimplifiedTerm[];
+  keyFindings: KeyFinding[];
+}
+
+// Something the voice assistant did on the page during a call
+export interface CallAction {
+  kind: 'check_document' | 'uncheck_document' | 'highlight_term' | 'add_reminder' | 'open_form';
+  // What it acted on, as shown to the user (a document name, a term, a deadline or a form number)
+  target: string;
+  url?: string;
+}
+
+// One spoken turn of a live call. Times are milliseconds since the epoch.
+export interface CallTurn {
+  role: 'user' | 'model';
+  text: string;
+  startedAt: number;
+  endedAt: number;
+  // The user talked over the answer, so it was cut short
+  interrupted?: boolean;
+  // Set on turns that record an action instead of speech; `text` is then the action's target
+  action?: CallAction;
+}
+
+export interface CallTranscript {
+  id: string;
+  language: Language;
+  startedAt: number;
+  // Unset while the call is still going
+  endedAt?: number;
+  turns: CallTurn[];
 }
 
 export interface ChatMessage {
@@ -32,4 +121,8 @@ export interface ChatMessage {
   isError?: boolean;
   sources?: { title: string; uri: string }[];
   feedback?: 'up' | 'down';
+  isStreaming?: boolean;
+  isStopped?: boolean;
+  // A live voice call, kept as one entry in the conversation instead of loose messages
+  call?: CallTranscript;
 }
\ No newline at end of file